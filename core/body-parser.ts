@@ -0,0 +1,894 @@
+import {
+  BadRequestException,
+  HttpException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "./decorators/exception.decorators";
+
+/**
+ * Request body parsers for WynkJS Framework
+ * Parse the content types Elysia does not (XML, CSV, MessagePack, CBOR,
+ * nested form fields) before the route's `body` schema validates them
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * Parses request bodies of one media type.
+ *
+ * @example
+ * class YamlParser implements BodyParser {
+ *   readonly mediaType = "application/yaml";
+ *   parse(body: Uint8Array) {
+ *     return YAML.parse(new TextDecoder().decode(body));
+ *   }
+ * }
+ *
+ * WynkFactory.create({ bodyParsers: [new YamlParser()] });
+ */
+export interface BodyParser {
+  /** Media type matched against `Content-Type`, e.g. `"text/csv"`. */
+  readonly mediaType: string;
+  /**
+   * Parse the raw body. Errors answer 400, unless they are `HttpException`s.
+   *
+   * @param contentType - The full `Content-Type` header, with its parameters
+   */
+  parse(body: Uint8Array, contentType: string): any;
+}
+
+// Nesting of decoded values, beyond which bodies are rejected
+const MAX_DEPTH = 100;
+
+// Keys that would change the prototype of parsed objects
+const UNSAFE_KEYS = new Set(["__proto__", "constructor", "prototype"]);
+
+function setProperty(target: Record<string, any>, key: string, value: any): void {
+  if (key === "__proto__") {
+    Object.defineProperty(target, key, {
+      value,
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  } else {
+    target[key] = value;
+  }
+}
+
+/**
+ * Decode a text body in the `charset` of its `Content-Type` (UTF-8 by default).
+ */
+function decodeText(body: Uint8Array, contentType: string): string {
+  const charset = /;\s*charset="?([^";]+)"?/i.exec(contentType)?.[1] ?? "utf-8";
+  let decoder: TextDecoder;
+  try {
+    decoder = new TextDecoder(charset.trim() as any, { fatal: true });
+  } catch {
+    throw new UnsupportedMediaTypeException(`Unsupported charset "${charset}"`);
+  }
+  return decoder.decode(body);
+}
+
+/**
+ * Options of `UrlEncodedParser`.
+ */
+export interface UrlEncodedParserOptions {
+  /** Deepest nesting of field names such as `a[b][c]`. Defaults to `10`. */
+  depth?: number;
+  /** Highest index of array fields such as `a[3]`; larger ones are object keys. Defaults to `20`. */
+  arrayLimit?: number;
+  /** Maximum number of fields, beyond which requests fail with a 413. Defaults to `1000`. */
+  parameterLimit?: number;
+}
+
+/**
+ * `application/x-www-form-urlencoded` bodies with nested field names:
+ * `a[b][c]=1` gives `{ a: { b: { c: "1" } } }`, `tags[]=x&tags[]=y` and
+ * repeated fields give arrays. Values are strings.
+ */
+export class UrlEncodedParser implements BodyParser {
+  readonly mediaType = "application/x-www-form-urlencoded";
+
+  constructor(private readonly options: UrlEncodedParserOptions = {}) {}
+
+  parse(body: Uint8Array, contentType: string): Record<string, any> {
+    const { depth = 10, parameterLimit = 1000 } = this.options;
+    const params = new URLSearchParams(decodeText(body, contentType));
+    let result: Record<string, any> = {};
+    let count = 0;
+    for (const [name, value] of params) {
+      if (++count > parameterLimit) {
+        throw new PayloadTooLargeException(
+          `Form bodies are limited to ${parameterLimit} fields`
+        );
+      }
+      const path = parseFieldName(name);
+      if (path.length - 1 > depth) {
+        throw new BadRequestException(
+          `Form field "${name}" is nested deeper than ${depth} levels`
+        );
+      }
+      if (path.some((segment) => UNSAFE_KEYS.has(segment))) continue;
+      result = this.assign(result, path, value, name);
+    }
+    return compactArrays(result);
+  }
+
+  private assign(target: any, path: string[], value: string, name: string): any {
+    const [segment, ...rest] = path;
+    const arrayLimit = this.options.arrayLimit ?? 20;
+    const isIndex =
+      segment === "" || (/^\d+$/.test(segment) && Number(segment) <= arrayLimit);
+
+    if (target === undefined) target = isIndex ? [] : {};
+    // a[0]=x&a[b]=y: the array becomes an object with index keys
+    if (Array.isArray(target) && !isIndex) target = { ...target };
+    if (typeof target !== "object") {
+      throw new BadRequestException(
+        `Form field "${name}" conflicts with a field of the same name`
+      );
+    }
+
+    const key =
+      segment === ""
+        ? String(Array.isArray(target) ? target.length : Object.keys(target).length)
+        : segment;
+    if (rest.length > 0) {
+      setProperty(target, key, this.assign(target[key], rest, value, name));
+      return target;
+    }
+
+    const existing = target[key];
+    if (existing === undefined) {
+      setProperty(target, key, value);
+    } else if (Array.isArray(existing)) {
+      existing.push(value);
+    } else if (typeof existing === "string") {
+      setProperty(target, key, [existing, value]);
+    } else {
+      throw new BadRequestException(
+        `Form field "${name}" conflicts with a field of the same name`
+      );
+    }
+    return target;
+  }
+}
+
+/**
+ * `a[b][]` -> `["a", "b", ""]`. Malformed names are used as they are.
+ */
+function parseFieldName(name: string): string[] {
+  const match = /^([^[\]]+)((?:\[[^[\]]*\])*)$/.exec(name);
+  if (!match) return [name];
+  const segments = [match[1]];
+  for (const [, segment] of match[2].matchAll(/\[([^[\]]*)\]/g)) {
+    segments.push(segment);
+  }
+  return segments;
+}
+
+// a[2]=x&a[0]=y leaves holes in the array
+function compactArrays(value: any): any {
+  if (Array.isArray(value)) {
+    return value.filter(() => true).map(compactArrays);
+  }
+  if (value && typeof value === "object") {
+    for (const key of Object.keys(value)) {
+      value[key] = compactArrays(value[key]);
+    }
+  }
+  return value;
+}
+
+/**
+ * Options of `XmlParser`.
+ */
+export interface XmlParserOptions {
+  /** Media type to parse. Defaults to `"application/xml"`. */
+  mediaType?: string;
+}
+
+/**
+ * XML bodies, read as the contents of their document element: child
+ * elements become properties (arrays when repeated), attributes too, and
+ * text becomes strings. The text of elements having children or attributes
+ * goes in `"#text"`. DOCTYPE declarations are rejected.
+ *
+ * @example
+ * // <order id="7"><item>a</item><item>b</item><note/></order> ->
+ * // { id: "7", item: ["a", "b"], note: "" }
+ */
+export class XmlParser implements BodyParser {
+  readonly mediaType: string;
+
+  constructor(options: XmlParserOptions = {}) {
+    this.mediaType = options.mediaType ?? "application/xml";
+  }
+
+  parse(body: Uint8Array, contentType: string): any {
+    return new XmlReader(decodeText(body, contentType)).readDocument();
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+class XmlReader {
+  private position = 0;
+
+  constructor(private readonly text: string) {}
+
+  readDocument(): any {
+    if (this.text.startsWith("\uFEFF")) this.position = 1;
+    this.skipMisc();
+    if (this.text.startsWith("<!DOCTYPE", this.position)) {
+      throw new Error("DOCTYPE declarations are not allowed");
+    }
+    const root = this.readElement(0);
+    this.skipMisc();
+    if (this.position < this.text.length) {
+      throw new Error("Unexpected content after the document element");
+    }
+    return root.value;
+  }
+
+  // Whitespace, comments and processing instructions (including <?xml ?>)
+  private skipMisc(): void {
+    for (;;) {
+      while (/\s/.test(this.text[this.position] ?? "")) this.position++;
+      if (this.text.startsWith("<!--", this.position)) {
+        this.skipPast("-->");
+      } else if (this.text.startsWith("<?", this.position)) {
+        this.skipPast("?>");
+      } else {
+        return;
+      }
+    }
+  }
+
+  private skipPast(end: string): string {
+    const index = this.text.indexOf(end, this.position);
+    if (index === -1) throw new Error(`Missing "${end}"`);
+    const skipped = this.text.slice(this.position, index);
+    this.position = index + end.length;
+    return skipped;
+  }
+
+  private readName(): string {
+    const match = /^[^\s/>=<"'!?]+/.exec(this.text.slice(this.position, this.position + 256));
+    if (!match) throw new Error(`Expected a name at position ${this.position}`);
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private readElement(depth: number): { name: string; value: any } {
+    if (depth > MAX_DEPTH) throw new Error("Elements are nested too deeply");
+    if (this.text[this.position] !== "<") {
+      throw new Error(`Expected an element at position ${this.position}`);
+    }
+    this.position++;
+    const name = this.readName();
+    const properties: Record<string, any> = {};
+    let hasProperties = false;
+
+    for (;;) {
+      while (/\s/.test(this.text[this.position] ?? "")) this.position++;
+      if (this.text.startsWith("/>", this.position)) {
+        this.position += 2;
+        return { name, value: hasProperties ? properties : "" };
+      }
+      if (this.text[this.position] === ">") {
+        this.position++;
+        break;
+      }
+      const attribute = this.readName();
+      while (/\s/.test(this.text[this.position] ?? "")) this.position++;
+      const quote = this.text[this.position + 1];
+      if (this.text[this.position] !== "=" || (quote !== '"' && quote !== "'")) {
+        throw new Error(`Expected a quoted value for attribute "${attribute}"`);
+      }
+      this.position += 2;
+      const value = decodeXmlEntities(this.skipPast(quote));
+      if (!UNSAFE_KEYS.has(attribute)) {
+        addXmlProperty(properties, attribute, value);
+        hasProperties = true;
+      }
+    }
+
+    let text = "";
+    for (;;) {
+      if (this.position >= this.text.length) {
+        throw new Error(`Element "${name}" is not closed`);
+      }
+      if (this.text.startsWith("</", this.position)) {
+        this.position += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          throw new Error(`Expected "</${name}>" but found "</${closing}>"`);
+        }
+        while (/\s/.test(this.text[this.position] ?? "")) this.position++;
+        if (this.text[this.position] !== ">") throw new Error(`Expected ">" after "</${name}"`);
+        this.position++;
+        break;
+      }
+      if (this.text.startsWith("<![CDATA[", this.position)) {
+        this.position += 9;
+        text += this.skipPast("]]>");
+      } else if (this.text.startsWith("<!--", this.position)) {
+        this.skipPast("-->");
+      } else if (this.text.startsWith("<?", this.position)) {
+        this.skipPast("?>");
+      } else if (this.text[this.position] === "<") {
+        const child = this.readElement(depth + 1);
+        if (!UNSAFE_KEYS.has(child.name)) {
+          addXmlProperty(properties, child.name, child.value);
+          hasProperties = true;
+        }
+      } else {
+        const end = this.text.indexOf("<", this.position);
+        const chunk = this.text.slice(this.position, end === -1 ? undefined : end);
+        text += decodeXmlEntities(chunk);
+        this.position += chunk.length;
+      }
+    }
+
+    if (!hasProperties) return { name, value: text };
+    if (text.trim()) properties["#text"] = text;
+    return { name, value: properties };
+  }
+}
+
+function addXmlProperty(properties: Record<string, any>, key: string, value: any): void {
+  if (!Object.prototype.hasOwnProperty.call(properties, key)) {
+    properties[key] = value;
+  } else if (Array.isArray(properties[key])) {
+    properties[key].push(value);
+  } else {
+    properties[key] = [properties[key], value];
+  }
+}
+
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&([^;\s&]*);?/g, (match, entity: string) => {
+    if (!match.endsWith(";")) throw new Error(`Unterminated entity "${match}"`);
+    if (entity.startsWith("#")) {
+      const code =
+        entity[1] === "x" ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      if (Number.isNaN(code) || code > 0x10ffff) {
+        throw new Error(`Invalid character reference "${match}"`);
+      }
+      return String.fromCodePoint(code);
+    }
+    if (!(entity in XML_ENTITIES)) throw new Error(`Unknown entity "${match}"`);
+    return XML_ENTITIES[entity];
+  });
+}
+
+/**
+ * Options of `CsvParser`.
+ */
+export interface CsvParserOptions {
+  /** Field delimiter. Defaults to `","`. */
+  delimiter?: string;
+  /**
+   * Read the first row as column names, giving one object per row.
+   * Defaults to `true`; `false` gives one array of strings per row.
+   */
+  header?: boolean;
+}
+
+/**
+ * `text/csv` bodies (RFC 4180), as an array of rows keyed by the header row.
+ * Values are strings; blank lines are skipped.
+ */
+export class CsvParser implements BodyParser {
+  readonly mediaType = "text/csv";
+
+  constructor(private readonly options: CsvParserOptions = {}) {}
+
+  parse(body: Uint8Array, contentType: string): any[] {
+    const rows = this.readRows(decodeText(body, contentType).replace(/^\uFEFF/, ""));
+    if (this.options.header === false) return rows;
+
+    const [columns = [], ...records] = rows;
+    return records.map((record) => {
+      const row: Record<string, string> = {};
+      columns.forEach((column, index) => {
+        if (!UNSAFE_KEYS.has(column)) row[column] = record[index] ?? "";
+      });
+      return row;
+    });
+  }
+
+  private readRows(text: string): string[][] {
+    const delimiter = this.options.delimiter ?? ",";
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+    let position = 0;
+
+    const endRow = () => {
+      row.push(field);
+      // Blank lines are a single empty field
+      if (row.length > 1 || row[0] !== "") rows.push(row);
+      row = [];
+      field = "";
+    };
+
+    while (position < text.length) {
+      const char = text[position];
+      if (quoted) {
+        if (char === '"' && text[position + 1] === '"') {
+          field += '"';
+          position += 2;
+          continue;
+        }
+        if (char === '"') quoted = false;
+        else field += char;
+        position++;
+      } else if (char === '"' && field === "") {
+        quoted = true;
+        position++;
+      } else if (text.startsWith(delimiter, position)) {
+        row.push(field);
+        field = "";
+        position += delimiter.length;
+      } else if (char === "\r" || char === "\n") {
+        endRow();
+        position += char === "\r" && text[position + 1] === "\n" ? 2 : 1;
+      } else {
+        field += char;
+        position++;
+      }
+    }
+    if (quoted) throw new Error("Unterminated quoted field");
+    if (field !== "" || row.length > 0) endRow();
+    return rows;
+  }
+}
+
+/**
+ * Reads binary formats, checking every read against the end of the data.
+ */
+class BinaryReader {
+  position = 0;
+  private readonly view: DataView;
+  private readonly decoder = new TextDecoder("utf-8", { fatal: true });
+
+  constructor(readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  get remaining(): number {
+    return this.bytes.length - this.position;
+  }
+
+  private take(count: number): number {
+    if (count > this.remaining) throw new Error("Unexpected end of data");
+    const position = this.position;
+    this.position += count;
+    return position;
+  }
+
+  uint8(): number {
+    return this.view.getUint8(this.take(1));
+  }
+  uint16(): number {
+    return this.view.getUint16(this.take(2));
+  }
+  uint32(): number {
+    return this.view.getUint32(this.take(4));
+  }
+  int8(): number {
+    return this.view.getInt8(this.take(1));
+  }
+  int16(): number {
+    return this.view.getInt16(this.take(2));
+  }
+  int32(): number {
+    return this.view.getInt32(this.take(4));
+  }
+  float32(): number {
+    return this.view.getFloat32(this.take(4));
+  }
+  float64(): number {
+    return this.view.getFloat64(this.take(8));
+  }
+  uint64(): number | bigint {
+    return toSafeNumber(this.view.getBigUint64(this.take(8)));
+  }
+  int64(): number | bigint {
+    return toSafeNumber(this.view.getBigInt64(this.take(8)));
+  }
+  raw(count: number): Uint8Array {
+    const position = this.take(count);
+    return this.bytes.slice(position, position + count);
+  }
+  string(count: number): string {
+    const position = this.take(count);
+    return this.decoder.decode(this.bytes.subarray(position, position + count));
+  }
+
+  // Every item takes at least one byte: larger counts are malformed
+  checkCount(count: number): number {
+    if (count > this.remaining) throw new Error("Unexpected end of data");
+    return count;
+  }
+}
+
+function toSafeNumber(value: bigint): number | bigint {
+  return value >= BigInt(Number.MIN_SAFE_INTEGER) && value <= BigInt(Number.MAX_SAFE_INTEGER)
+    ? Number(value)
+    : value;
+}
+
+/**
+ * `application/msgpack` bodies. Binary values become `Uint8Array`s,
+ * timestamps `Date`s, and integers beyond 2^53 `bigint`s.
+ */
+export class MessagePackParser implements BodyParser {
+  readonly mediaType = "application/msgpack";
+
+  parse(body: Uint8Array): any {
+    const reader = new BinaryReader(body);
+    const value = this.read(reader, 0);
+    if (reader.remaining > 0) throw new Error("Unexpected data after the value");
+    return value;
+  }
+
+  private read(reader: BinaryReader, depth: number): any {
+    if (depth > MAX_DEPTH) throw new Error("Values are nested too deeply");
+    const type = reader.uint8();
+    if (type <= 0x7f) return type;
+    if (type >= 0xe0) return type - 0x100;
+    if (type >= 0x80 && type <= 0x8f) return this.map(reader, type & 0x0f, depth);
+    if (type >= 0x90 && type <= 0x9f) return this.array(reader, type & 0x0f, depth);
+    if (type >= 0xa0 && type <= 0xbf) return reader.string(type & 0x1f);
+
+    switch (type) {
+      case 0xc0:
+        return null;
+      case 0xc2:
+        return false;
+      case 0xc3:
+        return true;
+      case 0xc4:
+        return reader.raw(reader.uint8());
+      case 0xc5:
+        return reader.raw(reader.uint16());
+      case 0xc6:
+        return reader.raw(reader.uint32());
+      case 0xc7:
+        return this.extension(reader, reader.uint8());
+      case 0xc8:
+        return this.extension(reader, reader.uint16());
+      case 0xc9:
+        return this.extension(reader, reader.uint32());
+      case 0xca:
+        return reader.float32();
+      case 0xcb:
+        return reader.float64();
+      case 0xcc:
+        return reader.uint8();
+      case 0xcd:
+        return reader.uint16();
+      case 0xce:
+        return reader.uint32();
+      case 0xcf:
+        return reader.uint64();
+      case 0xd0:
+        return reader.int8();
+      case 0xd1:
+        return reader.int16();
+      case 0xd2:
+        return reader.int32();
+      case 0xd3:
+        return reader.int64();
+      case 0xd4:
+        return this.extension(reader, 1);
+      case 0xd5:
+        return this.extension(reader, 2);
+      case 0xd6:
+        return this.extension(reader, 4);
+      case 0xd7:
+        return this.extension(reader, 8);
+      case 0xd8:
+        return this.extension(reader, 16);
+      case 0xd9:
+        return reader.string(reader.uint8());
+      case 0xda:
+        return reader.string(reader.uint16());
+      case 0xdb:
+        return reader.string(reader.uint32());
+      case 0xdc:
+        return this.array(reader, reader.uint16(), depth);
+      case 0xdd:
+        return this.array(reader, reader.uint32(), depth);
+      case 0xde:
+        return this.map(reader, reader.uint16(), depth);
+      case 0xdf:
+        return this.map(reader, reader.uint32(), depth);
+      default:
+        throw new Error(`Invalid MessagePack type 0x${type.toString(16)}`);
+    }
+  }
+
+  private array(reader: BinaryReader, count: number, depth: number): any[] {
+    const items = new Array(reader.checkCount(count));
+    for (let index = 0; index < count; index++) {
+      items[index] = this.read(reader, depth + 1);
+    }
+    return items;
+  }
+
+  private map(reader: BinaryReader, count: number, depth: number): Record<string, any> {
+    reader.checkCount(count * 2);
+    const result: Record<string, any> = {};
+    for (let index = 0; index < count; index++) {
+      const key = String(this.read(reader, depth + 1));
+      setProperty(result, key, this.read(reader, depth + 1));
+    }
+    return result;
+  }
+
+  private extension(reader: BinaryReader, size: number): Date {
+    const type = reader.int8();
+    // Timestamp extension (-1) in its 32, 64 and 96-bit forms
+    if (type === -1 && size === 4) return new Date(reader.uint32() * 1000);
+    if (type === -1 && size === 8) {
+      const high = reader.uint32();
+      const low = reader.uint32();
+      const seconds = (high & 0x3) * 2 ** 32 + low;
+      return new Date(seconds * 1000 + (high >>> 2) / 1e6);
+    }
+    if (type === -1 && size === 12) {
+      const nanoseconds = reader.uint32();
+      return new Date(Number(reader.int64()) * 1000 + nanoseconds / 1e6);
+    }
+    throw new Error(`Unsupported MessagePack extension type ${type}`);
+  }
+}
+
+// CBOR "break" stop code ending indefinite-length items
+const CBOR_BREAK = Symbol("break");
+
+/**
+ * `application/cbor` bodies (RFC 8949). Byte strings become `Uint8Array`s,
+ * date tags (0 and 1) `Date`s, bignums and integers beyond 2^53 `bigint`s;
+ * other tags are read as their content.
+ */
+export class CborParser implements BodyParser {
+  readonly mediaType = "application/cbor";
+
+  parse(body: Uint8Array): any {
+    const reader = new BinaryReader(body);
+    const value = this.read(reader, 0);
+    if (value === CBOR_BREAK) throw new Error("Unexpected break");
+    if (reader.remaining > 0) throw new Error("Unexpected data after the value");
+    return value;
+  }
+
+  private read(reader: BinaryReader, depth: number): any {
+    if (depth > MAX_DEPTH) throw new Error("Values are nested too deeply");
+    const initial = reader.uint8();
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) return this.simple(reader, info);
+    if (info === 31) return this.indefinite(reader, major, depth);
+    const argument = this.argument(reader, info);
+
+    switch (major) {
+      case 0:
+        return argument;
+      case 1:
+        return typeof argument === "bigint"
+          ? toSafeNumber(-1n - argument)
+          : -1 - argument;
+      case 2:
+        return reader.raw(this.length(argument));
+      case 3:
+        return reader.string(this.length(argument));
+      case 4: {
+        const count = reader.checkCount(this.length(argument));
+        const items = new Array(count);
+        for (let index = 0; index < count; index++) {
+          items[index] = this.item(reader, depth);
+        }
+        return items;
+      }
+      case 5: {
+        const count = reader.checkCount(this.length(argument) * 2) / 2;
+        const result: Record<string, any> = {};
+        for (let index = 0; index < count; index++) {
+          const key = String(this.item(reader, depth));
+          setProperty(result, key, this.item(reader, depth));
+        }
+        return result;
+      }
+      default:
+        return this.tag(argument, this.item(reader, depth));
+    }
+  }
+
+  // A nested item, where a break is not allowed
+  private item(reader: BinaryReader, depth: number): any {
+    const value = this.read(reader, depth + 1);
+    if (value === CBOR_BREAK) throw new Error("Unexpected break");
+    return value;
+  }
+
+  private argument(reader: BinaryReader, info: number): number | bigint {
+    if (info < 24) return info;
+    if (info === 24) return reader.uint8();
+    if (info === 25) return reader.uint16();
+    if (info === 26) return reader.uint32();
+    if (info === 27) return reader.uint64();
+    throw new Error(`Invalid CBOR additional information ${info}`);
+  }
+
+  private length(argument: number | bigint): number {
+    if (typeof argument === "bigint") throw new Error("Unexpected end of data");
+    return argument;
+  }
+
+  private indefinite(reader: BinaryReader, major: number, depth: number): any {
+    const items: any[] = [];
+    for (;;) {
+      const value = this.read(reader, depth + 1);
+      if (value === CBOR_BREAK) break;
+      items.push(value);
+    }
+    switch (major) {
+      case 2:
+      case 3:
+        // Chunks must be definite strings of the same major type
+        if (!items.every((chunk) => (major === 2 ? chunk instanceof Uint8Array : typeof chunk === "string"))) {
+          throw new Error("Invalid chunk in an indefinite-length string");
+        }
+        if (major === 3) return items.join("");
+        return new Uint8Array(Buffer.concat(items));
+      case 4:
+        return items;
+      case 5: {
+        if (items.length % 2 !== 0) throw new Error("Map is missing a value");
+        const result: Record<string, any> = {};
+        for (let index = 0; index < items.length; index += 2) {
+          setProperty(result, String(items[index]), items[index + 1]);
+        }
+        return result;
+      }
+      default:
+        throw new Error(`Invalid indefinite length for major type ${major}`);
+    }
+  }
+
+  private simple(reader: BinaryReader, info: number): any {
+    switch (info) {
+      case 20:
+        return false;
+      case 21:
+        return true;
+      case 22:
+        return null;
+      case 23:
+        return undefined;
+      case 25:
+        return decodeHalfFloat(reader.uint16());
+      case 26:
+        return reader.float32();
+      case 27:
+        return reader.float64();
+      case 31:
+        return CBOR_BREAK;
+      default:
+        throw new Error(`Unsupported CBOR simple value ${info}`);
+    }
+  }
+
+  private tag(tag: number | bigint, value: any): any {
+    if (tag === 0 && typeof value === "string") return new Date(value);
+    if (tag === 1 && typeof value === "number") return new Date(value * 1000);
+    if ((tag === 2 || tag === 3) && value instanceof Uint8Array) {
+      let bignum = 0n;
+      for (const byte of value) bignum = (bignum << 8n) | BigInt(byte);
+      return toSafeNumber(tag === 2 ? bignum : -1n - bignum);
+    }
+    return value;
+  }
+}
+
+function decodeHalfFloat(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const fraction = half & 0x3ff;
+  if (exponent === 0) return sign * 2 ** -14 * (fraction / 1024);
+  if (exponent === 0x1f) return fraction ? NaN : sign * Infinity;
+  return sign * 2 ** (exponent - 15) * (1 + fraction / 1024);
+}
+
+/**
+ * Parsers by media type: the built-in form, XML, CSV, MessagePack and CBOR
+ * parsers, replaced or extended by `parsers`. Other types (JSON, text,
+ * multipart) are left to Elysia.
+ */
+export function createBodyParserRegistry(
+  parsers: BodyParser[] = []
+): Map<string, BodyParser> {
+  const registry = new Map<string, BodyParser>();
+  for (const parser of [
+    new UrlEncodedParser(),
+    new XmlParser(),
+    new XmlParser({ mediaType: "text/xml" }),
+    new CsvParser(),
+    new MessagePackParser(),
+    new CborParser(),
+    ...parsers,
+  ]) {
+    registry.set(parser.mediaType.toLowerCase(), parser);
+  }
+  return registry;
+}
+
+function matchesMediaType(mediaType: string, range: string): boolean {
+  const expected = range.toLowerCase();
+  return (
+    expected === mediaType ||
+    expected === "*/*" ||
+    (expected.endsWith("/*") && mediaType.startsWith(expected.slice(0, -1)))
+  );
+}
+
+/**
+ * Elysia `parse` hook of a route: answers 415 for content types outside
+ * `consumes`, and parses those of the registry. Other bodies are left to
+ * Elysia's own parsers; the route's `body` schema validates both. With
+ * `rawBody`, the unparsed bytes are kept in `ctx.rawBody`.
+ */
+export function createBodyParseHook(
+  parsers: Map<string, BodyParser>,
+  options: { consumes?: string[]; rawBody?: boolean } = {}
+): (ctx: any, contentType: string) => Promise<any> {
+  const { consumes, rawBody } = options;
+  return async (ctx: any, contentType: string) => {
+    const request: globalThis.Request = ctx.request;
+    const mediaType = contentType.split(";")[0].trim().toLowerCase();
+    if (
+      consumes &&
+      (mediaType || request.body) &&
+      !consumes.some((range) => matchesMediaType(mediaType, range))
+    ) {
+      throw new UnsupportedMediaTypeException(
+        `Content-Type "${mediaType || "(none)"}" is not supported. Expected ${consumes.join(", ")}`
+      );
+    }
+
+    const parser = parsers.get(mediaType);
+    if (!parser) {
+      // Elysia reads the request itself: keep a copy of the bytes
+      if (rawBody) {
+        ctx.rawBody = new Uint8Array(await request.clone().arrayBuffer());
+      }
+      return undefined;
+    }
+    const body = new Uint8Array(await request.arrayBuffer());
+    if (rawBody) ctx.rawBody = body;
+    try {
+      return await parser.parse(
+        body,
+        request.headers.get("content-type") ?? mediaType
+      );
+    } catch (error) {
+      if (error instanceof HttpException) throw error;
+      throw new BadRequestException(
+        `Malformed ${mediaType} body: ${(error as Error).message}`
+      );
+    }
+  };
+}
@@ -0,0 +1,500 @@
+import { NotAcceptableException } from "./decorators/exception.decorators";
+import { isSerializedBody } from "./response-schema";
+
+/**
+ * Content negotiation for WynkJS Framework
+ * Encodes handler results in the media type preferred by the `Accept`
+ * header, among those a route `@Produces()`
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * Encodes handler results in one media type.
+ *
+ * @example
+ * class YamlSerializer implements ResponseSerializer {
+ *   readonly mediaType = "application/yaml";
+ *   serialize(data: any) {
+ *     return YAML.stringify(data);
+ *   }
+ * }
+ *
+ * WynkFactory.create({ serializers: [new YamlSerializer()] });
+ */
+export interface ResponseSerializer {
+  /** Media type matched against `Accept` and `@Produces()`, e.g. `"text/csv"`. */
+  readonly mediaType: string;
+  /** `Content-Type` header of the responses. Defaults to `mediaType`. */
+  readonly contentType?: string;
+  serialize(data: any): string | Uint8Array;
+}
+
+/**
+ * A media range of an `Accept` header.
+ */
+export interface AcceptedMediaType {
+  /** Media range in lower case, e.g. `"text/csv"` or `"text/*"`. */
+  type: string;
+  /** The `q` parameter, from 0 to 1. */
+  quality: number;
+}
+
+/**
+ * Media ranges of an `Accept` header, most preferred first. Parameters other
+ * than `q` are ignored.
+ *
+ * @example
+ * parseAccept("text/csv;q=0.5, application/json");
+ * // [{ type: "application/json", quality: 1 }, { type: "text/csv", quality: 0.5 }]
+ */
+export function parseAccept(header: string): AcceptedMediaType[] {
+  const ranges: AcceptedMediaType[] = [];
+  for (const part of header.split(",")) {
+    const [type, ...params] = part.split(";").map((value) => value.trim());
+    if (!type) continue;
+    let quality = 1;
+    for (const param of params) {
+      const [name, value] = param.split("=").map((value) => value.trim());
+      if (name.toLowerCase() === "q") {
+        const parsed = Number(value);
+        quality = Number.isNaN(parsed) ? 0 : Math.min(Math.max(parsed, 0), 1);
+      }
+    }
+    ranges.push({ type: type.toLowerCase(), quality });
+  }
+  // Array.prototype.sort is stable: equal qualities keep the client's order
+  return ranges.sort((a, b) => b.quality - a.quality);
+}
+
+/**
+ * Quality of `mediaType` given by its most specific matching range, or -1
+ * when no range matches.
+ */
+function qualityOf(mediaType: string, ranges: AcceptedMediaType[]): number {
+  const [type] = mediaType.split("/");
+  let quality = -1;
+  let specificity = -1;
+  for (const range of ranges) {
+    const rank =
+      range.type === mediaType
+        ? 2
+        : range.type === `${type}/*`
+          ? 1
+          : range.type === "*/*"
+            ? 0
+            : -1;
+    if (rank > specificity) {
+      specificity = rank;
+      quality = range.quality;
+    }
+  }
+  return quality;
+}
+
+/**
+ * The media type of `available` the `Accept` header prefers, the first one
+ * on ties or without a header, or `undefined` when the header accepts none.
+ *
+ * @example
+ * negotiateMediaType("text/*;q=0.8, application/json;q=0.5", ["application/json", "text/csv"]);
+ * // "text/csv"
+ */
+export function negotiateMediaType(
+  accept: string | null | undefined,
+  available: string[]
+): string | undefined {
+  if (!accept?.trim()) return available[0];
+  const ranges = parseAccept(accept);
+  let best: string | undefined;
+  let bestQuality = 0;
+  for (const mediaType of available) {
+    const quality = qualityOf(mediaType.toLowerCase(), ranges);
+    if (quality > bestQuality) {
+      best = mediaType;
+      bestQuality = quality;
+    }
+  }
+  return best;
+}
+
+// Normalize values the way JSON does: toJSON(), no undefined or functions
+function toPlain(data: any): any {
+  const json = JSON.stringify(data);
+  return json === undefined ? null : JSON.parse(json);
+}
+
+/**
+ * `application/json` responses.
+ */
+export class JsonSerializer implements ResponseSerializer {
+  readonly mediaType = "application/json";
+
+  serialize(data: any): string {
+    return JSON.stringify(data) ?? "null";
+  }
+}
+
+/**
+ * Options of `XmlSerializer`.
+ */
+export interface XmlSerializerOptions {
+  /** Name of the document element. Defaults to `"response"`. */
+  rootName?: string;
+  /** Name of the elements of arrays. Defaults to `"item"`. */
+  itemName?: string;
+}
+
+/**
+ * `application/xml` responses: objects become elements named after their
+ * properties and arrays lists of `<item>` elements.
+ *
+ * @example
+ * // { id: 1, tags: ["a"] } ->
+ * // <?xml version="1.0" encoding="UTF-8"?><response><id>1</id><tags><item>a</item></tags></response>
+ */
+export class XmlSerializer implements ResponseSerializer {
+  readonly mediaType = "application/xml";
+  readonly contentType = "application/xml; charset=utf-8";
+
+  constructor(private readonly options: XmlSerializerOptions = {}) {}
+
+  serialize(data: any): string {
+    return (
+      '<?xml version="1.0" encoding="UTF-8"?>' +
+      this.element(this.options.rootName ?? "response", toPlain(data))
+    );
+  }
+
+  private element(name: string, value: any): string {
+    if (value === null) return `<${name}/>`;
+    let content: string;
+    if (Array.isArray(value)) {
+      const itemName = this.options.itemName ?? "item";
+      content = value.map((item) => this.element(itemName, item)).join("");
+    } else if (typeof value === "object") {
+      content = Object.entries(value)
+        .map(([key, item]) => this.element(toXmlName(key), item))
+        .join("");
+    } else {
+      content = escapeXml(String(value));
+    }
+    return `<${name}>${content}</${name}>`;
+  }
+}
+
+// Property names are not always valid element names ("1st", "first name")
+function toXmlName(key: string): string {
+  const name = key.replace(/[^A-Za-z0-9_.-]/g, "_");
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+/**
+ * Options of `CsvSerializer`.
+ */
+export interface CsvSerializerOptions {
+  /** Field delimiter. Defaults to `","`. */
+  delimiter?: string;
+  /** Columns, in order. Defaults to the properties of the rows, in order of appearance. */
+  columns?: string[];
+  /** Write a header row with the column names. Defaults to `true`. */
+  header?: boolean;
+}
+
+/**
+ * `text/csv` responses (RFC 4180): one row per element of an array, or a
+ * single row for an object. Nested objects and arrays are written as JSON,
+ * and strings returned by handlers are sent as is.
+ */
+export class CsvSerializer implements ResponseSerializer {
+  readonly mediaType = "text/csv";
+  readonly contentType = "text/csv; charset=utf-8";
+
+  constructor(private readonly options: CsvSerializerOptions = {}) {}
+
+  serialize(data: any): string {
+    if (typeof data === "string") return data;
+    const plain = toPlain(data);
+    const rows = (Array.isArray(plain) ? plain : [plain]).map((row) =>
+      row !== null && typeof row === "object" && !Array.isArray(row)
+        ? row
+        : { value: row }
+    );
+
+    let columns = this.options.columns;
+    if (!columns) {
+      const keys = new Set<string>();
+      for (const row of rows) {
+        for (const key of Object.keys(row)) keys.add(key);
+      }
+      columns = [...keys];
+    }
+
+    const lines = rows.map((row) =>
+      columns.map((column) => this.cell(row[column]))
+    );
+    if (this.options.header !== false && columns.length > 0) {
+      lines.unshift(columns.map((column) => this.cell(column)));
+    }
+    const delimiter = this.options.delimiter ?? ",";
+    return lines.map((line) => `${line.join(delimiter)}\r\n`).join("");
+  }
+
+  private cell(value: any): string {
+    if (value === null || value === undefined) return "";
+    const text = typeof value === "object" ? JSON.stringify(value) : String(value);
+    const delimiter = this.options.delimiter ?? ",";
+    return text.includes(delimiter) || /["\r\n]/.test(text)
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  }
+}
+
+/**
+ * `application/msgpack` responses. Binary data (`Uint8Array`, `Buffer`,
+ * `ArrayBuffer`) is written as MessagePack `bin`, other values as JSON would
+ * encode them.
+ */
+export class MessagePackSerializer implements ResponseSerializer {
+  readonly mediaType = "application/msgpack";
+
+  serialize(data: any): Uint8Array {
+    const writer = new MessagePackWriter();
+    writer.write(data, new Set());
+    return writer.toBytes();
+  }
+}
+
+class MessagePackWriter {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+  private readonly encoder = new TextEncoder();
+
+  write(value: any, ancestors: Set<object>): void {
+    if (value === null || value === undefined) return this.header(0xc0);
+    switch (typeof value) {
+      case "boolean":
+        return this.header(value ? 0xc3 : 0xc2);
+      case "number":
+        return this.number(value);
+      case "bigint":
+        return this.bigint(value);
+      case "string":
+        return this.string(value);
+      case "object":
+        break;
+      default:
+        // Functions and symbols, which JSON drops too
+        return this.header(0xc0);
+    }
+
+    if (ArrayBuffer.isView(value) || value instanceof ArrayBuffer) {
+      const bytes = ArrayBuffer.isView(value)
+        ? new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+        : new Uint8Array(value);
+      this.sized(bytes.length, [undefined, 0xc4, 0xc5, 0xc6]);
+      return this.raw(bytes);
+    }
+    if (typeof value.toJSON === "function") {
+      return this.write(value.toJSON(), ancestors);
+    }
+    if (ancestors.has(value)) {
+      throw new Error("Cannot encode a circular structure as MessagePack");
+    }
+    ancestors.add(value);
+
+    if (Array.isArray(value) || value instanceof Set) {
+      const items = Array.from(value);
+      this.sized(items.length, [0x90, undefined, 0xdc, 0xdd]);
+      for (const item of items) this.write(item, ancestors);
+    } else {
+      const entries =
+        value instanceof Map
+          ? Array.from(value)
+          : Object.entries(value).filter(
+              ([, item]) =>
+                item !== undefined &&
+                typeof item !== "function" &&
+                typeof item !== "symbol"
+            );
+      this.sized(entries.length, [0x80, undefined, 0xde, 0xdf]);
+      for (const [key, item] of entries) {
+        this.write(key, ancestors);
+        this.write(item, ancestors);
+      }
+    }
+    ancestors.delete(value);
+  }
+
+  toBytes(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+
+  private number(value: number): void {
+    if (!Number.isSafeInteger(value)) {
+      this.header(0xcb);
+      this.reserve(8);
+      this.view.setFloat64(this.length, value);
+      this.length += 8;
+      return;
+    }
+    if (value >= 0) {
+      if (value < 0x80) return this.header(value);
+      if (value <= 0xff) return this.header(0xcc, 1, value);
+      if (value <= 0xffff) return this.header(0xcd, 2, value);
+      if (value <= 0xffffffff) return this.header(0xce, 4, value);
+      return this.bigint(BigInt(value));
+    }
+    if (value >= -32) return this.header(value & 0xff);
+    if (value >= -0x80) return this.header(0xd0, 1, value & 0xff);
+    if (value >= -0x8000) return this.header(0xd1, 2, value & 0xffff);
+    if (value >= -0x80000000) return this.header(0xd2, 4, value >>> 0);
+    return this.bigint(BigInt(value));
+  }
+
+  private bigint(value: bigint): void {
+    if (value < -(2n ** 63n) || value >= 2n ** 64n) {
+      throw new Error(`Cannot encode ${value} as a 64-bit MessagePack integer`);
+    }
+    this.header(value >= 0n ? 0xcf : 0xd3);
+    this.reserve(8);
+    if (value >= 0n) this.view.setBigUint64(this.length, value);
+    else this.view.setBigInt64(this.length, value);
+    this.length += 8;
+  }
+
+  private string(value: string): void {
+    const bytes = this.encoder.encode(value);
+    this.sized(bytes.length, [0xa0, 0xd9, 0xda, 0xdb]);
+    this.raw(bytes);
+  }
+
+  /**
+   * Header of a string, binary, array or map of `size` items, using the
+   * smallest format available: fix (up to 31 or 15), 8, 16 or 32 bits.
+   */
+  private sized(
+    size: number,
+    [fix, size8, size16, size32]: Array<number | undefined>
+  ): void {
+    const fixLimit = fix === 0xa0 ? 32 : 16;
+    if (fix !== undefined && size < fixLimit) return this.header(fix | size);
+    if (size8 !== undefined && size <= 0xff) return this.header(size8, 1, size);
+    if (size <= 0xffff) return this.header(size16!, 2, size);
+    this.header(size32!, 4, size);
+  }
+
+  private header(type: number, bytes: 0 | 1 | 2 | 4 = 0, value = 0): void {
+    this.reserve(1 + bytes);
+    this.view.setUint8(this.length, type);
+    if (bytes === 1) this.view.setUint8(this.length + 1, value);
+    if (bytes === 2) this.view.setUint16(this.length + 1, value);
+    if (bytes === 4) this.view.setUint32(this.length + 1, value);
+    this.length += 1 + bytes;
+  }
+
+  private raw(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.bytes.length) return;
+    let size = this.bytes.length * 2;
+    while (size < this.length + count) size *= 2;
+    const bytes = new Uint8Array(size);
+    bytes.set(this.bytes.subarray(0, this.length));
+    this.bytes = bytes;
+    this.view = new DataView(bytes.buffer);
+  }
+}
+
+/**
+ * Serializers by media type: the built-in JSON, XML, CSV and MessagePack
+ * serializers, replaced or extended by `serializers`.
+ */
+export function createSerializerRegistry(
+  serializers: ResponseSerializer[] = []
+): Map<string, ResponseSerializer> {
+  const registry = new Map<string, ResponseSerializer>();
+  for (const serializer of [
+    new JsonSerializer(),
+    new XmlSerializer(),
+    new CsvSerializer(),
+    new MessagePackSerializer(),
+    ...serializers,
+  ]) {
+    registry.set(serializer.mediaType.toLowerCase(), serializer);
+  }
+  return registry;
+}
+
+function appendVary(headers: Record<string, any>, name: string): void {
+  const key = Object.keys(headers).find((header) => header.toLowerCase() === "vary");
+  const current = key ? String(headers[key]) : "";
+  if (current.split(",").some((value) => value.trim().toLowerCase() === name.toLowerCase())) {
+    return;
+  }
+  headers[key ?? "vary"] = current ? `${current}, ${name}` : name;
+}
+
+/**
+ * Wrap a route handler to encode its results in the media type the `Accept`
+ * header prefers.
+ *
+ * Routes with `produces` answer 406 when `Accept` matches none of their
+ * media types. Other routes choose among `defaults` (JSON only unless the
+ * application offers more) and keep the default JSON encoding when JSON is
+ * preferred or nothing matches. `Vary: Accept` is only sent by routes
+ * choosing among several media types.
+ */
+export function createContentNegotiationHandler(
+  handler: (ctx: any) => any,
+  options: {
+    serializers: Map<string, ResponseSerializer>;
+    produces?: string[];
+    defaults?: string[];
+  }
+): (ctx: any) => Promise<any> {
+  const { serializers, produces } = options;
+  const available = produces ?? options.defaults ?? ["application/json"];
+
+  return async (ctx: any) => {
+    // The raw request can be read first without disturbing Elysia's
+    // inference of which parts of the request the handler uses
+    const accept = ctx.request?.headers?.get("accept");
+    const mediaType = negotiateMediaType(accept, available);
+    if (!mediaType && produces) {
+      throw new NotAcceptableException(
+        `Cannot produce a response matching "Accept: ${accept}". Available: ${produces.join(", ")}`
+      );
+    }
+
+    const result = await handler(ctx);
+    ctx.set.headers ??= {};
+    if (available.length > 1) appendVary(ctx.set.headers, "Accept");
+    if (
+      !mediaType ||
+      !isSerializedBody(result) ||
+      (!produces && mediaType === "application/json")
+    ) {
+      return result;
+    }
+
+    const serializer = serializers.get(mediaType.toLowerCase())!;
+    ctx.set.headers["content-type"] =
+      serializer.contentType ?? serializer.mediaType;
+    return serializer.serialize(result);
+  };
+}
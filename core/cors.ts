@@ -1,10 +1,13 @@
 import { Elysia } from "elysia";
+import { Logger } from "./logger";
 
 /**
  * CORS Configuration Module for WynkJS Framework
  * Separated from factory.ts for better maintainability
  */
 
+const logger = new Logger("Cors");
+
 export interface CorsOptions {
   origin?:
     | string
@@ -36,7 +39,7 @@ export function setupCors(
     if (corsOptions === true) {
       // Simple CORS - allow all origins
       app.use(cors());
-      console.log("✅ CORS enabled (all origins allowed)");
+      logger.log("CORS enabled (all origins allowed)");
     } else if (typeof corsOptions === "object") {
       // Advanced CORS configuration
       const config: any = {};
@@ -91,13 +94,13 @@ export function setupCors(
       }
 
       app.use(cors(config));
-      console.log("✅ CORS enabled with custom configuration");
+      logger.log("CORS enabled with custom configuration");
     }
   } catch (_error) {
-    console.error("❌ Failed to enable CORS: @elysiajs/cors package not found");
-    console.error("   Install it with: bun add @elysiajs/cors");
-    console.error(
-      "   Or remove cors option from ApplicationOptions to skip CORS setup"
+    logger.error(
+      "Failed to enable CORS: @elysiajs/cors package not found. " +
+        "Install it with: bun add @elysiajs/cors, " +
+        "or remove the cors option from ApplicationOptions to skip CORS setup"
     );
     throw new Error(
       "CORS configuration failed: @elysiajs/cors package is required"
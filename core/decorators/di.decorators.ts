@@ -1,4 +1,63 @@
 import "reflect-metadata";
+import { injectable } from "tsyringe";
+
+/**
+ * Lifetime of a provider.
+ *
+ * - `DEFAULT` — one instance per container, created at startup
+ * - `REQUEST` — one instance per incoming request
+ * - `TRANSIENT` — a new instance for every consumer that injects it
+ */
+export enum Scope {
+  DEFAULT = "default",
+  REQUEST = "request",
+  TRANSIENT = "transient",
+}
+
+/**
+ * Options accepted by `@Injectable()`.
+ */
+export interface InjectableOptions {
+  /** Provider lifetime. Defaults to `Scope.DEFAULT` (one instance per container). */
+  scope?: Scope | "default" | "request" | "transient";
+}
+
+/**
+ * Injection token for the current request (the WynkJS `Request` wrapper).
+ * Injecting it makes the consumer request-scoped.
+ *
+ * @example
+ * @Injectable({ scope: Scope.REQUEST })
+ * class TenantService {
+ *   constructor(@Inject(REQUEST) private request: WynkRequest) {}
+ * }
+ */
+export const REQUEST = Symbol("REQUEST");
+
+/**
+ * Marks a class as injectable, optionally with a non-default scope.
+ *
+ * Request scope bubbles up: any provider or controller that depends on a
+ * request-scoped provider is itself created once per request.
+ *
+ * @example
+ * @Injectable({ scope: "request" })
+ * export class RequestContext {
+ *   readonly startedAt = Date.now();
+ * }
+ *
+ * @Injectable({ scope: Scope.TRANSIENT })
+ * export class Logger {}
+ */
+export function Injectable(options: InjectableOptions = {}): ClassDecorator {
+  return (target: any) => {
+    if (options.scope && options.scope !== Scope.DEFAULT) {
+      Reflect.defineMetadata("scope", options.scope, target);
+    }
+    injectable()(target);
+    return target;
+  };
+}
 
 /**
  * Marks a constructor parameter or class property as optional.
@@ -186,6 +186,13 @@ export class GoneException extends HttpException {
   }
 }
 
+/** Thrown when a precondition of the request, such as `If-Match`, does not hold (HTTP 412). */
+export class PreconditionFailedException extends HttpException {
+  constructor(message: string = "Precondition Failed") {
+    super(message, 412, "Precondition Failed");
+  }
+}
+
 /** Thrown when the request body exceeds the server's size limit (HTTP 413). */
 export class PayloadTooLargeException extends HttpException {
   constructor(message: string = "Payload Too Large") {
@@ -249,6 +256,37 @@ export class HttpVersionNotSupportedException extends HttpException {
   }
 }
 
+/**
+ * Failed checks of one uploaded file.
+ */
+export interface FileValidationError {
+  /** Position of the file among the validated files. */
+  index: number;
+  /** Name of the file as uploaded, when known. */
+  file?: string;
+  /** Form field of the file, when known. */
+  field?: string;
+  /** One entry per failed check. */
+  errors: Array<{ validator: string; message: string }>;
+}
+
+/**
+ * Thrown by `ParseFilePipe` when uploaded files fail validation (HTTP 400).
+ * The response lists the failed checks of every file under `files`.
+ */
+export class FileValidationException extends BadRequestException {
+  constructor(
+    message: string,
+    public readonly files: FileValidationError[] = []
+  ) {
+    super(message);
+  }
+
+  getResponse(): any {
+    return { ...super.getResponse(), files: this.files };
+  }
+}
+
 /**
  * Helper function to execute exception filters
  */
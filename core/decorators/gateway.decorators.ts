@@ -0,0 +1,126 @@
+import "reflect-metadata";
+
+/**
+ * WebSocket Gateway Decorators for WynkJS Framework
+ * Gateways are registered like controllers and served with Elysia's `ws`
+ */
+
+/**
+ * Options accepted by `@WebSocketGateway()` when passed as an object.
+ */
+export interface GatewayOptions {
+  /** Path clients connect to (e.g. `'/chat'`). Defaults to `'/ws'`. */
+  path?: string;
+}
+
+/**
+ * A message handler registered with `@SubscribeMessage()`.
+ */
+export interface GatewayMessageHandler {
+  /** Event name matched against the `event` property of incoming messages. */
+  event: string;
+  methodName: string | symbol;
+}
+
+/**
+ * Called once the gateway is registered, with its server.
+ */
+export interface OnGatewayInit {
+  afterInit(server: any): any;
+}
+
+/**
+ * Called when a client connects. Throw an exception to reject the
+ * connection: the client receives an `exception` event and is disconnected.
+ */
+export interface OnGatewayConnection {
+  handleConnection(client: any): any;
+}
+
+/**
+ * Called when a client disconnects, after it has left all its rooms.
+ */
+export interface OnGatewayDisconnect {
+  handleDisconnect(client: any, code?: number, reason?: string): any;
+}
+
+/**
+ * WebSocketGateway decorator - Defines a gateway served at a WebSocket path.
+ * Register it with `WynkFactory.create({ gateways })` or a module's `gateways`.
+ *
+ * Clients send JSON messages shaped `{ event, data }`; each one is dispatched
+ * to the method subscribed to `event`. Guards, pipes, interceptors and
+ * exception filters apply like on controllers, with `getType()` returning `'ws'`.
+ *
+ * @param pathOrOptions Path string or {@link GatewayOptions} object
+ * @example
+ * @WebSocketGateway('/chat')
+ * export class ChatGateway {
+ *   @SubscribeMessage('message')
+ *   onMessage(@MessageBody() text: string, @ConnectedSocket() client: WsClient) {
+ *     client.to('general').emit('message', text);
+ *   }
+ * }
+ */
+export function WebSocketGateway(
+  pathOrOptions?: string | GatewayOptions
+): ClassDecorator {
+  return (target: any) => {
+    const path =
+      typeof pathOrOptions === "string"
+        ? pathOrOptions
+        : pathOrOptions?.path || "/ws";
+
+    Reflect.defineMetadata("gateway:path", path, target);
+    if (!Reflect.hasOwnMetadata("gateway:messages", target)) {
+      Reflect.defineMetadata("gateway:messages", [], target);
+    }
+  };
+}
+
+/**
+ * SubscribeMessage decorator - Handles incoming messages with the given event name.
+ * A returned value is sent back to the client under the same event, unless it
+ * is already shaped `{ event, data }`.
+ *
+ * @param event Event name
+ * @example
+ * @SubscribeMessage('ping')
+ * ping() {
+ *   return { at: Date.now() }; // -> { event: 'ping', data: { at: ... } }
+ * }
+ */
+export function SubscribeMessage(event: string): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    const constructor = target.constructor;
+    const handlers: GatewayMessageHandler[] =
+      Reflect.getMetadata("gateway:messages", constructor) || [];
+    Reflect.defineMetadata(
+      "gateway:messages",
+      [...handlers, { event, methodName: propertyKey }],
+      constructor
+    );
+    return descriptor;
+  };
+}
+
+/**
+ * WebSocketServer decorator - Injects the gateway's `WsServer`, used to
+ * broadcast to every client or to rooms.
+ * @example
+ * @WebSocketServer()
+ * server: WsServer;
+ *
+ * notify(order: Order) {
+ *   this.server.to(`order:${order.id}`).emit('order', order);
+ * }
+ */
+export function WebSocketServer(): PropertyDecorator {
+  return (target: any, propertyKey: string | symbol) => {
+    Reflect.defineMetadata("gateway:server", propertyKey, target.constructor);
+  };
+}
@@ -21,10 +21,27 @@ export interface ExecutionContext {
   /** Returns the controller class that owns the current route handler. */
   getClass(): any;
   /**
-   * Returns the transport type of the current request.
-   * WynkJS currently always returns `'http'`.
+   * Returns the transport type of the current request: `'http'` for
+   * controllers, `'ws'` for WebSocket gateways.
    */
   getType(): 'http' | 'ws' | 'rpc';
+  /**
+   * Returns WebSocket-specific accessors. Only available when `getType()`
+   * returns `'ws'`.
+   */
+  switchToWs?(): WsArgumentsHost;
+}
+
+/**
+ * WebSocket accessors of an {@link ExecutionContext}.
+ */
+export interface WsArgumentsHost {
+  /** Returns the connected client (`WsClient`). */
+  getClient<T = any>(): T;
+  /** Returns the `data` of the incoming message. */
+  getData<T = any>(): T;
+  /** Returns the event name of the incoming message. */
+  getPattern(): string;
 }
 
 /**
@@ -89,7 +106,8 @@ export function UseGuards(
 export function createExecutionContext(
   ctx: any,
   handler: Function,
-  controllerClass: any
+  controllerClass: any,
+  type: 'http' | 'ws' | 'rpc' = 'http'
 ): ExecutionContext {
   return {
     getRequest: () => ctx.request || ctx,
@@ -97,17 +115,14 @@ export function createExecutionContext(
     getContext: () => ctx,
     getHandler: () => handler,
     getClass: () => controllerClass,
-    getType: () => 'http',
+    getType: () => type,
   };
 }
 
-/**
- * Guard instance cache for singleton pattern
- */
-const guardInstanceCache = new Map<Function, CanActivate>();
-
 /**
  * Helper function to execute guards
+ * The application resolves guard classes through its DI container before
+ * routes are registered; classes passed here directly are constructed per call
  */
 export async function executeGuards(
   guards: (Function | CanActivate)[],
@@ -117,12 +132,8 @@ export async function executeGuards(
     let result: boolean;
 
     if (typeof guard === "function") {
-      // Guard is a class, get or create singleton instance
-      let guardInstance = guardInstanceCache.get(guard);
-      if (!guardInstance) {
-        guardInstance = new (guard as any)() as CanActivate;
-        guardInstanceCache.set(guard, guardInstance);
-      }
+      // Guard is a class not resolved by an application
+      const guardInstance = new (guard as any)() as CanActivate;
 
       if (!guardInstance.canActivate) {
         throw new Error(
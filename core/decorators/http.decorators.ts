@@ -1,4 +1,6 @@
 import "reflect-metadata";
+import { VersionValue } from "../versioning";
+import type { EtagMode, EtagOptions } from "../response";
 
 /**
  * HTTP Method Decorators for WynkJS Framework
@@ -24,22 +26,51 @@ export interface RouteOptions {
   query?: any;
   /** TypeBox schema used to validate request headers. */
   headers?: any;
-  /** TypeBox schema describing the response shape (informational / Swagger). */
+  /**
+   * TypeBox schema of the response, or a map of schemas by status code
+   * (`{ 200: UserDTO, 404: ErrorDTO }`). Handler results are validated or
+   * stripped of undeclared properties (see `responseValidation`) and
+   * documented in OpenAPI.
+   */
   response?: any;
+  /**
+   * Keep the unparsed request body next to the parsed one, for `@RawBody()`
+   * and `req.rawBody`, e.g. to verify webhook signatures. Implied by
+   * `@RawBody()` parameters and `WebhookSignatureGuard`.
+   */
+  rawBody?: boolean;
+}
+
+/**
+ * Options accepted by `@Controller()` when passed as an object.
+ */
+export interface ControllerOptions {
+  /** Base path of the controller's routes. */
+  path?: string;
+  /**
+   * Only serve the controller's routes on matching hosts: a hostname with
+   * `:param` labels (read with `@HostParam()`), a RegExp (named groups become
+   * host params) or a list of either. Requests for other hosts fall through
+   * to controllers sharing the same paths, or get a 404.
+   */
+  host?: string | RegExp | Array<string | RegExp>;
 }
 
 /**
  * Controller decorator - Defines a controller with a base path
- * @param pathOrOptions Base path string or options object with path
+ * @param pathOrOptions Base path string or {@link ControllerOptions} object
  * @example
  * @Controller('/users')
  * export class UserController {}
  *
  * @Controller({ path: '/users' })
  * export class UserController {}
+ *
+ * @Controller({ host: ':account.example.com' })
+ * export class AccountController {}
  */
 export function Controller(
-  pathOrOptions?: string | { path?: string }
+  pathOrOptions?: string | ControllerOptions
 ): ClassDecorator {
   return (target: any) => {
     // Handle both string and object formats
@@ -50,6 +81,34 @@ export function Controller(
 
     Reflect.defineMetadata("basePath", path, target);
     Reflect.defineMetadata("routes", [], target);
+    if (typeof pathOrOptions === "object" && pathOrOptions?.host) {
+      Reflect.defineMetadata("host", pathOrOptions.host, target);
+    }
+  };
+}
+
+/**
+ * Version decorator - Sets the API version(s) served by a controller or route,
+ * used with the `versioning` application option. A method's version
+ * overrides its controller's.
+ * @param version Version string, `VERSION_NEUTRAL`, or a list of them
+ * @example
+ * @Version('2')
+ * @Controller('/users')
+ * export class UsersV2Controller {}
+ *
+ * @Get('/export')
+ * @Version(['1', '2'])
+ * export() {}
+ */
+export function Version(version: VersionValue): MethodDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol, descriptor?: any) => {
+    if (propertyKey !== undefined) {
+      Reflect.defineMetadata("version", version, target, propertyKey);
+      return descriptor;
+    }
+    Reflect.defineMetadata("version", version, target);
+    return target;
   };
 }
 
@@ -251,6 +310,82 @@ export function Header(name: string, value: string): MethodDecorator {
   };
 }
 
+/**
+ * Declare the media types a route responds with, in order of preference.
+ * The `Accept` header picks one among them, and requests accepting none
+ * fail with 406 Not Acceptable. Each type needs a registered serializer.
+ * @param mediaTypes Media types, e.g. 'application/json', 'text/csv'
+ * @example
+ * @Get('/transactions')
+ * @Produces('application/json', 'text/csv')
+ * async findAll() {}
+ */
+export function Produces(...mediaTypes: string[]): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata("route:produces", mediaTypes, target, propertyKey);
+    return descriptor;
+  };
+}
+
+/**
+ * Tag the route's responses with an `ETag` hashed from the serialized body,
+ * set by the handler with `Response.etag()` or given by `current`, and
+ * answer GET requests whose `If-None-Match` still matches with 304 Not
+ * Modified. On PUT, PATCH and DELETE routes, requests whose `If-Match`
+ * differs from the `current` tag fail with 412 before the handler runs;
+ * those routes need `current` and cannot use weak tags.
+ * @param options Weak (`W/"..."`, the default) or strong hashes, or
+ * `EtagOptions`; `false` opts the route out of the `etag` application option
+ * @example
+ * const orderTag = function (this: OrderController, ctx: any) {
+ *   return this.orders.version(ctx.params.id);
+ * };
+ *
+ * @Get('/orders/:id')
+ * @Etag({ current: orderTag })
+ * async findOne() {}
+ *
+ * @Put('/orders/:id')
+ * @Etag({ current: orderTag })
+ * async update() {}
+ */
+export function Etag(
+  options: EtagMode | EtagOptions | false = "weak"
+): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata("route:etag", options, target, propertyKey);
+    return descriptor;
+  };
+}
+
+/**
+ * Restrict the request content types a route accepts. Other requests with a
+ * body fail with 415 Unsupported Media Type before being parsed.
+ * @param mediaTypes Media types or ranges, e.g. 'application/json', 'text/*'
+ * @example
+ * @Post('/transactions/import')
+ * @Consumes('text/csv', 'application/json')
+ * async import(@Body() rows: TransactionRow[]) {}
+ */
+export function Consumes(...mediaTypes: string[]): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata("route:consumes", mediaTypes, target, propertyKey);
+    return descriptor;
+  };
+}
+
 /**
  * Redirect to a URL
  * @param url URL to redirect to
@@ -280,27 +415,48 @@ export function Redirect(
 }
 
 /**
- * Server-Sent Events (SSE) decorator — registers a GET route and marks it as
- * an SSE endpoint via metadata. Note: the caller is responsible for setting
- * `Content-Type: text/event-stream` and streaming the response appropriately;
- * WynkJS does not configure this automatically at this time.
+ * Options accepted by `@Sse()` when passed as an object.
+ */
+export interface SseRouteOptions extends RouteOptions {
+  /**
+   * Interval in milliseconds of `: keep-alive` comments, or `false` to disable
+   * them. Defaults to 15 seconds.
+   */
+  keepAlive?: number | false;
+}
+
+/**
+ * Server-Sent Events (SSE) decorator — registers a GET route whose handler
+ * returns an async iterable (e.g. an async generator) of
+ * `{ data, event?, id?, retry? }` messages. The messages are streamed as
+ * `text/event-stream`; non-string `data` is sent as JSON. Guards and
+ * interceptors run before streaming starts, and the iterator is closed when
+ * the client disconnects.
  *
- * @param pathOrOptions Route path string or {@link RouteOptions} object.
+ * @param pathOrOptions Route path string or {@link SseRouteOptions} object.
  *
  * @example
  * ```typescript
  * @Sse('/events')
- * streamEvents() {
- *   // Set Content-Type header and return a streaming response manually
+ * async *streamEvents(@LastEventId() lastEventId?: string) {
+ *   let id = Number(lastEventId ?? 0);
+ *   try {
+ *     while (true) {
+ *       yield { id: ++id, event: 'tick', data: { at: Date.now() } };
+ *       await Bun.sleep(1000);
+ *     }
+ *   } finally {
+ *     // Runs when the client disconnects
+ *   }
  * }
  * ```
  */
-export function Sse(pathOrOptions?: string | RouteOptions): MethodDecorator {
+export function Sse(pathOrOptions?: string | SseRouteOptions): MethodDecorator {
   const path =
     typeof pathOrOptions === "string"
       ? pathOrOptions
       : pathOrOptions?.path || "";
-  const options: RouteOptions & { sse?: boolean } =
+  const options: SseRouteOptions & { sse?: boolean } =
     typeof pathOrOptions === "object" && pathOrOptions !== null
       ? { ...pathOrOptions, sse: true }
       : { sse: true };
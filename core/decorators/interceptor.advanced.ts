@@ -1,6 +1,7 @@
 import "reflect-metadata";
 import { WynkInterceptor } from "./interceptor.decorators";
 import { InterceptorContext } from "../interfaces/interceptor.interface";
+import { Logger } from "../logger";
 
 /**
  * Advanced Interceptors for WynkJS Framework
@@ -66,6 +67,8 @@ export class ResponseInterceptor implements WynkInterceptor {
  * async getData() {}
  */
 export class ErrorHandlingInterceptor implements WynkInterceptor {
+  private readonly logger = new Logger("ErrorHandlingInterceptor");
+
   async intercept(
     context: InterceptorContext,
     next: () => Promise<any>
@@ -73,10 +76,8 @@ export class ErrorHandlingInterceptor implements WynkInterceptor {
     try {
       return await next();
     } catch (error: any) {
-      console.error(
-        `❌ Error in ${context.getRequest().method} ${
-          context.getRequest().url
-        }:`,
+      this.logger.error(
+        `Error in ${context.getRequest().method} ${context.getRequest().url}`,
         error
       );
 
@@ -99,6 +100,8 @@ export class ErrorHandlingInterceptor implements WynkInterceptor {
  * async getLargeData() {}
  */
 export class CompressionInterceptor implements WynkInterceptor {
+  private readonly logger = new Logger("CompressionInterceptor");
+
   constructor(private threshold: number = 1024) {}
 
   async intercept(
@@ -110,8 +113,8 @@ export class CompressionInterceptor implements WynkInterceptor {
 
     if (dataSize > this.threshold) {
       // In a real implementation, you'd compress the data here
-      console.log(
-        `📦 Response size: ${dataSize} bytes (compression recommended)`
+      this.logger.log(
+        `Response size: ${dataSize} bytes (compression recommended)`
       );
     }
 
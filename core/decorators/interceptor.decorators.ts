@@ -1,5 +1,6 @@
 import "reflect-metadata";
 import { InterceptorContext } from "../interfaces/interceptor.interface";
+import { Logger } from "../logger";
 import { container } from "tsyringe";
 
 // Alias for backward compatibility
@@ -264,6 +265,8 @@ export class CacheInterceptor implements WynkInterceptor {
  * export class AppController {}
  */
 export class LoggingInterceptor implements WynkInterceptor {
+  private readonly logger = new Logger("LoggingInterceptor");
+
   async intercept(
     context: InterceptorContext,
     next: () => Promise<any>,
@@ -271,19 +274,21 @@ export class LoggingInterceptor implements WynkInterceptor {
     const request = context.getRequest();
     const startTime = Date.now();
 
-    console.log(`📥 ${request.method} ${request.url} - Started`);
+    this.logger.log(`${request.method} ${request.url} - Started`);
 
     try {
       const data = await next();
       const duration = Date.now() - startTime;
-      console.log(
-        `📤 ${request.method} ${request.url} - Completed in ${duration}ms`,
+      this.logger.log(
+        `${request.method} ${request.url} - Completed in ${duration}ms`,
+        { duration },
       );
       return data;
     } catch (error) {
       const duration = Date.now() - startTime;
-      console.log(
-        `❌ ${request.method} ${request.url} - Failed in ${duration}ms`,
+      this.logger.warn(
+        `${request.method} ${request.url} - Failed in ${duration}ms`,
+        { duration },
       );
       throw error;
     }
@@ -0,0 +1,223 @@
+import "reflect-metadata";
+
+/**
+ * OpenAPI Decorators for WynkJS Framework
+ * Document summaries, responses, tags and security next to the route
+ * Read by `app.getOpenApiDocument()` and passed to Elysia as route `detail`
+ */
+
+/**
+ * Options for `@ApiOperation()`.
+ */
+export interface ApiOperationOptions {
+  /** Short summary shown next to the route. */
+  summary?: string;
+  /** Longer description (Markdown). */
+  description?: string;
+  /** Overrides the generated `Controller_method` operation ID. */
+  operationId?: string;
+  /** Marks the operation as deprecated. */
+  deprecated?: boolean;
+}
+
+/**
+ * Options for `@ApiResponse()`.
+ */
+export interface ApiResponseOptions {
+  /** HTTP status code, or `"default"` for any undocumented status. */
+  status: number | "default";
+  /** Response description (defaults to the status text, e.g. `"Not Found"`). */
+  description?: string;
+  /** TypeBox schema of the JSON body. */
+  schema?: any;
+  /** Example body. */
+  example?: any;
+  /** Named examples, as `{ name: { summary?, value } }`. */
+  examples?: Record<string, { summary?: string; description?: string; value: any }>;
+  /** Response headers, as OpenAPI header objects keyed by header name. */
+  headers?: Record<string, any>;
+}
+
+/**
+ * OpenAPI metadata of one route, merged from its controller and method.
+ */
+export interface ApiRouteMetadata {
+  operation: ApiOperationOptions;
+  /** Controller responses first, then method responses. */
+  responses: ApiResponseOptions[];
+  /** Tags from `@ApiTags()`; empty when the default module/controller tag applies. */
+  tags: string[];
+  /** Security requirements from `@ApiBearerAuth()` / `@ApiSecurity()`. */
+  security: Record<string, string[]>[];
+  /** Scheme names declared with `@ApiBearerAuth()`. */
+  bearerSchemes: string[];
+  /** `true` when the route is hidden with `@ApiExcludeEndpoint()`. */
+  excluded: boolean;
+}
+
+function appendMetadata(
+  key: string,
+  values: any[],
+  target: any,
+  propertyKey?: string | symbol
+): void {
+  if (propertyKey !== undefined) {
+    const existing = Reflect.getMetadata(key, target, propertyKey) || [];
+    Reflect.defineMetadata(key, [...existing, ...values], target, propertyKey);
+  } else {
+    const existing = Reflect.getMetadata(key, target) || [];
+    Reflect.defineMetadata(key, [...existing, ...values], target);
+  }
+}
+
+/**
+ * Describe a route with a summary, description and operation ID.
+ *
+ * @example
+ * @Get("/:id")
+ * @ApiOperation({ summary: "Find a user", description: "Looks up a user by ID." })
+ * findOne(@Param("id") id: string) {}
+ */
+export function ApiOperation(options: ApiOperationOptions): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    const existing =
+      Reflect.getMetadata("openapi:operation", target, propertyKey) || {};
+    Reflect.defineMetadata(
+      "openapi:operation",
+      { ...existing, ...options },
+      target,
+      propertyKey
+    );
+    return descriptor;
+  };
+}
+
+/**
+ * Document a response. Apply once per status code; several responses with the
+ * same status are documented as `oneOf` their schemas. On a controller, the
+ * response is documented for every route (e.g. a shared `401`).
+ *
+ * @example
+ * @Get("/:id")
+ * @ApiResponse({ status: 200, schema: UserDTO, example: { id: "1", email: "a@b.co" } })
+ * @ApiResponse({ status: 404, description: "User not found", schema: ErrorDTO })
+ * findOne(@Param("id") id: string) {}
+ */
+export function ApiResponse(
+  options: ApiResponseOptions
+): MethodDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol, descriptor?: any) => {
+    appendMetadata("openapi:responses", [options], target, propertyKey);
+    return descriptor ?? target;
+  };
+}
+
+/**
+ * Group routes under tags. Replaces the default tag derived from the module
+ * or controller name; method tags are added to controller tags.
+ *
+ * @example
+ * @ApiTags("Users", "Admin")
+ * @Controller("/admin/users")
+ * export class AdminUserController {}
+ */
+export function ApiTags(...tags: string[]): MethodDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol, descriptor?: any) => {
+    appendMetadata("openapi:tags", tags, target, propertyKey);
+    return descriptor ?? target;
+  };
+}
+
+/**
+ * Require a security scheme from `OpenApiOptions.securitySchemes`. Explicit
+ * requirements replace the ones derived from guards.
+ *
+ * @param name - Security scheme name
+ * @param scopes - OAuth2 / OpenID Connect scopes
+ *
+ * @example
+ * @ApiSecurity("apiKey")
+ * @Controller("/reports")
+ * export class ReportController {}
+ */
+export function ApiSecurity(
+  name: string,
+  scopes: string[] = []
+): MethodDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol, descriptor?: any) => {
+    appendMetadata("openapi:security", [{ [name]: scopes }], target, propertyKey);
+    return descriptor ?? target;
+  };
+}
+
+/**
+ * Require HTTP bearer authentication. The scheme is added to the document as
+ * a JWT bearer scheme when `securitySchemes` does not define it.
+ *
+ * @param name - Security scheme name (default `"bearer"`)
+ *
+ * @example
+ * @ApiBearerAuth()
+ * @UseGuards(JwtAuthGuard)
+ * @Controller("/me")
+ * export class ProfileController {}
+ */
+export function ApiBearerAuth(
+  name: string = "bearer"
+): MethodDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol, descriptor?: any) => {
+    ApiSecurity(name)(target, propertyKey as any, descriptor);
+    appendMetadata("openapi:bearer", [name], target, propertyKey);
+    return descriptor ?? target;
+  };
+}
+
+/**
+ * Leave a route out of the OpenAPI document (and mark it hidden for Elysia
+ * documentation plugins). The route itself keeps working.
+ *
+ * @example
+ * @Get("/internal/metrics")
+ * @ApiExcludeEndpoint()
+ * metrics() {}
+ */
+export function ApiExcludeEndpoint(): MethodDecorator {
+  return (
+    target: any,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor
+  ) => {
+    Reflect.defineMetadata("openapi:exclude", true, target, propertyKey);
+    return descriptor;
+  };
+}
+
+/**
+ * Read the OpenAPI metadata of a route, merging controller and method decorators.
+ *
+ * @param controller - Controller class
+ * @param methodName - Route handler name
+ */
+export function getApiMetadata(
+  controller: any,
+  methodName: string | symbol
+): ApiRouteMetadata {
+  const prototype = controller.prototype;
+  const read = (key: string): any[] => [
+    ...(Reflect.getMetadata(key, controller) || []),
+    ...(Reflect.getMetadata(key, prototype, methodName) || []),
+  ];
+
+  return {
+    operation: Reflect.getMetadata("openapi:operation", prototype, methodName) || {},
+    responses: read("openapi:responses"),
+    tags: read("openapi:tags"),
+    security: read("openapi:security"),
+    bearerSchemes: read("openapi:bearer"),
+    excluded: Reflect.getMetadata("openapi:exclude", prototype, methodName) === true,
+  };
+}
@@ -18,7 +18,10 @@ import "reflect-metadata";
  * - `user`     — user object attached to context by a guard
  * - `file`     — single uploaded file
  * - `files`    — multiple uploaded files
+ * - `rawBody`  — unparsed request body, as a `Uint8Array`
  * - `custom`   — value produced by a `createParamDecorator` factory function
+ * - `message`  — payload of a WebSocket message (gateways)
+ * - `socket`   — connected WebSocket client (gateways)
  */
 export type ParamType =
   | "body"
@@ -31,7 +34,10 @@ export type ParamType =
   | "user"
   | "file"
   | "files"
-  | "custom";
+  | "rawBody"
+  | "custom"
+  | "message"
+  | "socket";
 
 /**
  * Internal metadata stored for each decorated parameter in a controller method.
@@ -135,6 +141,17 @@ export function Headers(property?: string): ParameterDecorator {
   return createParamDecorator("headers", property);
 }
 
+/**
+ * @LastEventId decorator - Extracts the `Last-Event-ID` header an SSE client
+ * sends when it reconnects, so an `@Sse()` stream can resume after that event
+ * @example
+ * @Sse('/events')
+ * async *events(@LastEventId() lastEventId?: string) {}
+ */
+export function LastEventId(): ParameterDecorator {
+  return createParamDecorator("headers", "last-event-id");
+}
+
 /**
  * @Req decorator - Injects full request object
  * @example
@@ -192,22 +209,40 @@ export function User(property?: string): ParameterDecorator {
 
 /**
  * @UploadedFile decorator - Extracts uploaded file
+ * @param pipes Optional validation/transformation pipes
  * @example
  * @Post('/upload')
  * uploadFile(@UploadedFile() file: File) {}
+ *
+ * @Post('/upload')
+ * uploadFile(@UploadedFile(new ParseFilePipe({ maxSize: 5_000_000 })) file: File) {}
  */
-export function UploadedFile(): ParameterDecorator {
-  return createParamDecorator("file");
+export function UploadedFile(...pipes: any[]): ParameterDecorator {
+  return createParamDecorator("file", undefined, pipes);
 }
 
 /**
  * @UploadedFiles decorator - Extracts multiple uploaded files
+ * @param pipes Optional validation/transformation pipes
  * @example
  * @Post('/upload-multiple')
  * uploadFiles(@UploadedFiles() files: File[]) {}
  */
-export function UploadedFiles(): ParameterDecorator {
-  return createParamDecorator("files");
+export function UploadedFiles(...pipes: any[]): ParameterDecorator {
+  return createParamDecorator("files", undefined, pipes);
+}
+
+/**
+ * @RawBody decorator - Extracts the unparsed request body as a `Uint8Array`,
+ * e.g. to verify a webhook signature. The parsed body stays available
+ * through `@Body()`.
+ * @param pipes Optional validation/transformation pipes
+ * @example
+ * @Post('/webhooks/stripe')
+ * handle(@RawBody() raw: Uint8Array, @Body() event: StripeEvent) {}
+ */
+export function RawBody(...pipes: any[]): ParameterDecorator {
+  return createParamDecorator("rawBody", undefined, pipes);
 }
 
 /**
@@ -298,3 +333,30 @@ export function HostParam(property: string): ParameterDecorator {
     Reflect.defineMetadata("params", existingParams, target, propertyKey);
   };
 }
+
+/**
+ * @MessageBody decorator - Extracts the `data` of a WebSocket message
+ * @param property Optional property name to extract from the data
+ * @param pipes Optional validation/transformation pipes
+ * @example
+ * @SubscribeMessage('join')
+ * join(@MessageBody('room') room: string) {}
+ */
+export function MessageBody(
+  property?: string,
+  ...pipes: any[]
+): ParameterDecorator {
+  return createParamDecorator("message", property, pipes);
+}
+
+/**
+ * @ConnectedSocket decorator - Injects the `WsClient` that sent the message
+ * @example
+ * @SubscribeMessage('join')
+ * join(@MessageBody('room') room: string, @ConnectedSocket() client: WsClient) {
+ *   client.join(room);
+ * }
+ */
+export function ConnectedSocket(): ParameterDecorator {
+  return createParamDecorator("socket");
+}
@@ -1,4 +1,13 @@
 import "reflect-metadata";
+import {
+  FileValidationError,
+  FileValidationException,
+} from "./exception.decorators";
+import {
+  FileValidator,
+  SanitizeFilenameOptions,
+  sanitizeFilename,
+} from "../file-validators";
 
 /**
  * Pipe Decorators and Interfaces for WynkJS Framework
@@ -542,68 +551,166 @@ export class DetailedErrorPipe extends ValidationPipe {
 }
 
 /**
- * Built-in pipe that validates uploaded files by MIME type and/or file size.
+ * Options of `ParseFilePipe`.
+ */
+export interface ParseFilePipeOptions {
+  /**
+   * Expected MIME type (e.g. `'image/jpeg'`), compared with the type the
+   * client sent. Prefer `FileTypeValidator`, which checks the contents.
+   */
+  fileType?: string;
+  /**
+   * Maximum allowed file size in **bytes**.
+   */
+  maxSize?: number;
+  /** Validators every file must pass, e.g. `FileTypeValidator`. */
+  validators?: FileValidator[];
+  /** Reject requests without a file. Defaults to `true`. */
+  fileIsRequired?: boolean;
+  /**
+   * Replace each file's name with `sanitizeFilename(name)` once validation
+   * passes (`originalname` and `name`; `File` objects are copied).
+   */
+  sanitizeFilename?: boolean | SanitizeFilenameOptions;
+}
+
+function isFileLike(file: any): boolean {
+  return (
+    !!file &&
+    typeof file === "object" &&
+    typeof file.size === "number" &&
+    typeof file.type === "string"
+  );
+}
+
+/**
+ * Built-in pipe that validates uploaded files: a single file, an array, or
+ * the object of arrays given by `FileFieldsInterceptor()`.
  *
- * Throws a `BadRequestException`-style error when a file's type or size
- * does not satisfy the configured constraints.
+ * Every file is checked and failures are thrown together as a
+ * `FileValidationException` (400) listing the failed checks per file.
  *
  * @example
  * ```typescript
  * @Post('/upload')
- * uploadFile(@UploadedFile(new ParseFilePipe({ fileType: 'image/jpeg', maxSize: 5_000_000 })) file: File) {}
+ * uploadFile(@UploadedFile(new ParseFilePipe({
+ *   validators: [
+ *     new MaxFileSizeValidator({ maxSize: 5_000_000 }),
+ *     new FileTypeValidator({ fileType: ['image/png', 'image/jpeg'] }),
+ *   ],
+ *   sanitizeFilename: true,
+ * })) file: StoredFile) {}
  * ```
  */
 export class ParseFilePipe implements WynkPipeTransform<File | File[], File | File[]> {
-  constructor(
-    private readonly options: {
-      /**
-       * Expected MIME type (e.g. `'image/jpeg'`).
-       * Throws if the uploaded file's `type` does not match.
-       */
-      fileType?: string;
-      /**
-       * Maximum allowed file size in **bytes**.
-       * Throws if the uploaded file's `size` exceeds this value.
-       */
-      maxSize?: number;
-    } = {}
-  ) {}
+  constructor(private readonly options: ParseFilePipeOptions = {}) {}
 
   /**
    * Validates the uploaded file(s) against the configured constraints.
    *
-   * @param value - The uploaded `File` or `File[]` from the request.
+   * @param value - The uploaded file(s) from the request.
    * @param _metadata - Argument metadata (unused but required by interface).
-   * @returns The original value when validation passes.
-   * @throws `Error` when no file is provided, the file type is wrong, or the file exceeds the max size.
+   * @returns The value, with sanitized file names when `sanitizeFilename` is set.
+   * @throws `FileValidationException` when no file is provided or a file fails a check.
    */
   async transform(value: any, _metadata?: ArgumentMetadata): Promise<any> {
-    if (value === undefined || value === null) {
-      throw new Error("Validation failed: No file uploaded");
-    }
-
-    const files: any[] = Array.isArray(value) ? value : [value];
+    const grouped =
+      !!value &&
+      typeof value === "object" &&
+      !Array.isArray(value) &&
+      !isFileLike(value) &&
+      Object.values(value).every(Array.isArray);
+    const files: any[] =
+      value === undefined || value === null
+        ? []
+        : grouped
+          ? Object.values(value).flat()
+          : Array.isArray(value)
+            ? value
+            : [value];
 
     if (files.length === 0) {
-      throw new Error("Validation failed: No file uploaded");
+      if (this.options.fileIsRequired === false) return value;
+      throw new FileValidationException("Validation failed: No file uploaded");
     }
 
-    for (const file of files) {
-      if (!file || typeof file !== "object" || typeof file.size !== "number" || typeof file.type !== "string") {
-        throw new Error("Validation failed: Uploaded value is not a file");
-      }
-      if (this.options.fileType && file.type !== this.options.fileType) {
-        throw new Error(
-          `Validation failed: File type "${file.type}" is not allowed. Expected "${this.options.fileType}"`
-        );
+    const failures: FileValidationError[] = [];
+    for (const [index, file] of files.entries()) {
+      const errors = await this.validateFile(file);
+      if (errors.length > 0) {
+        failures.push({
+          index,
+          file: file?.originalname ?? file?.name,
+          field: file?.fieldname,
+          errors,
+        });
       }
-      if (this.options.maxSize !== undefined && file.size > this.options.maxSize) {
-        throw new Error(
-          `Validation failed: File size ${file.size} bytes exceeds the maximum of ${this.options.maxSize} bytes`
-        );
+    }
+    if (failures.length > 0) {
+      throw new FileValidationException(
+        `Validation failed: ${failures[0].errors[0].message}`,
+        failures
+      );
+    }
+
+    if (!this.options.sanitizeFilename) return value;
+    const sanitize = (file: any) => this.sanitize(file);
+    if (grouped) {
+      return Object.fromEntries(
+        Object.entries(value).map(([field, list]) => [
+          field,
+          (list as any[]).map(sanitize),
+        ])
+      );
+    }
+    return Array.isArray(value) ? value.map(sanitize) : sanitize(value);
+  }
+
+  private async validateFile(
+    file: any
+  ): Promise<Array<{ validator: string; message: string }>> {
+    if (!isFileLike(file)) {
+      return [{ validator: "ParseFilePipe", message: "Uploaded value is not a file" }];
+    }
+
+    const errors: Array<{ validator: string; message: string }> = [];
+    if (this.options.fileType && file.type !== this.options.fileType) {
+      errors.push({
+        validator: "fileType",
+        message: `File type "${file.type}" is not allowed. Expected "${this.options.fileType}"`,
+      });
+    }
+    if (this.options.maxSize !== undefined && file.size > this.options.maxSize) {
+      errors.push({
+        validator: "maxSize",
+        message: `File size ${file.size} bytes exceeds the maximum of ${this.options.maxSize} bytes`,
+      });
+    }
+    for (const validator of this.options.validators ?? []) {
+      if (!(await validator.isValid(file))) {
+        errors.push({
+          validator: validator.constructor.name,
+          message: validator.buildErrorMessage(file),
+        });
       }
     }
+    return errors;
+  }
 
-    return value;
+  private sanitize(file: any): any {
+    const options =
+      typeof this.options.sanitizeFilename === "object"
+        ? this.options.sanitizeFilename
+        : {};
+    const name = sanitizeFilename(file.originalname ?? file.name, options);
+    if (file instanceof File) {
+      return new File([file], name, {
+        type: file.type,
+        lastModified: file.lastModified,
+      });
+    }
+    file.originalname = name;
+    file.name = name;
+    return file;
   }
 }
@@ -0,0 +1,332 @@
+import "reflect-metadata";
+import { ExecutionContext } from "./guard.decorators";
+import { WynkInterceptor } from "./interceptor.decorators";
+import { SetMetadata } from "./metadata.decorators";
+import { StreamableFile } from "../streamable-file";
+
+/**
+ * Serialization Decorators for WynkJS Framework
+ * Control which properties of a class reach the response with
+ * @Exclude, @Expose and @Transform, applied by ClassSerializerInterceptor
+ */
+
+/**
+ * Options of `@Expose()`.
+ */
+export interface ExposeOptions {
+  /** Only serialize the property when one of these groups is active. */
+  groups?: string[];
+  /** Name of the property in the output. */
+  name?: string;
+}
+
+/**
+ * Arguments of a `@Transform()` function.
+ */
+export interface TransformFnParams {
+  /** Current value of the property. */
+  value: any;
+  /** Name of the property. */
+  key: string;
+  /** The object being serialized. */
+  obj: any;
+  /** Active serialization groups. */
+  groups: string[];
+}
+
+/**
+ * Options of `@Transform()`.
+ */
+export interface TransformOptions {
+  /** Only transform when one of these groups is active. */
+  groups?: string[];
+}
+
+/**
+ * Options of `ClassSerializerInterceptor` and `@SerializeOptions()`.
+ */
+export interface ClassSerializerOptions {
+  /** Active groups, enabling `@Expose({ groups })` properties. */
+  groups?: string[];
+  /**
+   * `"exposeAll"` (default) serializes every property not excluded;
+   * `"excludeAll"` only the `@Expose()` ones, as with `@Exclude()` on the class.
+   */
+  strategy?: "exposeAll" | "excludeAll";
+}
+
+interface PropertyRules {
+  exclude?: boolean;
+  expose?: ExposeOptions;
+  transforms: Array<{
+    fn: (params: TransformFnParams) => any;
+    options: TransformOptions;
+  }>;
+}
+
+const PROPERTIES_KEY = "serializer:properties";
+const EXCLUDE_ALL_KEY = "serializer:excludeAll";
+const SERIALIZE_OPTIONS_KEY = "serializer:options";
+
+/**
+ * Rules of a class, including those inherited from its parents.
+ */
+function getPropertyRules(target: Function): Map<string, PropertyRules> {
+  return Reflect.getMetadata(PROPERTIES_KEY, target) ?? new Map();
+}
+
+function updatePropertyRules(
+  prototype: any,
+  key: string | symbol,
+  update: (rules: PropertyRules) => void
+): void {
+  const target = prototype.constructor;
+  // Copy inherited rules, so parents are not affected by their children
+  const all = new Map(getPropertyRules(target));
+  const name = String(key);
+  const rules: PropertyRules = {
+    ...(all.get(name) ?? {}),
+    transforms: [...(all.get(name)?.transforms ?? [])],
+  };
+  update(rules);
+  all.set(name, rules);
+  Reflect.defineMetadata(PROPERTIES_KEY, all, target);
+}
+
+/**
+ * @Exclude decorator - Never serialize a property. On a class, serialize
+ * only its `@Expose()` properties.
+ * @example
+ * class User {
+ *   id: number;
+ *
+ *   @Exclude()
+ *   passwordHash: string;
+ * }
+ */
+export function Exclude(): PropertyDecorator & ClassDecorator {
+  return (target: any, propertyKey?: string | symbol) => {
+    if (propertyKey === undefined) {
+      Reflect.defineMetadata(EXCLUDE_ALL_KEY, true, target);
+      return;
+    }
+    updatePropertyRules(target, propertyKey, (rules) => {
+      rules.exclude = true;
+    });
+  };
+}
+
+/**
+ * @Expose decorator - Serialize a property (or getter), optionally only for
+ * some groups or under another name.
+ * @example
+ * class User {
+ *   @Expose({ groups: ["admin"] })
+ *   email: string;
+ *
+ *   @Expose({ name: "name" })
+ *   get fullName() {
+ *     return `${this.firstName} ${this.lastName}`;
+ *   }
+ * }
+ */
+export function Expose(options: ExposeOptions = {}): PropertyDecorator {
+  return (target: any, propertyKey: string | symbol) => {
+    updatePropertyRules(target, propertyKey, (rules) => {
+      rules.expose = options;
+    });
+  };
+}
+
+/**
+ * @Transform decorator - Replace a property's value when serializing.
+ * @example
+ * class User {
+ *   @Transform(({ value }) => value.toISOString().slice(0, 10))
+ *   birthday: Date;
+ * }
+ */
+export function Transform(
+  fn: (params: TransformFnParams) => any,
+  options: TransformOptions = {}
+): PropertyDecorator {
+  return (target: any, propertyKey: string | symbol) => {
+    updatePropertyRules(target, propertyKey, (rules) => {
+      rules.transforms.push({ fn, options });
+    });
+  };
+}
+
+/**
+ * @SerializeOptions decorator - Serialization groups and strategy of a route
+ * or controller, used by `ClassSerializerInterceptor`.
+ * @example
+ * @Get('/:id')
+ * @SerializeOptions({ groups: ['admin'] })
+ * findOne() {}
+ */
+export function SerializeOptions(
+  options: ClassSerializerOptions
+): MethodDecorator & ClassDecorator {
+  return SetMetadata(SERIALIZE_OPTIONS_KEY, options);
+}
+
+function inGroups(groups: string[] | undefined, active: string[]): boolean {
+  return !groups || groups.some((group) => active.includes(group));
+}
+
+// Values JSON serializes on its own
+function isOpaque(value: any): boolean {
+  return (
+    value instanceof Date ||
+    value instanceof RegExp ||
+    ArrayBuffer.isView(value) ||
+    value instanceof ArrayBuffer ||
+    value instanceof Response ||
+    value instanceof StreamableFile ||
+    value instanceof Blob ||
+    value instanceof ReadableStream ||
+    typeof value?.[Symbol.asyncIterator] === "function"
+  );
+}
+
+function serializeValue(
+  value: any,
+  options: Required<ClassSerializerOptions>,
+  ancestors: Set<object>
+): any {
+  if (value === null || typeof value !== "object" || isOpaque(value)) {
+    return value;
+  }
+  // Drop references back to an ancestor, which JSON cannot represent
+  if (ancestors.has(value)) return undefined;
+  ancestors.add(value);
+  try {
+    if (Array.isArray(value) || value instanceof Set) {
+      return Array.from(value, (item) => serializeValue(item, options, ancestors));
+    }
+    if (value instanceof Map) {
+      return Object.fromEntries(
+        Array.from(value, ([key, item]) => [
+          String(key),
+          serializeValue(item, options, ancestors),
+        ])
+      );
+    }
+
+    const prototype = Object.getPrototypeOf(value);
+    const target = prototype?.constructor;
+    const isInstance = !!prototype && prototype !== Object.prototype;
+    const rules = isInstance
+      ? getPropertyRules(target)
+      : new Map<string, PropertyRules>();
+    if (rules.size === 0 && typeof value.toJSON === "function") {
+      return value;
+    }
+
+    // Plain objects (e.g. `{ data: users }`) keep all their properties
+    const excludeAll =
+      isInstance &&
+      (options.strategy === "excludeAll" ||
+        Reflect.getMetadata(EXCLUDE_ALL_KEY, target) === true);
+    // Exposed getters live on the prototype
+    const keys = new Set(Object.keys(value));
+    for (const [key, rule] of rules) {
+      if (rule.expose && key in value) keys.add(key);
+    }
+
+    const output: Record<string, any> = {};
+    for (const key of keys) {
+      const rule = rules.get(key);
+      if (rule?.exclude) continue;
+      if (excludeAll && !rule?.expose) continue;
+      if (rule?.expose && !inGroups(rule.expose.groups, options.groups)) {
+        continue;
+      }
+
+      let property = value[key];
+      for (const { fn, options: transformOptions } of rule?.transforms ?? []) {
+        if (inGroups(transformOptions.groups, options.groups)) {
+          property = fn({ value: property, key, obj: value, groups: options.groups });
+        }
+      }
+      output[rule?.expose?.name ?? key] = serializeValue(
+        property,
+        options,
+        ancestors
+      );
+    }
+    return output;
+  } finally {
+    ancestors.delete(value);
+  }
+}
+
+/**
+ * Serialize class instances into plain objects following their `@Exclude`,
+ * `@Expose` and `@Transform` decorators, recursively through arrays, maps,
+ * sets and nested objects.
+ *
+ * @example
+ * instanceToPlain(user, { groups: ["admin"] });
+ */
+export function instanceToPlain(
+  value: any,
+  options: ClassSerializerOptions = {}
+): any {
+  return serializeValue(
+    value,
+    { groups: options.groups ?? [], strategy: options.strategy ?? "exposeAll" },
+    new Set()
+  );
+}
+
+/**
+ * Class Serializer Interceptor - Serializes handler results with
+ * `instanceToPlain()`, using the route's `@SerializeOptions()`, else the
+ * controller's, else the options given to the constructor
+ * @example
+ * @UseInterceptors(ClassSerializerInterceptor)
+ * @Controller('/users')
+ * export class UserController {
+ *   @Get('/:id')
+ *   @SerializeOptions({ groups: ['admin'] })
+ *   findOne() {
+ *     return new User(...);
+ *   }
+ * }
+ *
+ * // Or for every route
+ * app.useGlobalInterceptors(new ClassSerializerInterceptor({ groups: ['public'] }));
+ */
+export class ClassSerializerInterceptor implements WynkInterceptor {
+  constructor(private readonly defaultOptions: ClassSerializerOptions = {}) {}
+
+  async intercept(
+    context: ExecutionContext,
+    next: () => Promise<any>
+  ): Promise<any> {
+    const result = await next();
+    return instanceToPlain(result, this.getOptions(context));
+  }
+
+  private getOptions(context: ExecutionContext): ClassSerializerOptions {
+    const controller = context.getClass();
+    const handler = context.getHandler();
+    const routeOptions =
+      controller && handler?.name
+        ? Reflect.getMetadata(
+            SERIALIZE_OPTIONS_KEY,
+            controller.prototype,
+            handler.name
+          )
+        : undefined;
+    const controllerOptions = controller
+      ? Reflect.getMetadata(SERIALIZE_OPTIONS_KEY, controller)
+      : undefined;
+    return {
+      ...this.defaultOptions,
+      ...(routeOptions ?? controllerOptions),
+    };
+  }
+}
@@ -1,15 +1,95 @@
 import { Elysia } from "elysia";
 import "reflect-metadata";
-import { container } from "tsyringe";
+import {
+  container,
+  DependencyContainer,
+  InjectionToken,
+  Lifecycle,
+} from "tsyringe";
 import { Value } from "@sinclair/typebox/value";
 import {
   executeExceptionFilters,
+  HttpException,
 } from "./decorators/exception.decorators";
 import { ParamMetadata } from "./decorators/param.decorators";
 import { ErrorFormatter } from "./decorators/formatter.decorators";
 import { schemaRegistry } from "./schema-registry";
 import { CorsOptions, setupCors } from "./cors";
 import { normalizePrefixPath } from "./global-prefix";
+import { Logger, LoggerOptions } from "./logger";
+import { setupRequestLogging } from "./request-logging";
+import { createSseHandler } from "./sse";
+import { createStreamableFileHandler } from "./streamable-file";
+import { isUploadInterceptor } from "./upload";
+import { WebhookSignatureGuard } from "./webhook-signature";
+import {
+  createEtagHandler,
+  EtagMode,
+  EtagOptions,
+  PRECONDITION_METHODS,
+} from "./response";
+import {
+  createResponseSchemaHandler,
+  resolveResponseValidation,
+  ResponseValidationMode,
+} from "./response-schema";
+import {
+  createContentNegotiationHandler,
+  createSerializerRegistry,
+  ResponseSerializer,
+} from "./content-negotiation";
+import {
+  BodyParser,
+  createBodyParseHook,
+  createBodyParserRegistry,
+} from "./body-parser";
+import {
+  createServeStaticHandler,
+  SERVE_STATIC_OPTIONS,
+  ServeStaticModule,
+  ServeStaticOptions,
+} from "./serve-static";
+import {
+  createVersionExtractor,
+  getVersionPathSegment,
+  resolveRouteVersions,
+  VersioningOptions,
+  VersioningType,
+} from "./versioning";
+import {
+  createRouteDispatcher,
+  createHostMatcher,
+  HostRouteCandidate,
+} from "./host-routing";
+import {
+  buildGatewayHandlers,
+  GatewayHandlerDefinition,
+  WsServer,
+} from "./gateway";
+import {
+  createOpenApiDocument,
+  createRouteDetail,
+  OpenApiDocument,
+  OpenApiOptions,
+  OpenApiRoute,
+} from "./openapi";
+import {
+  ModuleGraph,
+  ModuleNode,
+  getProviderToken,
+  getTokenName,
+} from "./module-graph";
+import { REQUEST, Scope } from "./decorators/di.decorators";
+import { getApiMetadata } from "./decorators/openapi.decorators";
+import { GatewayMessageHandler } from "./decorators/gateway.decorators";
+import {
+  collectRequestScopedTokens,
+  getCurrentRequestContext,
+  getDeclaredScope,
+  isRequestScopedClass,
+  resolveInRequestScope,
+  runInRequestScope,
+} from "./request-scope";
 import {
   buildUltraOptimizedHandler,
   buildMiddlewareChain,
@@ -55,6 +135,8 @@ export interface FactoryProvider {
   useFactory: (...args: any[]) => any;
   /** Tokens whose resolved values are passed as arguments to `useFactory`. */
   inject?: any[];
+  /** Provider lifetime. Request-scoped and transient factories must be synchronous. */
+  scope?: Scope;
 }
 
 /**
@@ -86,6 +168,8 @@ export interface ClassProvider {
   provide: any;
   /** Class to instantiate and register. */
   useClass: any;
+  /** Provider lifetime. Defaults to the scope declared with `@Injectable({ scope })`. */
+  scope?: Scope;
 }
 
 /** Union of all supported provider definition shapes. */
@@ -113,49 +197,231 @@ export interface ApplicationOptions {
   cors?: boolean | CorsOptions;
   /** Prefix prepended to every registered route path (e.g. `'/api/v1'`). */
   globalPrefix?: string;
-  /** Reserved for future request logging support. */
-  logger?: boolean;
+  /**
+   * Configure the `Logger` of this application: level, JSON output, transports
+   * and global fields, for injected loggers and framework logs (startup,
+   * shutdown, CORS, interceptors) alike. Other applications are unaffected.
+   * Pass `false` to silence all logging, or `{ requests: true }` to log one
+   * line per request with a request ID taken from or echoed in `X-Request-Id`.
+   */
+  logger?: boolean | LoggerOptions;
   /** Formatter applied to TypeBox validation errors before responding to the client. */
   validationErrorFormatter?: ErrorFormatter;
   /** Provider classes or provider token objects to initialize before routes are registered. */
   providers?: Provider[];
-  /** `@Module()`-decorated classes whose controllers and providers are merged into the app. */
+  /**
+   * Root `@Module()`-decorated classes or `DynamicModule` objects (e.g. `ConfigModule.forRoot()`).
+   * Modules listed in their `imports` are loaded transitively; providers stay
+   * private to their module unless exported.
+   */
   modules?: any[];
+  /**
+   * `@WebSocketGateway()` classes served next to the HTTP routes. Gateways can
+   * also be listed in a module's `gateways`.
+   */
+  gateways?: any[];
+  /**
+   * Signals that trigger a graceful shutdown once `listen()` has started the server.
+   * Defaults to `['SIGTERM', 'SIGINT']`. Pass `false` to register no signal handlers
+   * and call `app.close()` yourself (tests, process supervisors, embedded apps).
+   */
+  shutdownSignals?: NodeJS.Signals[] | false;
+  /**
+   * Maximum time in milliseconds `close()` waits for in-flight requests to finish
+   * before closing the remaining connections. Defaults to `10000`.
+   */
+  shutdownTimeout?: number;
+  /**
+   * Generate an OpenAPI 3.1 document from the registered routes and serve it at
+   * `/openapi.json` (see `OpenApiOptions.path`). Pass `true` for the defaults.
+   * The document is always available through `app.getOpenApiDocument()`.
+   */
+  openapi?: boolean | OpenApiOptions;
+  /**
+   * Serve several versions of routes side by side, selected by URI (`/v2/...`),
+   * a custom header or the `Accept` media type. Routes declare their versions
+   * with `@Version()`; see `VersioningOptions.defaultVersion` for the others.
+   */
+  versioning?: VersioningOptions;
+  /**
+   * Enforce the `response` schemas of routes on what handlers return.
+   * `"validate"` answers a 500 when a result does not match its schema or
+   * has properties the schema does not declare, and logs the mismatches
+   * with the route; `"strip"` removes those properties. Defaults to `"strip"`
+   * when `NODE_ENV` is `production` and `"validate"` otherwise. Pass `false`
+   * to send results as is.
+   */
+  responseValidation?: ResponseValidationMode | false;
+  /**
+   * Serializers encoding handler results in the media type the `Accept`
+   * header prefers (see `@Produces()`). They are added to the built-in JSON,
+   * XML, CSV and MessagePack serializers, replacing those of the same type.
+   */
+  serializers?: ResponseSerializer[];
+  /**
+   * Media types routes without `@Produces()` may respond with, chosen by the
+   * `Accept` header. Defaults to `["application/json"]`: other media types
+   * are only sent by routes declaring them. Each type needs a serializer.
+   *
+   * @example
+   * WynkFactory.create({ produces: ["application/json", "application/msgpack"] });
+   */
+  produces?: string[];
+  /**
+   * Parsers of request bodies by `Content-Type`, run before the route's
+   * `body` schema validates them (see `@Consumes()`). They are added to the
+   * built-in form (with nested `a[b][c]` fields), XML, CSV, MessagePack and
+   * CBOR parsers, replacing those of the same type. JSON, text and multipart
+   * bodies are parsed by Elysia unless a parser is given for them.
+   */
+  bodyParsers?: BodyParser[];
+  /**
+   * Tag successful GET responses with an `ETag` hashed from the serialized
+   * body and answer matching `If-None-Match` requests with 304 Not Modified.
+   * `@Etag()` enables it per route, and `@Etag(false)` opts a route out.
+   * Defaults to `false`.
+   */
+  etag?: EtagMode | false;
 }
 
 export class WynkFramework {
   private app: Elysia;
   private controllers: any[] = [];
+  private gateways: any[] = [];
   private providers: any[] = []; // Store registered providers
+  private modules: any[] = []; // Root modules, scanned into a graph on build()
+  private moduleGraph?: ModuleGraph;
+  private container: DependencyContainer; // App-level child of the global tsyringe container
+  private moduleContainers: Map<ModuleNode, DependencyContainer> = new Map();
+  private controllerContainers: Map<any, DependencyContainer> = new Map();
+  private gatewayContainers: Map<any, DependencyContainer> = new Map();
+  private lifecycleHosts: any[] = []; // Instances receiving lifecycle hooks, in dependency order
+  private requestScopedTokens: Set<any> = new Set([REQUEST]);
+  private enhancerInstances: WeakMap<DependencyContainer, Map<Function, any>> =
+    new WeakMap(); // Guard/interceptor/pipe/filter instances per container
   private controllerTags: Map<any, string> = new Map();
+  private routeCandidates: Map<string, HostRouteCandidate[]> = new Map(); // By "METHOD path"
   private globalGuards: any[] = [];
   private globalInterceptors: any[] = [];
   private globalPipes: any[] = [];
   private globalFilters: any[] = [];
   private validationFormatter?: ErrorFormatter;
   private shutdownHandlersRegistered = false; // Prevent duplicate signal handlers
+  private shutdownSignals: NodeJS.Signals[];
+  private shutdownTimeout: number;
+  private signalHandlers: [NodeJS.Signals, () => void][] = [];
+  private closePromise?: Promise<void>; // Shared by concurrent close() calls
   private globalPrefix?: string; // Store global prefix for route registration
+  private versioning?: VersioningOptions;
+  private extractVersion?: (ctx: any) => string | undefined; // Header and media type versioning
+  private responseValidation: ResponseValidationMode | false;
+  private serializers: Map<string, ResponseSerializer>; // By media type
+  private produces?: string[]; // Media types of routes without @Produces()
+  private bodyParsers: Map<string, BodyParser>; // By media type
+  private etag: EtagMode | false;
   private isBuilt = false; // Track if build() has been called
+  private logger: Logger; // Carries ApplicationOptions.logger, if given
+  private injectedLoggers = new WeakSet<Logger>(); // Named after their consumer on init
+  private openApiOptions: OpenApiOptions = {};
+  private openApiServed = false;
+  private openApiRoutes: OpenApiRoute[] = []; // Collected while registering controllers
+  private openApiDocument?: OpenApiDocument;
+  private staticHandlers: Array<
+    (request: globalThis.Request) => Promise<globalThis.Response | undefined>
+  > = []; // One per directory served by ServeStaticModule
 
   constructor(options: ApplicationOptions = {}) {
     this.app = new Elysia();
+    this.container = container.createChildContainer();
+    this.container.register(REQUEST, {
+      useFactory: () => getCurrentRequestContext().request,
+    });
+    const appLogger =
+      options.logger !== undefined ? Logger.create(options.logger) : new Logger();
+    this.logger = appLogger.child({}, "WynkFramework");
+    // A new logger per consumer, sharing the application's configuration
+    this.container.register(Logger, {
+      useFactory: () => {
+        const logger = appLogger.child({});
+        this.injectedLoggers.add(logger);
+        return logger;
+      },
+    });
+    if (options.logger !== undefined) {
+      // Framework logs written while handling a request follow this application's logger
+      this.app.wrap(
+        (fetch: (request: globalThis.Request) => any) =>
+          (request: globalThis.Request) =>
+            this.logger.runWithConfig(() => fetch(request))
+      );
+    }
+    if (typeof options.logger === "object" && options.logger.requests) {
+      setupRequestLogging(this.app, this.logger.child({}, "HTTP"));
+    }
     this.validationFormatter = options.validationErrorFormatter;
+    this.responseValidation = resolveResponseValidation(
+      options.responseValidation
+    );
+    this.serializers = createSerializerRegistry(options.serializers);
+    for (const mediaType of options.produces || []) {
+      if (!this.serializers.has(mediaType.toLowerCase())) {
+        throw new Error(
+          `The produces application option lists "${mediaType}", but no serializer is registered for it. Add one to the serializers application option.`
+        );
+      }
+    }
+    this.produces = options.produces;
+    this.bodyParsers = createBodyParserRegistry(options.bodyParsers);
+    this.etag = options.etag ?? false;
+    this.shutdownSignals =
+      options.shutdownSignals === false
+        ? []
+        : options.shutdownSignals ?? ["SIGTERM", "SIGINT"];
+    this.shutdownTimeout = options.shutdownTimeout ?? 10000;
+    if (options.openapi) {
+      this.openApiOptions = options.openapi === true ? {} : options.openapi;
+      this.openApiServed = this.openApiOptions.path !== false;
+    }
 
     // Store global prefix for later use
     if (options.globalPrefix) {
       this.globalPrefix = normalizePrefixPath(options.globalPrefix);
     }
 
+    if (options.versioning) {
+      this.versioning = options.versioning;
+      this.extractVersion = createVersionExtractor(options.versioning);
+    }
+
     // Register providers if provided
     if (options.providers && options.providers.length > 0) {
       this.providers.push(...options.providers);
     }
 
+    // Register root modules if provided
+    if (options.modules && options.modules.length > 0) {
+      this.modules.push(...options.modules);
+    }
+
+    // Register gateways if provided
+    if (options.gateways && options.gateways.length > 0) {
+      this.gateways.push(...options.gateways);
+    }
+
     // Apply CORS configuration
     if (options.cors) {
-      setupCors(this.app, options.cors);
+      this.logger.runWithConfig(() => setupCors(this.app, options.cors!));
     }
 
+    // Requests no route matched may be static files (see ServeStaticModule)
+    this.app.onError(async ({ code, request, set }) => {
+      if (code !== "NOT_FOUND" || this.staticHandlers.length === 0) return;
+      const response = await this.serveStaticFile(request);
+      // Elysia would otherwise keep the 404 status of the error
+      if (response) set.status = response.status;
+      return response;
+    });
+
     // Configure Elysia's error handling for validation errors
     this.app.onError(({ code, error, set, request }) => {
       // Handle ValidationError from Elysia
@@ -304,8 +570,12 @@ export class WynkFramework {
         };
       }
 
-      // Default error handling
-      const err = error as any;
+      // Default error handling. Body parsers throw HttpExceptions (415, 400),
+      // which Elysia wraps in a ParseError
+      const err =
+        code === "PARSE" && (error as any).cause instanceof HttpException
+          ? (error as any).cause
+          : (error as any);
       set.status = err.status || 500;
       return {
         statusCode: err.status || 500,
@@ -398,10 +668,56 @@ export class WynkFramework {
     return this;
   }
 
-  private registerControllersWithTag(controllers: any[], tag: string): void {
+  /**
+   * Register one or more root `@Module()`-decorated classes with the application.
+   *
+   * Modules are scanned when `build()` or `listen()` is called: their `imports`
+   * are loaded transitively, providers are initialized in dependency order and
+   * each module's controllers are registered with the module name as tag.
+   *
+   * @param modules - `@Module()`-decorated classes or `DynamicModule` objects
+   * @returns `this` for method chaining
+   *
+   * @example
+   * ```typescript
+   * const app = new WynkFramework();
+   * app.registerModules(AppModule);
+   * await app.listen(3000);
+   * ```
+   */
+  registerModules(...modules: any[]): this {
+    this.modules.push(...modules);
+    return this;
+  }
+
+  /**
+   * Register one or more `@WebSocketGateway()`-decorated classes with the application.
+   *
+   * Like controllers, gateways are set up when `build()` or `listen()` is called.
+   *
+   * @param gateways - `@WebSocketGateway()`-decorated class constructors
+   * @returns `this` for method chaining
+   *
+   * @example
+   * ```typescript
+   * app.registerGateways(ChatGateway);
+   * await app.listen(3000);
+   * ```
+   */
+  registerGateways(...gateways: any[]): this {
+    this.gateways.push(...gateways);
+    return this;
+  }
+
+  private registerControllersWithTag(
+    controllers: any[],
+    tag: string,
+    scope: DependencyContainer
+  ): void {
     for (const ctrl of controllers) {
       this.controllers.push(ctrl);
       this.controllerTags.set(ctrl, tag);
+      this.controllerContainers.set(ctrl, scope);
     }
   }
 
@@ -491,18 +807,33 @@ export class WynkFramework {
   }
 
   /**
-   * Initialize all registered providers
+   * Register the given providers in `scope` and initialize them in order
    * Providers with onModuleInit() method will be called
    */
-  private async initializeProviders(): Promise<void> {
-    for (const provider of this.providers) {
+  private async initializeProviders(
+    providers: any[],
+    scope: DependencyContainer
+  ): Promise<void> {
+    for (const provider of providers) {
       try {
-        // Plain class provider — resolve from DI container and call lifecycle hook
+        // Request-scoped and transient providers are created on demand, not at startup
+        if (this.requestScopedTokens.has(getProviderToken(provider))) {
+          this.registerRequestScoped(provider, scope);
+          continue;
+        }
+        if (getDeclaredScope(provider) === Scope.TRANSIENT) {
+          this.registerTransient(provider, scope);
+          continue;
+        }
+
+        // Plain class provider — one instance per container, then call lifecycle hook.
+        // Classes already registered globally (e.g. @Singleton()) keep that registration.
         if (typeof provider === "function") {
-          const instance: any = container.resolve(provider);
-          if (typeof instance.onModuleInit === "function") {
-            await instance.onModuleInit();
+          if (!container.isRegistered(provider)) {
+            scope.registerSingleton(provider);
           }
+          const instance: any = scope.resolve(provider);
+          await this.initializeInstance(instance);
           continue;
         }
 
@@ -512,29 +843,29 @@ export class WynkFramework {
 
           if ("useValue" in provider) {
             // { provide, useValue } — register a static value
-            container.register(token, { useValue: provider.useValue });
+            scope.register(token, { useValue: provider.useValue });
           } else if ("useFactory" in provider) {
             // { provide, useFactory, inject? } — call factory with resolved deps
             const deps = (provider.inject || []).map((dep: any) =>
-              container.resolve(dep)
+              scope.resolve(dep)
             );
             const value = await provider.useFactory(...deps);
-            container.register(token, { useValue: value });
-            if (typeof value?.onModuleInit === "function") {
-              await value.onModuleInit();
-            }
+            scope.register(token, { useValue: value });
+            await this.initializeInstance(value);
           } else if ("useExisting" in provider) {
             // { provide, useExisting } — alias one token to another
-            container.register(token, {
-              useFactory: () => container.resolve(provider.useExisting),
+            scope.register(token, {
+              useFactory: () => scope.resolve(provider.useExisting),
             });
           } else if ("useClass" in provider) {
             // { provide, useClass } — register a class under a custom token
-            container.register(token, { useClass: provider.useClass });
-            const instance: any = container.resolve(token);
-            if (typeof instance.onModuleInit === "function") {
-              await instance.onModuleInit();
-            }
+            scope.register(
+              token,
+              { useClass: provider.useClass },
+              { lifecycle: Lifecycle.Singleton }
+            );
+            const instance: any = scope.resolve(token);
+            await this.initializeInstance(instance);
           }
           continue;
         }
@@ -550,6 +881,221 @@ export class WynkFramework {
     }
   }
 
+  /**
+   * Register a provider created once per request. Its instance is cached for
+   * the request being handled; resolving it outside a request throws.
+   */
+  private registerRequestScoped(provider: any, scope: DependencyContainer): void {
+    const token = getProviderToken(provider);
+    const name = getTokenName(token);
+
+    if (typeof provider === "object" && "useExisting" in provider) {
+      // The alias resolves the request-scoped target
+      scope.register(token, {
+        useFactory: () => scope.resolve(provider.useExisting),
+      });
+      return;
+    }
+
+    // Unique per registration: both the class token and the per-request cache key
+    const key = Symbol(name);
+    let create: () => any;
+    if (typeof provider === "function" || "useClass" in provider) {
+      scope.register(key, {
+        useClass: typeof provider === "function" ? provider : provider.useClass,
+      });
+      create = () => scope.resolve(key);
+    } else {
+      create = () => this.callFactory(provider, scope, Scope.REQUEST);
+    }
+
+    scope.register(token, {
+      useFactory: () => resolveInRequestScope(key, name, create),
+    });
+  }
+
+  /**
+   * Register a provider that is created anew for every consumer.
+   */
+  private registerTransient(provider: any, scope: DependencyContainer): void {
+    const token = getProviderToken(provider);
+    if (typeof provider === "function" || "useClass" in provider) {
+      scope.register(token, {
+        useClass: typeof provider === "function" ? provider : provider.useClass,
+      });
+    } else {
+      scope.register(token, {
+        useFactory: () => this.callFactory(provider, scope, Scope.TRANSIENT),
+      });
+    }
+  }
+
+  private callFactory(
+    provider: FactoryProvider,
+    scope: DependencyContainer,
+    lifetime: Scope
+  ): any {
+    const deps = (provider.inject || []).map((dep: any) => scope.resolve(dep));
+    const value = provider.useFactory(...deps);
+    if (value instanceof Promise) {
+      throw new Error(
+        `Provider ${getTokenName(provider.provide)} is ${lifetime}-scoped, so its factory must return the value synchronously.`
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Track an instance for lifecycle hooks and call its `onModuleInit()`.
+   * Instances shared between several providers or routes are initialized once.
+   */
+  private async initializeInstance(instance: any): Promise<void> {
+    if (!instance || typeof instance !== "object") return;
+    if (this.lifecycleHosts.includes(instance)) return;
+
+    this.lifecycleHosts.push(instance);
+    // Injected loggers take the name of the class they were injected into
+    for (const value of Object.values(instance)) {
+      if (value instanceof Logger && this.injectedLoggers.has(value)) {
+        this.injectedLoggers.delete(value);
+        if (!value.getContext()) value.setContext(instance.constructor.name);
+      }
+    }
+    if (typeof instance.onModuleInit === "function") {
+      await instance.onModuleInit();
+    }
+  }
+
+  /**
+   * Resolve guard, interceptor, pipe and filter classes from `scope` so their
+   * constructor dependencies are injected. Each class is created once per
+   * container; instances are passed through unchanged. Classes tsyringe
+   * cannot construct but that need no arguments (no `@Injectable()`, or only
+   * defaulted parameters) are constructed with `new`.
+   */
+  private async resolveEnhancers(
+    enhancers: any[],
+    kind: string,
+    scope: DependencyContainer
+  ): Promise<any[]> {
+    let cache = this.enhancerInstances.get(scope);
+    if (!cache) {
+      cache = new Map();
+      this.enhancerInstances.set(scope, cache);
+    }
+
+    const resolved: any[] = [];
+    for (const enhancer of enhancers) {
+      let instance = enhancer;
+      if (typeof enhancer === "function") {
+        instance = cache.get(enhancer);
+        if (!instance) {
+          try {
+            instance = scope.resolve(enhancer);
+          } catch (error) {
+            // Fall back to `new` when the constructor needs no injected arguments
+            if (
+              enhancer.length > 0 &&
+              Reflect.hasMetadata("design:paramtypes", enhancer)
+            ) {
+              throw new Error(
+                `${kind} initialization failed for ${enhancer.name}: ${(error as any).message}`
+              );
+            }
+            instance = new (enhancer as any)();
+          }
+          cache.set(enhancer, instance);
+        }
+      }
+      await this.initializeInstance(instance);
+      resolved.push(instance);
+    }
+    return resolved;
+  }
+
+  /**
+   * Read the parameter metadata of a handler, resolving parameter-level pipes
+   * through DI like any other pipe. Sorted once at registration, not per request.
+   */
+  private async resolveParams(
+    instance: any,
+    methodName: string | symbol,
+    scope: DependencyContainer
+  ): Promise<ParamMetadata[]> {
+    const params: ParamMetadata[] = [];
+    for (const param of Reflect.getMetadata("params", instance, methodName) ||
+      []) {
+      params.push(
+        param.pipes && param.pipes.length > 0
+          ? {
+              ...param,
+              pipes: await this.resolveEnhancers(param.pipes, "Pipe", scope),
+            }
+          : param
+      );
+    }
+
+    if (params.length > 0) {
+      params.sort((a, b) => a.index - b.index);
+    }
+    return params;
+  }
+
+  /**
+   * Combine the global enhancers with those declared on a controller or
+   * gateway and its handler.
+   * Order: method -> controller -> global (method is innermost/closest to handler)
+   * Global enhancers come from the app container, the rest from the owner's module
+   */
+  private async resolveRouteEnhancers(
+    declared: { guards: any[]; interceptors: any[]; pipes: any[]; filters: any[] },
+    scope: DependencyContainer
+  ): Promise<{
+    allGuards: any[];
+    allInterceptors: any[];
+    allPipes: any[];
+    allFilters: any[];
+  }> {
+    return {
+      allGuards: [
+        ...(await this.resolveEnhancers(this.globalGuards, "Guard", this.container)),
+        ...(await this.resolveEnhancers(declared.guards, "Guard", scope)),
+      ],
+      allInterceptors: [
+        ...(await this.resolveEnhancers(
+          declared.interceptors,
+          "Interceptor",
+          scope
+        )),
+        ...(await this.resolveEnhancers(
+          this.globalInterceptors,
+          "Interceptor",
+          this.container
+        )),
+      ],
+      allPipes: [
+        ...(await this.resolveEnhancers(this.globalPipes, "Pipe", this.container)),
+        ...(await this.resolveEnhancers(declared.pipes, "Pipe", scope)),
+      ],
+      allFilters: [
+        ...(await this.resolveEnhancers(this.globalFilters, "Filter", this.container)),
+        ...(await this.resolveEnhancers(declared.filters, "Filter", scope)),
+      ],
+    };
+  }
+
+  /**
+   * Call a lifecycle hook on every tracked instance that implements it,
+   * in dependency order.
+   */
+  private async callLifecycleHook(hook: string): Promise<void> {
+    for (const host of this.lifecycleHosts) {
+      if (typeof host[hook] === "function") {
+        await host[hook]();
+      }
+    }
+  }
+
   /**
    * Build the application by initializing all providers and registering all routes.
    *
@@ -568,12 +1114,57 @@ export class WynkFramework {
    */
   async build(): Promise<any> {
     if (this.isBuilt) return this.app;
+    // Framework logs written while building follow this application's logger
+    return this.logger.runWithConfig(() => this.buildApplication());
+  }
+
+  private async buildApplication(): Promise<any> {
+
+    // Resolve the module graph and check encapsulation before instantiating anything
+    this.moduleGraph = ModuleGraph.scan(this.modules, this.providers);
+    this.moduleGraph.validate([...this.controllers, ...this.gateways]);
+
+    // Give every module its own container and wire imported exports into it
+    this.linkModuleContainers(this.moduleGraph);
+
+    // Request scope bubbles up to every provider depending on a request-scoped one
+    this.requestScopedTokens = collectRequestScopedTokens([
+      ...this.providers,
+      ...this.moduleGraph.modules.flatMap((mod) => mod.providers),
+    ]);
+
     // Initialize providers first (database connections, etc.)
+    // App-level providers, then modules in dependency order (imports first)
     if (this.providers.length > 0) {
-      await this.initializeProviders();
+      await this.initializeProviders(this.providers, this.container);
     }
+    for (const mod of this.moduleGraph.modules) {
+      const scope = this.moduleContainers.get(mod)!;
+      if (mod.providers.length > 0) {
+        await this.initializeProviders(mod.providers, scope);
+      }
+      // The module class itself, once its providers are ready
+      await this.initializeInstance(scope.resolve(mod.metatype));
+      if (mod.controllers.length > 0) {
+        this.registerControllersWithTag(
+          mod.controllers,
+          mod.name.replace(/Module$/i, ""),
+          scope
+        );
+      }
+      for (const gateway of mod.gateways) {
+        this.gateways.push(gateway);
+        this.gatewayContainers.set(gateway, scope);
+      }
+    }
+
     // Register global error handler if filters exist
     if (this.globalFilters.length > 0) {
+      const globalFilters = await this.resolveEnhancers(
+        this.globalFilters,
+        "Filter",
+        this.container
+      );
       this.app.onError(async ({ error, set, request }) => {
         const executionContext = {
           getRequest: () => request,
@@ -585,7 +1176,7 @@ export class WynkFramework {
 
         try {
           const result = await executeExceptionFilters(
-            this.globalFilters,
+            globalFilters,
             error,
             executionContext
           );
@@ -612,34 +1203,152 @@ export class WynkFramework {
     for (const ControllerClass of this.controllers) {
       await this.registerController(ControllerClass);
     }
+    this.registerRoutes();
+    for (const mod of this.moduleGraph.modules) {
+      if (mod.metatype !== ServeStaticModule) continue;
+      const directories = this.moduleContainers
+        .get(mod)!
+        .resolve<ServeStaticOptions[]>(SERVE_STATIC_OPTIONS);
+      for (const options of directories) {
+        this.staticHandlers.push(
+          createServeStaticHandler(options, this.globalPrefix)
+        );
+      }
+    }
+    for (const GatewayClass of this.gateways) {
+      await this.registerGateway(GatewayClass);
+    }
+
+    if (this.openApiServed) {
+      this.app.get(
+        (this.openApiOptions.path as string | undefined) ?? "/openapi.json",
+        () => this.createOpenApiDocument(),
+        { detail: { hide: true } }
+      );
+    }
+
+    // Every route is registered — let providers, controllers, guards and modules bootstrap
+    await this.callLifecycleHook("onApplicationBootstrap");
 
     this.isBuilt = true;
     return this.app;
   }
 
+  /**
+   * Serve an unmatched request from the first static directory holding the
+   * requested file. Resolves to `undefined` so the 404 is sent otherwise.
+   */
+  private async serveStaticFile(
+    request: globalThis.Request
+  ): Promise<globalThis.Response | undefined> {
+    for (const serve of this.staticHandlers) {
+      const response = await serve(request);
+      if (response) return response;
+    }
+    return undefined;
+  }
+
+  /**
+   * Create a child container per module and register the tokens each module
+   * can see from outside as delegates to the container that owns them:
+   * exports of imported modules in the importer, exports of root and
+   * `@Global()` modules in the app container.
+   */
+  private linkModuleContainers(graph: ModuleGraph): void {
+    for (const mod of graph.modules) {
+      this.moduleContainers.set(mod, this.container.createChildContainer());
+    }
+
+    const delegate = (
+      target: DependencyContainer,
+      source: ModuleNode
+    ): void => {
+      const sourceScope = this.moduleContainers.get(source)!;
+      for (const token of graph.getExportedTokens(source)) {
+        target.register(token, {
+          useFactory: () => sourceScope.resolve(token),
+        });
+      }
+    };
+
+    for (const mod of graph.modules) {
+      for (const imported of mod.imports) {
+        delegate(this.moduleContainers.get(mod)!, imported);
+      }
+    }
+    for (const root of this.modules) {
+      delegate(this.container, graph.getModule(root)!);
+    }
+    for (const mod of graph.modules) {
+      if (mod.isGlobal) delegate(this.container, mod);
+    }
+  }
+
+  /**
+   * Returns the dependency container of this application, or of one of its modules.
+   *
+   * The app container is a child of the global tsyringe container, and every
+   * module container is a child of the app container, so lookups fall back to
+   * the parent while registrations never leak upwards or into other apps.
+   * Module containers exist once `build()` has run.
+   *
+   * @param module - Optional module class or `DynamicModule` object of this app
+   * @returns The matching `DependencyContainer`
+   *
+   * @example
+   * ```typescript
+   * await app.build();
+   * const users = app.getContainer(UserModule).resolve(UserService);
+   * ```
+   */
+  getContainer(module?: any): DependencyContainer {
+    if (module === undefined) return this.container;
+
+    const node = this.moduleGraph?.getModule(module);
+    if (!node) {
+      const name = module?.module?.name ?? module?.name ?? String(module);
+      throw new Error(
+        `Module ${name} is not part of this application. Make sure it is registered and build() has been called.`
+      );
+    }
+    return this.moduleContainers.get(node)!;
+  }
+
+  /**
+   * Resolve a provider from this application.
+   *
+   * Looks in the app container first (app-level providers, exports of root and
+   * `@Global()` modules, global registrations), then in the container of the
+   * module that declares the token. Call after `build()`.
+   *
+   * @param token - Class, string or symbol token
+   * @returns The resolved instance
+   *
+   * @example
+   * ```typescript
+   * await app.build();
+   * const db = app.get(DatabaseService);
+   * const config = app.get<AppConfig>("CONFIG");
+   * ```
+   */
+  get<T = any>(token: InjectionToken<T>): T {
+    if (!this.container.isRegistered(token, true)) {
+      for (const scope of this.moduleContainers.values()) {
+        if (scope.isRegistered(token)) return scope.resolve(token);
+      }
+    }
+    return this.container.resolve(token);
+  }
+
   /**
    * Cleanup all providers when app shuts down
-   * Providers with onModuleDestroy() method will be called
+   * Instances with onModuleDestroy() method will be called, dependents first
    */
   private async destroyProviders(): Promise<void> {
-    for (const provider of this.providers) {
+    for (const instance of [...this.lifecycleHosts].reverse()) {
       try {
-        if (typeof provider === "function") {
-          const instance: any = container.resolve(provider);
-          if (typeof instance.onModuleDestroy === "function") {
-            await instance.onModuleDestroy();
-          }
-        } else if (
-          provider &&
-          typeof provider === "object" &&
-          "provide" in provider &&
-          ("useClass" in provider || "useFactory" in provider)
-        ) {
-          // Only class/factory providers produce instances that may need cleanup
-          const instance: any = container.resolve(provider.provide);
-          if (typeof instance?.onModuleDestroy === "function") {
-            await instance.onModuleDestroy();
-          }
+        if (typeof instance.onModuleDestroy === "function") {
+          await instance.onModuleDestroy();
         }
       } catch {
         // Continue cleanup even if one provider fails
@@ -647,6 +1356,84 @@ export class WynkFramework {
     }
   }
 
+  /**
+   * Gracefully shut the application down without exiting the process.
+   *
+   * Runs `beforeApplicationShutdown(signal)` hooks, stops accepting new
+   * connections and waits up to `shutdownTimeout` ms for in-flight requests to
+   * finish (remaining connections are closed after that), then runs
+   * `onModuleDestroy()` and `onApplicationShutdown(signal)` hooks. A failing hook
+   * is logged and does not stop the remaining ones. Calling `close()` again
+   * returns the same promise.
+   *
+   * @param signal - Optional signal name passed to the shutdown hooks
+   * @returns A `Promise` that resolves once the shutdown sequence has finished
+   *
+   * @example
+   * ```typescript
+   * const app = WynkFactory.create({ controllers, shutdownSignals: false });
+   * await app.listen(3000);
+   * // ...
+   * await app.close();
+   * ```
+   */
+  close(signal?: string): Promise<void> {
+    if (!this.closePromise) {
+      this.closePromise = this.shutdown(signal);
+    }
+    return this.closePromise;
+  }
+
+  private async shutdown(signal?: string): Promise<void> {
+    this.removeSignalHandlers();
+
+    await this.callShutdownHook("beforeApplicationShutdown", signal);
+    await this.drainServer();
+    await this.destroyProviders();
+    await this.callShutdownHook("onApplicationShutdown", signal);
+  }
+
+  /**
+   * Stop accepting connections and wait for in-flight requests, up to
+   * `shutdownTimeout` ms, before force-closing whatever is still open.
+   */
+  private async drainServer(): Promise<void> {
+    const server = this.app.server;
+    if (!server) return;
+
+    await this.app.stop();
+
+    const deadline = Date.now() + this.shutdownTimeout;
+    while (server.pendingRequests > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    if (server.pendingRequests > 0) {
+      this.logger.warn(
+        `Shutdown timeout of ${this.shutdownTimeout}ms reached, closing ${server.pendingRequests} in-flight request(s)`
+      );
+      await server.stop(true);
+    }
+  }
+
+  private removeSignalHandlers(): void {
+    for (const [signal, handler] of this.signalHandlers) {
+      process.removeListener(signal, handler);
+    }
+    this.signalHandlers = [];
+  }
+
+  private async callShutdownHook(hook: string, signal?: string): Promise<void> {
+    for (const host of [...this.lifecycleHosts].reverse()) {
+      try {
+        if (typeof host[hook] === "function") {
+          await host[hook](signal);
+        }
+      } catch (error) {
+        this.logger.error(`Error in ${hook}()`, error);
+      }
+    }
+  }
+
   /**
    * Use an Elysia plugin or middleware (fully compatible with Elysia.js ecosystem)
    *
@@ -688,21 +1475,23 @@ export class WynkFramework {
    * Start the HTTP server on the given port.
    *
    * Calls `build()` automatically if not yet called, then starts the Elysia server
-   * and registers `SIGTERM`/`SIGINT` handlers for graceful shutdown. Providers with
-   * `onModuleDestroy()` are called on shutdown.
+   * and registers `SIGTERM`/`SIGINT` handlers (see `shutdownSignals`) that call
+   * `close()` and then exit the process.
    *
    * @param port - TCP port to listen on (default Bun port is typically 3000)
    *
    * @example
    * ```typescript
    * await app.listen(3000);
-   * // 🚀 Application is running on http://localhost:3000
+   * // [Wynk] LOG [WynkFramework] Application is running on http://localhost:3000
    * ```
    */
   async listen(port: number): Promise<void> {
     await this.build();
     this.app.listen(port);
-    console.log(`🚀 Application is running on http://localhost:${port}`);
+    this.logger.log(`Application is running on http://localhost:${port}`, {
+      port,
+    });
 
     // Register signal handlers only once to prevent memory leaks
     if (!this.shutdownHandlersRegistered) {
@@ -710,26 +1499,29 @@ export class WynkFramework {
 
       // Setup graceful shutdown handlers
       const gracefulShutdown = async (signal: string) => {
-        console.log(`\n📡 Received ${signal}, shutting down gracefully...`);
+        this.logger.log(`Received ${signal}, shutting down gracefully...`, {
+          signal,
+        });
 
         try {
-          // Cleanup providers (close database connections, etc.)
-          await this.destroyProviders();
-
-          // Stop the Elysia server
-          await this.app.stop();
+          // Shutdown hooks, connection draining and provider cleanup
+          // (close database connections, etc.)
+          await this.close(signal);
 
-          console.log("👋 Application shut down successfully");
+          this.logger.log("Application shut down successfully");
           process.exit(0);
         } catch (error) {
-          console.error("❌ Error during shutdown:", error);
+          this.logger.error("Error during shutdown", error);
           process.exit(1);
         }
       };
 
       // Register signal handlers (only once)
-      process.once("SIGTERM", () => gracefulShutdown("SIGTERM"));
-      process.once("SIGINT", () => gracefulShutdown("SIGINT"));
+      for (const signal of this.shutdownSignals) {
+        const handler = () => gracefulShutdown(signal);
+        this.signalHandlers.push([signal, handler]);
+        process.once(signal, handler);
+      }
     }
   }
 
@@ -775,12 +1567,55 @@ export class WynkFramework {
     return this.app.handle(request);
   }
 
+  /**
+   * Returns the OpenAPI 3.1 document describing every registered route.
+   *
+   * Calls `build()` automatically if not yet called. Paths include the global
+   * prefix, and `@HttpCode()`, guards and the `body` / `query` / `params` /
+   * `headers` / `response` schemas of each route are reflected.
+   *
+   * @example
+   * ```typescript
+   * const document = await app.getOpenApiDocument();
+   * await Bun.write("openapi.json", JSON.stringify(document, null, 2));
+   * ```
+   */
+  async getOpenApiDocument(): Promise<OpenApiDocument> {
+    if (!this.isBuilt) {
+      await this.build();
+    }
+    return this.createOpenApiDocument();
+  }
+
+  private createOpenApiDocument(): OpenApiDocument {
+    this.openApiDocument ??= createOpenApiDocument(
+      this.openApiRoutes,
+      this.openApiOptions
+    );
+    return this.openApiDocument;
+  }
+
   /**
    * Register a single controller
    */
   private async registerController(ControllerClass: any): Promise<void> {
-    const instance: any = container.resolve(ControllerClass);
+    const scope = this.controllerContainers.get(ControllerClass) || this.container;
+    // Controllers depending on request-scoped providers are created per request;
+    // their prototype stands in for the instance when reading route metadata
+    const requestScoped = isRequestScopedClass(
+      ControllerClass,
+      this.requestScopedTokens
+    );
+    const instance: any = requestScoped
+      ? ControllerClass.prototype
+      : scope.resolve(ControllerClass);
+    if (!requestScoped) {
+      await this.initializeInstance(instance);
+    }
     const basePath = Reflect.getMetadata("basePath", ControllerClass) || "";
+    const hostPattern = Reflect.getMetadata("host", ControllerClass);
+    const controllerVersion = Reflect.getMetadata("version", ControllerClass);
+    const matchHost = hostPattern ? createHostMatcher(hostPattern) : undefined;
 
     const tag =
       this.controllerTags.get(ControllerClass) ||
@@ -807,15 +1642,29 @@ export class WynkFramework {
     const controllerUses = Reflect.getMetadata("uses", ControllerClass) || [];
 
     for (const route of routes) {
-      // Apply global prefix to route path
-      let fullPath = basePath + route.path;
-      if (this.globalPrefix) {
-        fullPath = this.globalPrefix + fullPath;
-      }
-
       const method = route.method.toLowerCase();
       const methodName = route.methodName;
 
+      const versions = this.versioning
+        ? resolveRouteVersions(
+            Reflect.getMetadata("version", instance, methodName),
+            controllerVersion,
+            this.versioning
+          )
+        : undefined;
+      const uriVersioning = this.versioning?.type === VersioningType.URI;
+
+      // Apply global prefix to route path, followed by the URI version
+      const fullPaths = (uriVersioning && versions ? versions : [undefined]).map(
+        (version) =>
+          (this.globalPrefix || "") +
+          (version === undefined
+            ? ""
+            : getVersionPathSegment(version, this.versioning!)) +
+          basePath +
+          route.path
+      );
+
       // Get method-specific metadata
       const methodGuards =
         Reflect.getMetadata("guards", instance, methodName) || [];
@@ -830,13 +1679,7 @@ export class WynkFramework {
       const methodUses =
         Reflect.getMetadata("uses", instance, methodName) || [];
 
-      const params: ParamMetadata[] =
-        Reflect.getMetadata("params", instance, methodName) || [];
-
-      // Sort params once during registration, not on every request
-      if (params.length > 0) {
-        params.sort((a, b) => a.index - b.index);
-      }
+      const params = await this.resolveParams(instance, methodName, scope);
 
       const httpCode = Reflect.getMetadata(
         "route:httpCode",
@@ -853,29 +1696,57 @@ export class WynkFramework {
         instance,
         methodName
       );
+      const produces: string[] | undefined = Reflect.getMetadata(
+        "route:produces",
+        instance,
+        methodName
+      );
+      const consumes: string[] | undefined = Reflect.getMetadata(
+        "route:consumes",
+        instance,
+        methodName
+      );
+      const routeEtag: EtagMode | EtagOptions | false | undefined =
+        Reflect.getMetadata("route:etag", instance, methodName);
+      const etagSetting = routeEtag ?? this.etag;
+      const etag: EtagOptions | undefined =
+        typeof etagSetting === "object"
+          ? etagSetting
+          : etagSetting
+            ? { mode: etagSetting }
+            : undefined;
+      const current = etag?.current;
+      // Write routes check If-Match, which compares strongly, against `current`
+      if (etag && routeEtag && PRECONDITION_METHODS.has(method.toUpperCase())) {
+        if (etag.mode === "weak") {
+          throw new Error(
+            `${ControllerClass.name}.${String(methodName)} uses weak ETags, which never satisfy If-Match. Check If-Match against a version tag with @Etag({ current }).`
+          );
+        }
+        if (!etag.current) {
+          throw new Error(
+            `${ControllerClass.name}.${String(methodName)} has @Etag() but no current tag to check If-Match against. Pass one with @Etag({ current }).`
+          );
+        }
+      }
+      for (const mediaType of produces || []) {
+        if (!this.serializers.has(mediaType.toLowerCase())) {
+          throw new Error(
+            `${ControllerClass.name}.${String(methodName)} produces "${mediaType}", but no serializer is registered for it. Add one to the serializers application option.`
+          );
+        }
+      }
 
-      // Combine guards, interceptors, pipes, filters
-      // Order: method -> controller -> global (method is innermost/closest to handler)
-      const allGuards = [
-        ...this.globalGuards,
-        ...controllerGuards,
-        ...methodGuards,
-      ];
-      const allInterceptors = [
-        ...methodInterceptors,
-        ...controllerInterceptors,
-        ...this.globalInterceptors,
-      ];
-      const allPipes = [
-        ...this.globalPipes,
-        ...controllerPipes,
-        ...methodPipes,
-      ];
-      const allFilters = [
-        ...this.globalFilters,
-        ...controllerFilters,
-        ...methodFilters,
-      ];
+      const { allGuards, allInterceptors, allPipes, allFilters } =
+        await this.resolveRouteEnhancers(
+          {
+            guards: [...controllerGuards, ...methodGuards],
+            interceptors: [...methodInterceptors, ...controllerInterceptors],
+            pipes: [...controllerPipes, ...methodPipes],
+            filters: [...controllerFilters, ...methodFilters],
+          },
+          scope
+        );
 
       // Get route options (for body validation schema)
       const routeOptions = route.options || {};
@@ -892,6 +1763,9 @@ export class WynkFramework {
       // This eliminates nested async/await and IIFEs for maximum performance
       const handler = buildUltraOptimizedHandler({
         instance,
+        resolveInstance: requestScoped
+          ? () => scope.resolve(ControllerClass)
+          : undefined,
         methodName,
         ControllerClass,
         params,
@@ -910,15 +1784,76 @@ export class WynkFramework {
       // Combine controller and method middleware
       const allUses = [...controllerUses, ...methodUses];
 
-      let finalHandler = handler;
+      let finalHandler = routeOptions.sse
+        ? createSseHandler(handler, { keepAlive: routeOptions.keepAlive })
+        : createContentNegotiationHandler(
+            routeOptions.response && this.responseValidation
+              ? createResponseSchemaHandler(handler, routeOptions.response, {
+                  mode: this.responseValidation,
+                  route: `${ControllerClass.name}.${String(methodName)} (${method.toUpperCase()} ${fullPaths[0]})`,
+                })
+              : handler,
+            {
+              serializers: this.serializers,
+              produces,
+              defaults: this.produces,
+            }
+          );
+      if (!routeOptions.sse) {
+        finalHandler = createStreamableFileHandler(
+          etag
+            ? createEtagHandler(
+                finalHandler,
+                etag.mode ?? "weak",
+                current &&
+                  ((ctx: any) =>
+                    current.call(
+                      requestScoped ? scope.resolve(ControllerClass) : instance,
+                      ctx
+                    ))
+              )
+            : finalHandler
+        );
+      }
 
       if (allUses.length > 0) {
-        finalHandler = buildMiddlewareChain(handler, allUses);
+        finalHandler = buildMiddlewareChain(finalHandler, allUses);
+      }
+
+      if (requestScoped) {
+        const scopedHandler = finalHandler;
+        finalHandler = (ctx: any) =>
+          runInRequestScope(ctx, () => scopedHandler(ctx));
       }
 
       // Register route with Elysia
       const elysiaOptions: any = {};
 
+      const rawBody =
+        routeOptions.rawBody ||
+        params.some((param) => param.type === "rawBody") ||
+        allGuards.some((guard) => guard instanceof WebhookSignatureGuard);
+
+      // Upload interceptors stream the body themselves, after guards
+      if (allInterceptors.some(isUploadInterceptor)) {
+        if (routeOptions.body || bodySchema) {
+          throw new Error(
+            `${ControllerClass.name}.${String(methodName)} uses a file upload interceptor and cannot declare a body schema, since the body is parsed after validation. Validate the text fields with pipes instead.`
+          );
+        }
+        if (rawBody) {
+          throw new Error(
+            `${ControllerClass.name}.${String(methodName)} uses a file upload interceptor and cannot keep the raw body, since uploads are streamed.`
+          );
+        }
+        elysiaOptions.parse = "none";
+      } else {
+        elysiaOptions.parse = createBodyParseHook(this.bodyParsers, {
+          consumes,
+          rawBody,
+        });
+      }
+
       if (routeOptions.body || bodySchema) {
         const schema = routeOptions.body || bodySchema;
         elysiaOptions.body = schema;
@@ -926,7 +1861,9 @@ export class WynkFramework {
         // Register schema with custom error messages
         const schemaKey = `${ControllerClass.name}.${methodName}.body`;
         schemaRegistry.registerSchema(schemaKey, schema);
-        schemaRegistry.registerRoute(method, fullPath, schemaKey, "body");
+        for (const fullPath of fullPaths) {
+          schemaRegistry.registerRoute(method, fullPath, schemaKey, "body");
+        }
       }
       if (routeOptions.query) {
         elysiaOptions.query = routeOptions.query;
@@ -934,7 +1871,9 @@ export class WynkFramework {
         // Register query schema
         const schemaKey = `${ControllerClass.name}.${methodName}.query`;
         schemaRegistry.registerSchema(schemaKey, routeOptions.query);
-        schemaRegistry.registerRoute(method, fullPath, schemaKey, "query");
+        for (const fullPath of fullPaths) {
+          schemaRegistry.registerRoute(method, fullPath, schemaKey, "query");
+        }
       }
       if (routeOptions.params) {
         elysiaOptions.params = routeOptions.params;
@@ -942,15 +1881,148 @@ export class WynkFramework {
         // Register params schema
         const schemaKey = `${ControllerClass.name}.${methodName}.params`;
         schemaRegistry.registerSchema(schemaKey, routeOptions.params);
-        schemaRegistry.registerRoute(method, fullPath, schemaKey, "params");
+        for (const fullPath of fullPaths) {
+          schemaRegistry.registerRoute(method, fullPath, schemaKey, "params");
+        }
       }
       if (routeOptions.headers) {
         elysiaOptions.headers = routeOptions.headers;
       }
 
-      elysiaOptions.detail = { tags: [tag] };
+      const api = getApiMetadata(ControllerClass, methodName);
+      elysiaOptions.detail = createRouteDetail(api, tag);
+
+      for (const fullPath of fullPaths) {
+        this.openApiRoutes.push({
+          method: route.method.toUpperCase(),
+          path: fullPath,
+          tag,
+          controller: ControllerClass,
+          methodName,
+          options: routeOptions,
+          params,
+          guards: [...this.globalGuards, ...controllerGuards, ...methodGuards],
+          httpCode,
+          api,
+        });
+
+        const key = `${method} ${fullPath}`;
+        const candidates = this.routeCandidates.get(key) || [];
+        candidates.push({
+          handler: finalHandler,
+          match: matchHost,
+          // URI versions are told apart by path instead
+          versions: uriVersioning ? undefined : versions,
+          options: elysiaOptions,
+          name: `${ControllerClass.name}.${String(methodName)}`,
+        });
+        this.routeCandidates.set(key, candidates);
+      }
+    }
+  }
+
+  /**
+   * Register the collected routes with Elysia. Routes restricted to hosts or
+   * to header / media type versions share one Elysia route per method and
+   * path, dispatching on the host and version.
+   */
+  private registerRoutes(): void {
+    for (const [key, candidates] of this.routeCandidates) {
+      const separator = key.indexOf(" ");
+      const method = key.slice(0, separator);
+      const path = key.slice(separator + 1);
+
+      if (!candidates.some((candidate) => candidate.match || candidate.versions)) {
+        for (const candidate of candidates) {
+          (this.app as any)[method](path, candidate.handler, candidate.options);
+        }
+        continue;
+      }
 
-      (this.app as any)[method](fullPath, finalHandler, elysiaOptions);
+      (this.app as any)[method](
+        path,
+        createRouteDispatcher(
+          method.toUpperCase(),
+          path,
+          candidates,
+          this.extractVersion
+        ),
+        candidates[0].options
+      );
+    }
+    this.routeCandidates.clear();
+  }
+
+  /**
+   * Register a single WebSocket gateway
+   */
+  private async registerGateway(GatewayClass: any): Promise<void> {
+    const scope = this.gatewayContainers.get(GatewayClass) || this.container;
+    if (isRequestScopedClass(GatewayClass, this.requestScopedTokens)) {
+      throw new Error(
+        `Gateway ${GatewayClass.name} cannot depend on request-scoped providers: WebSocket connections have no request scope.`
+      );
+    }
+    const path = Reflect.getMetadata("gateway:path", GatewayClass);
+    if (path === undefined) {
+      throw new Error(
+        `${GatewayClass.name} is not a gateway. Did you forget the @WebSocketGateway() decorator?`
+      );
+    }
+
+    const instance: any = scope.resolve(GatewayClass);
+    const server = new WsServer(path);
+    const serverProperty = Reflect.getMetadata("gateway:server", GatewayClass);
+    if (serverProperty) {
+      instance[serverProperty] = server;
+    }
+
+    const messages: GatewayMessageHandler[] =
+      Reflect.getMetadata("gateway:messages", GatewayClass) || [];
+    const handlers: GatewayHandlerDefinition[] = [];
+    for (const { event, methodName } of messages) {
+      const { allGuards, allInterceptors, allPipes, allFilters } =
+        await this.resolveRouteEnhancers(
+          {
+            guards: [
+              ...(Reflect.getMetadata("guards", GatewayClass) || []),
+              ...(Reflect.getMetadata("guards", instance, methodName) || []),
+            ],
+            interceptors: [
+              ...(Reflect.getMetadata("interceptors", instance, methodName) || []),
+              ...(Reflect.getMetadata("interceptors", GatewayClass) || []),
+            ],
+            pipes: [
+              ...(Reflect.getMetadata("pipes", GatewayClass) || []),
+              ...(Reflect.getMetadata("pipes", instance, methodName) || []),
+            ],
+            filters: [
+              ...(Reflect.getMetadata("filters", GatewayClass) || []),
+              ...(Reflect.getMetadata("filters", instance, methodName) || []),
+            ],
+          },
+          scope
+        );
+
+      handlers.push({
+        event,
+        methodName,
+        params: await this.resolveParams(instance, methodName, scope),
+        guards: allGuards,
+        interceptors: allInterceptors,
+        pipes: allPipes,
+        filters: allFilters,
+      });
+    }
+
+    this.app.ws(
+      path,
+      buildGatewayHandlers({ instance, GatewayClass, server, handlers }) as any
+    );
+
+    await this.initializeInstance(instance);
+    if (typeof instance.afterInit === "function") {
+      await instance.afterInit(server);
     }
   }
 }
@@ -1001,36 +2073,10 @@ export class WynkFactory {
       providers?: any[];
     } = {}
   ): WynkFramework {
-    const effectiveControllers = [...(options.controllers || [])];
-    const effectiveProviders = [...(options.providers || [])];
-    const controllerTagMap = new Map<any, string>();
-
-    if (options.modules) {
-      for (const mod of options.modules) {
-        const meta = Reflect.getMetadata("module:metadata", mod) as
-          | { controllers?: any[]; providers?: any[] }
-          | undefined;
-        if (meta) {
-          if (meta.controllers) {
-            const tag = mod.name.replace(/Module$/i, "");
-            for (const ctrl of meta.controllers) {
-              effectiveControllers.push(ctrl);
-              controllerTagMap.set(ctrl, tag);
-            }
-          }
-          if (meta.providers) effectiveProviders.push(...meta.providers);
-        }
-      }
-    }
-
-    const mergedOptions = { ...options, providers: effectiveProviders };
-    const app = new WynkFramework(mergedOptions);
+    const app = new WynkFramework(options);
 
-    if (effectiveControllers.length > 0) {
-      app.registerControllers(...effectiveControllers);
-      for (const [ctrl, tag] of controllerTagMap) {
-        app.setControllerTag(ctrl, tag);
-      }
+    if (options.controllers && options.controllers.length > 0) {
+      app.registerControllers(...options.controllers);
     }
 
     return app;
@@ -0,0 +1,391 @@
+/**
+ * File validators for WynkJS Framework
+ * Checks uploaded files by their contents rather than the client's claims,
+ * for use with `ParseFilePipe`
+ */
+
+/**
+ * Base class of the validators given to `ParseFilePipe({ validators })`.
+ * Works with `File` objects and with files stored by the upload interceptors.
+ *
+ * @example
+ * class PdfPageLimitValidator extends FileValidator<{ maxPages: number }> {
+ *   async isValid(file: StoredFile) {
+ *     return countPages(file.buffer) <= this.validationOptions.maxPages;
+ *   }
+ *   buildErrorMessage() {
+ *     return `PDF has more than ${this.validationOptions.maxPages} pages`;
+ *   }
+ * }
+ */
+export abstract class FileValidator<TOptions = Record<string, any>> {
+  constructor(protected readonly validationOptions: TOptions) {}
+
+  abstract isValid(file: any): boolean | Promise<boolean>;
+
+  abstract buildErrorMessage(file: any): string;
+}
+
+/**
+ * Read the first `length` bytes of an uploaded file: a `File` / `Blob`, a
+ * file kept in memory (`buffer`) or written to disk (`path`).
+ */
+async function readFileHead(
+  file: any,
+  length: number
+): Promise<Uint8Array | undefined> {
+  if (file?.buffer instanceof Uint8Array) {
+    return file.buffer.subarray(0, length);
+  }
+  if (typeof file?.slice === "function" && typeof file?.arrayBuffer === "function") {
+    return new Uint8Array(await file.slice(0, length).arrayBuffer());
+  }
+  if (typeof file?.path === "string") {
+    try {
+      return new Uint8Array(await Bun.file(file.path).slice(0, length).arrayBuffer());
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+function hasBytes(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  if (bytes.length < offset + signature.length) return false;
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+function hasText(bytes: Uint8Array, text: string, offset = 0): boolean {
+  return hasBytes(
+    bytes,
+    Array.from(text, (char) => char.charCodeAt(0)),
+    offset
+  );
+}
+
+// Tags browsers sniff as HTML (WHATWG MIME Sniffing), case-insensitive
+const HTML_PATTERN =
+  /^<(?:!doctype html|html|head|body|script|iframe|h1|div|font|table|a|style|title|b|br|p|!--)[\s>/]/i;
+
+function detectTextType(bytes: Uint8Array): string | undefined {
+  const head = bytes.subarray(0, 512);
+  for (const byte of head) {
+    // Control characters other than \t \n \f \r and ESC mean binary data
+    if (byte < 0x09 || (byte > 0x0d && byte < 0x20 && byte !== 0x1b)) {
+      return undefined;
+    }
+  }
+  const text = Buffer.from(head)
+    .toString("utf8")
+    .replace(/^\uFEFF/, "")
+    .trimStart();
+  if (HTML_PATTERN.test(text)) return "text/html";
+  if (/^<svg[\s>]/i.test(text)) return "image/svg+xml";
+  if (/^<\?xml[\s?]/i.test(text)) {
+    return /<svg[\s>]/i.test(text) ? "image/svg+xml" : "application/xml";
+  }
+  return "text/plain";
+}
+
+/**
+ * Detect the type of a file from its first bytes (magic numbers). Returns
+ * `"text/plain"` for text without a known signature and `undefined` for
+ * unknown binary data.
+ *
+ * @example
+ * detectFileType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])); // "image/png"
+ */
+export function detectFileType(bytes: Uint8Array): string | undefined {
+  if (hasBytes(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    return "image/png";
+  }
+  if (hasBytes(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg";
+  if (hasText(bytes, "GIF87a") || hasText(bytes, "GIF89a")) return "image/gif";
+  if (hasText(bytes, "RIFF")) {
+    if (hasText(bytes, "WEBP", 8)) return "image/webp";
+    if (hasText(bytes, "WAVE", 8)) return "audio/wav";
+    if (hasText(bytes, "AVI ", 8)) return "video/x-msvideo";
+  }
+  if (hasText(bytes, "ftyp", 4)) {
+    const brand = Buffer.from(bytes.subarray(8, 12)).toString("latin1");
+    if (brand === "avif" || brand === "avis") return "image/avif";
+    if (["heic", "heix", "mif1", "msf1"].includes(brand)) return "image/heic";
+    if (brand === "qt  ") return "video/quicktime";
+    return "video/mp4";
+  }
+  if (hasText(bytes, "BM") && bytes.length >= 26) return "image/bmp";
+  if (hasBytes(bytes, [0x49, 0x49, 0x2a, 0x00]) || hasBytes(bytes, [0x4d, 0x4d, 0x00, 0x2a])) {
+    return "image/tiff";
+  }
+  if (hasBytes(bytes, [0x00, 0x00, 0x01, 0x00])) return "image/x-icon";
+  if (hasText(bytes, "%PDF-")) return "application/pdf";
+  if (hasBytes(bytes, [0x50, 0x4b, 0x03, 0x04])) return "application/zip";
+  if (hasBytes(bytes, [0x1f, 0x8b])) return "application/gzip";
+  if (hasText(bytes, "OggS")) return "audio/ogg";
+  if (hasText(bytes, "fLaC")) return "audio/flac";
+  if (hasText(bytes, "ID3") || (bytes[0] === 0xff && (bytes[1] & 0xe0) === 0xe0)) {
+    return "audio/mpeg";
+  }
+  if (hasBytes(bytes, [0x1a, 0x45, 0xdf, 0xa3])) return "video/webm";
+  if (hasText(bytes, "MZ")) return "application/x-msdownload";
+  if (hasBytes(bytes, [0x7f, 0x45, 0x4c, 0x46])) return "application/x-executable";
+  if (bytes.length === 0) return undefined;
+  return detectTextType(bytes);
+}
+
+/**
+ * Options of `MaxFileSizeValidator`.
+ */
+export interface MaxFileSizeValidatorOptions {
+  /** Maximum size, in bytes. */
+  maxSize: number;
+}
+
+/**
+ * Rejects files larger than `maxSize` bytes.
+ *
+ * @example
+ * new ParseFilePipe({ validators: [new MaxFileSizeValidator({ maxSize: 5_000_000 })] })
+ */
+export class MaxFileSizeValidator extends FileValidator<MaxFileSizeValidatorOptions> {
+  isValid(file: any): boolean {
+    return typeof file?.size === "number" && file.size <= this.validationOptions.maxSize;
+  }
+
+  buildErrorMessage(file: any): string {
+    return `File size ${file?.size} bytes exceeds the maximum of ${this.validationOptions.maxSize} bytes`;
+  }
+}
+
+/**
+ * Options of `FileTypeValidator`.
+ */
+export interface FileTypeValidatorOptions {
+  /**
+   * Allowed types: a MIME type (`"image/png"`), a wildcard (`"image/*"`),
+   * a RegExp, or a list of them.
+   */
+  fileType: string | RegExp | Array<string | RegExp>;
+}
+
+/**
+ * Rejects files whose contents are not of an allowed type. The type is
+ * detected from the file's magic numbers, so an HTML page renamed to
+ * `avatar.png` and sent as `image/png` is rejected. For plain text, which
+ * has no signature, the client's `text/*` type is used (except `text/html`).
+ *
+ * @example
+ * new ParseFilePipe({ validators: [new FileTypeValidator({ fileType: ["image/png", "image/jpeg"] })] })
+ */
+export class FileTypeValidator extends FileValidator<FileTypeValidatorOptions> {
+  private readonly detected = new WeakMap<object, string | undefined>();
+
+  async isValid(file: any): Promise<boolean> {
+    const head = await readFileHead(file, 512);
+    const type = head ? this.resolveType(file, head) : undefined;
+    if (file && typeof file === "object") this.detected.set(file, type);
+    return type !== undefined && this.matches(type);
+  }
+
+  buildErrorMessage(file: any): string {
+    const detected = file && typeof file === "object" ? this.detected.get(file) : undefined;
+    const claimed = file?.type || file?.mimetype;
+    const sentAs =
+      claimed && claimed !== detected ? ` (sent as "${claimed}")` : "";
+    return `File content "${detected ?? "unknown"}"${sentAs} is not an allowed type. Expected ${this.describe()}`;
+  }
+
+  private resolveType(file: any, head: Uint8Array): string | undefined {
+    const detected = detectFileType(head);
+    if (detected !== "text/plain") return detected;
+    const claimed = String(file?.type || file?.mimetype || "")
+      .split(";")[0]
+      .trim()
+      .toLowerCase();
+    return claimed.startsWith("text/") && claimed !== "text/html"
+      ? claimed
+      : detected;
+  }
+
+  private matches(type: string): boolean {
+    const patterns = Array.isArray(this.validationOptions.fileType)
+      ? this.validationOptions.fileType
+      : [this.validationOptions.fileType];
+    return patterns.some((pattern) => {
+      if (pattern instanceof RegExp) return pattern.test(type);
+      const expected = pattern.toLowerCase();
+      return expected.endsWith("/*")
+        ? type.startsWith(expected.slice(0, -1))
+        : type === expected;
+    });
+  }
+
+  private describe(): string {
+    const patterns = Array.isArray(this.validationOptions.fileType)
+      ? this.validationOptions.fileType
+      : [this.validationOptions.fileType];
+    return patterns
+      .map((pattern) => (pattern instanceof RegExp ? String(pattern) : `"${pattern}"`))
+      .join(" or ");
+  }
+}
+
+/**
+ * Width and height of a PNG, JPEG, GIF, WebP or BMP image, read from its
+ * header; `undefined` for other formats or truncated headers.
+ */
+function getImageDimensions(
+  bytes: Uint8Array
+): { width: number; height: number } | undefined {
+  const data = Buffer.from(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const type = detectFileType(bytes);
+
+  if (type === "image/png" && data.length >= 24 && hasText(bytes, "IHDR", 12)) {
+    return { width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (type === "image/gif" && data.length >= 10) {
+    return { width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (type === "image/bmp") {
+    return { width: Math.abs(data.readInt32LE(18)), height: Math.abs(data.readInt32LE(22)) };
+  }
+  if (type === "image/webp" && data.length >= 30) {
+    const chunk = data.toString("latin1", 12, 16);
+    if (chunk === "VP8 ") {
+      return {
+        width: data.readUInt16LE(26) & 0x3fff,
+        height: data.readUInt16LE(28) & 0x3fff,
+      };
+    }
+    if (chunk === "VP8L") {
+      const bits = data.readUInt32LE(21);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === "VP8X") {
+      return { width: data.readUIntLE(24, 3) + 1, height: data.readUIntLE(27, 3) + 1 };
+    }
+    return undefined;
+  }
+  if (type === "image/jpeg") {
+    let offset = 2;
+    while (offset + 9 <= data.length) {
+      if (data[offset] !== 0xff) return undefined;
+      const marker = data[offset + 1];
+      if (marker === 0xff) {
+        offset++;
+        continue;
+      }
+      // Start of frame markers, except DHT (C4), JPG (C8) and DAC (CC)
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { width: data.readUInt16BE(offset + 7), height: data.readUInt16BE(offset + 5) };
+      }
+      // Markers without a length
+      if (marker === 0x01 || (marker >= 0xd0 && marker <= 0xd8)) {
+        offset += 2;
+        continue;
+      }
+      offset += 2 + data.readUInt16BE(offset + 2);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Options of `ImageDimensionsValidator`, in pixels.
+ */
+export interface ImageDimensionsValidatorOptions {
+  minWidth?: number;
+  maxWidth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+}
+
+// JPEG metadata (EXIF, ICC profiles) may precede the frame header
+const IMAGE_HEAD_SIZE = 256 * 1024;
+
+/**
+ * Rejects images outside the given dimensions, read from the image header
+ * (PNG, JPEG, GIF, WebP and BMP). Files whose dimensions cannot be read are
+ * rejected too.
+ *
+ * @example
+ * new ParseFilePipe({
+ *   validators: [new ImageDimensionsValidator({ maxWidth: 4096, maxHeight: 4096 })],
+ * })
+ */
+export class ImageDimensionsValidator extends FileValidator<ImageDimensionsValidatorOptions> {
+  private readonly dimensions = new WeakMap<object, { width: number; height: number } | undefined>();
+
+  async isValid(file: any): Promise<boolean> {
+    const head = await readFileHead(file, IMAGE_HEAD_SIZE);
+    const dimensions = head ? getImageDimensions(head) : undefined;
+    if (file && typeof file === "object") this.dimensions.set(file, dimensions);
+    return dimensions !== undefined && this.violations(dimensions).length === 0;
+  }
+
+  buildErrorMessage(file: any): string {
+    const dimensions = file && typeof file === "object" ? this.dimensions.get(file) : undefined;
+    if (!dimensions) return "Image dimensions could not be read";
+    const { width, height } = dimensions;
+    return `Image is ${width}x${height} pixels; it must be ${this.violations(dimensions).join(" and ")}`;
+  }
+
+  private violations({ width, height }: { width: number; height: number }): string[] {
+    const { minWidth, maxWidth, minHeight, maxHeight } = this.validationOptions;
+    const violations: string[] = [];
+    if (minWidth !== undefined && width < minWidth) violations.push(`at least ${minWidth} pixels wide`);
+    if (maxWidth !== undefined && width > maxWidth) violations.push(`at most ${maxWidth} pixels wide`);
+    if (minHeight !== undefined && height < minHeight) violations.push(`at least ${minHeight} pixels high`);
+    if (maxHeight !== undefined && height > maxHeight) violations.push(`at most ${maxHeight} pixels high`);
+    return violations;
+  }
+}
+
+/**
+ * Options of `sanitizeFilename()`.
+ */
+export interface SanitizeFilenameOptions {
+  /** Replaces unsafe characters. Defaults to `"_"`. */
+  replacement?: string;
+  /** Maximum length in characters, keeping the extension. Defaults to 255. */
+  maxLength?: number;
+}
+
+const WINDOWS_RESERVED_NAME = /^(?:con|prn|aux|nul|com\d|lpt\d)(?:\..*)?$/i;
+
+/**
+ * Make a client-supplied file name safe to store: drops directories,
+ * replaces control and reserved characters, strips leading dots and
+ * trailing dots and spaces, and avoids Windows device names. Returns
+ * `"file"` when nothing is left.
+ *
+ * @example
+ * sanitizeFilename("../../etc/passwd"); // "passwd"
+ * sanitizeFilename("my<report>.pdf"); // "my_report_.pdf"
+ */
+export function sanitizeFilename(
+  filename: string,
+  options: SanitizeFilenameOptions = {}
+): string {
+  const replacement = options.replacement ?? "_";
+  const maxLength = options.maxLength ?? 255;
+
+  let name = String(filename ?? "")
+    .normalize("NFC")
+    .split(/[/\\]/)
+    .pop()!
+    .replace(/[\u0000-\u001f\u007f<>:"|?*]/g, replacement)
+    .replace(/\s+/g, " ")
+    .replace(/^[.\s]+/, "")
+    .replace(/[.\s]+$/, "");
+
+  if (WINDOWS_RESERVED_NAME.test(name)) name = `${replacement}${name}`;
+
+  if (name.length > maxLength) {
+    const dot = name.lastIndexOf(".");
+    const extension = dot > 0 && name.length - dot <= 16 ? name.slice(dot) : "";
+    name = name.slice(0, maxLength - extension.length) + extension;
+  }
+
+  return name || "file";
+}
@@ -1,9 +1,11 @@
 import {
+  FileValidationException,
   HttpException,
   NotFoundException,
   WynkExceptionFilter,
 } from "../decorators/exception.decorators";
 import { ExecutionContext } from "../decorators/guard.decorators";
+import { Logger } from "../logger";
 
 /**
  * Database Exception Filter - Handles database errors ONLY (not HttpExceptions)
@@ -154,6 +156,10 @@ export class NotFoundExceptionFilter
 
 /**
  * File Upload Exception Filter - Handles file upload errors
+ *
+ * `ParseFilePipe` failures are answered with the failed checks of each file
+ * under `files`.
+ *
  * @example
  * @UseFilters(FileUploadExceptionFilter)
  * @Post('/upload')
@@ -164,6 +170,17 @@ export class FileUploadExceptionFilter implements WynkExceptionFilter {
     const _response = context.getResponse();
     const request = context.getRequest();
 
+    if (exception instanceof FileValidationException) {
+      return {
+        statusCode: 400,
+        error: "File Upload Error",
+        message: exception.message,
+        files: exception.files,
+        timestamp: new Date().toISOString(),
+        path: request.url,
+      };
+    }
+
     // Don't catch HttpException or its subclasses
     if (exception instanceof HttpException) {
       throw exception;
@@ -195,6 +212,8 @@ export class FileUploadExceptionFilter implements WynkExceptionFilter {
  * app.useGlobalFilters(new GlobalExceptionFilter());
  */
 export class GlobalExceptionFilter implements WynkExceptionFilter {
+  private readonly logger = new Logger("GlobalExceptionFilter");
+
   catch(exception: any, context: ExecutionContext) {
     const _response = context.getResponse();
     const request = context.getRequest();
@@ -203,12 +222,10 @@ export class GlobalExceptionFilter implements WynkExceptionFilter {
     const message = exception.message || "Internal server error";
 
     // Log the error for debugging
-    console.error("❌ Unhandled exception:", {
+    this.logger.error(`Unhandled exception: ${message}`, exception, {
       statusCode,
-      message,
       path: request.url,
       method: request.method,
-      stack: exception.stack,
     });
 
     return {
@@ -0,0 +1,543 @@
+import {
+  createExecutionContext,
+  executeGuards,
+} from "./decorators/guard.decorators";
+import { executeInterceptors } from "./decorators/interceptor.decorators";
+import { executePipes, ArgumentMetadata } from "./decorators/pipe.decorators";
+import {
+  executeExceptionFilters,
+  HttpException,
+} from "./decorators/exception.decorators";
+import { ParamMetadata } from "./decorators/param.decorators";
+import { Logger } from "./logger";
+
+/**
+ * WebSocket Gateway runtime for WynkJS Framework
+ * Clients, rooms and message dispatch behind Elysia's `ws` handlers
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * A message sent over a gateway connection, in both directions.
+ */
+export interface WsResponse<T = any> {
+  event: string;
+  data: T;
+}
+
+/**
+ * Data of the HTTP upgrade request a client connected with.
+ */
+export interface WsHandshake {
+  url: string;
+  headers: Record<string, string | undefined>;
+  query: Record<string, string | undefined>;
+  params: Record<string, string | undefined>;
+  /** The upgrade request itself. */
+  request: globalThis.Request;
+}
+
+/**
+ * Exception for WebSocket handlers. The client receives it as an `exception`
+ * event with `{ status: "error", message }` (or the given object) as data.
+ *
+ * @example
+ * throw new WsException("Room is full");
+ * throw new WsException({ message: "Room is full", room });
+ */
+export class WsException extends Error {
+  constructor(private readonly error: string | Record<string, any>) {
+    super(typeof error === "string" ? error : error.message || "WebSocket error");
+    this.name = "WsException";
+  }
+
+  getError(): string | Record<string, any> {
+    return this.error;
+  }
+}
+
+/**
+ * A client connected to a gateway.
+ */
+export class WsClient {
+  /** State attached by guards or handlers, e.g. the authenticated user. */
+  readonly data: Record<string, any> = {};
+
+  constructor(
+    readonly id: string,
+    readonly handshake: WsHandshake,
+    private readonly socket: any,
+    private readonly server: WsServer
+  ) {}
+
+  /** The underlying Bun `ServerWebSocket`. */
+  get raw(): any {
+    return this.socket;
+  }
+
+  /** Rooms this client has joined. */
+  get rooms(): string[] {
+    return this.server.getRoomsOf(this);
+  }
+
+  /** `true` while the connection is open. */
+  get connected(): boolean {
+    return this.socket.readyState === 1;
+  }
+
+  /**
+   * Send an event to this client.
+   */
+  emit(event: string, data?: any): void {
+    if (!this.connected) return;
+    this.socket.send(JSON.stringify({ event, data }));
+  }
+
+  /** Join one or more rooms. */
+  join(...rooms: string[]): void {
+    for (const room of rooms) this.server.join(this, room);
+  }
+
+  /** Leave one or more rooms. */
+  leave(...rooms: string[]): void {
+    for (const room of rooms) this.server.leave(this, room);
+  }
+
+  /**
+   * Broadcast to the members of a room, except this client.
+   *
+   * @example
+   * client.to("general").emit("message", text);
+   */
+  to(...rooms: string[]): WsBroadcast {
+    return this.server.to(...rooms).except(this);
+  }
+
+  /** Close the connection. */
+  disconnect(code: number = 1000, reason?: string): void {
+    this.socket.close(code, reason);
+  }
+}
+
+/**
+ * Selects the clients a message is broadcast to.
+ */
+export class WsBroadcast {
+  constructor(
+    private readonly server: WsServer,
+    private readonly rooms: string[] = [],
+    private readonly excluded: WsClient[] = []
+  ) {}
+
+  /** Add rooms; members of any of them receive the message. */
+  to(...rooms: string[]): WsBroadcast {
+    return new WsBroadcast(this.server, [...this.rooms, ...rooms], this.excluded);
+  }
+
+  /** Leave clients out of the broadcast. */
+  except(...clients: WsClient[]): WsBroadcast {
+    return new WsBroadcast(this.server, this.rooms, [...this.excluded, ...clients]);
+  }
+
+  /**
+   * Send an event to the selected clients.
+   *
+   * @returns The number of clients the event was sent to
+   */
+  emit(event: string, data?: any): number {
+    const recipients = new Set<WsClient>();
+    const sources =
+      this.rooms.length > 0
+        ? this.rooms.map((room) => this.server.getClients(room))
+        : [this.server.getClients()];
+    for (const clients of sources) {
+      for (const client of clients) {
+        if (!this.excluded.includes(client)) recipients.add(client);
+      }
+    }
+    for (const client of recipients) client.emit(event, data);
+    return recipients.size;
+  }
+}
+
+/**
+ * The clients and rooms of one gateway. Inject it with `@WebSocketServer()`.
+ */
+export class WsServer {
+  private readonly clients = new Set<WsClient>();
+  private readonly rooms = new Map<string, Set<WsClient>>();
+
+  constructor(readonly path: string) {}
+
+  /**
+   * Connected clients, or the members of `room`.
+   */
+  getClients(room?: string): WsClient[] {
+    if (room === undefined) return [...this.clients];
+    return [...(this.rooms.get(room) ?? [])];
+  }
+
+  /** Rooms `client` has joined. */
+  getRoomsOf(client: WsClient): string[] {
+    const rooms: string[] = [];
+    for (const [room, members] of this.rooms) {
+      if (members.has(client)) rooms.push(room);
+    }
+    return rooms;
+  }
+
+  /** Send an event to every connected client. */
+  emit(event: string, data?: any): number {
+    return new WsBroadcast(this).emit(event, data);
+  }
+
+  /** Broadcast to the members of one or more rooms. */
+  to(...rooms: string[]): WsBroadcast {
+    return new WsBroadcast(this, rooms);
+  }
+
+  /** Broadcast to every client but the given ones. */
+  except(...clients: WsClient[]): WsBroadcast {
+    return new WsBroadcast(this, [], clients);
+  }
+
+  /** Add `client` to `room`; same as `client.join(room)`. */
+  join(client: WsClient, room: string): void {
+    let members = this.rooms.get(room);
+    if (!members) {
+      members = new Set();
+      this.rooms.set(room, members);
+    }
+    members.add(client);
+  }
+
+  /** Remove `client` from `room`; empty rooms are dropped. */
+  leave(client: WsClient, room: string): void {
+    const members = this.rooms.get(room);
+    if (!members) return;
+    members.delete(client);
+    if (members.size === 0) this.rooms.delete(room);
+  }
+
+  /** Track a newly connected client. */
+  addClient(client: WsClient): void {
+    this.clients.add(client);
+  }
+
+  /** Forget a disconnected client and remove it from its rooms. */
+  removeClient(client: WsClient): void {
+    this.clients.delete(client);
+    for (const room of this.getRoomsOf(client)) this.leave(client, room);
+  }
+}
+
+/**
+ * A `@SubscribeMessage()` handler with its resolved enhancers.
+ */
+export interface GatewayHandlerDefinition {
+  event: string;
+  methodName: string | symbol;
+  params: ParamMetadata[];
+  guards: any[];
+  interceptors: any[];
+  pipes: any[];
+  filters: any[];
+}
+
+export interface GatewayBuildOptions {
+  instance: any;
+  GatewayClass: any;
+  server: WsServer;
+  handlers: GatewayHandlerDefinition[];
+}
+
+const logger = new Logger("WebSocketGateway");
+
+/**
+ * Convert an exception into the data of an `exception` event.
+ */
+export function toWsError(error: any): Record<string, any> {
+  if (error instanceof WsException) {
+    const details = error.getError();
+    return typeof details === "string"
+      ? { status: "error", message: details }
+      : { status: "error", ...details };
+  }
+  if (error instanceof HttpException) {
+    return { status: "error", ...error.getResponse() };
+  }
+  logger.error("Unhandled exception in WebSocket handler", error);
+  return { status: "error", message: "Internal server error" };
+}
+
+function isWsResponse(value: any): value is WsResponse {
+  return (
+    value !== null &&
+    typeof value === "object" &&
+    typeof value.event === "string" &&
+    "data" in value
+  );
+}
+
+function parsePacket(message: any): WsResponse | undefined {
+  let packet = message;
+  if (typeof message === "string") {
+    try {
+      packet = JSON.parse(message);
+    } catch {
+      return undefined;
+    }
+  }
+  return packet && typeof packet === "object" && typeof packet.event === "string"
+    ? packet
+    : undefined;
+}
+
+/**
+ * Build one message handler, running guards, pipes, interceptors and
+ * exception filters like the HTTP handler builder does.
+ */
+function buildMessageHandler(
+  definition: GatewayHandlerDefinition,
+  options: GatewayBuildOptions
+): (client: WsClient, data: any) => Promise<WsResponse | undefined> {
+  const { instance, GatewayClass, server } = options;
+  const { event, methodName, params, guards, interceptors, pipes, filters } =
+    definition;
+  const method = instance[methodName];
+
+  return async (client, data) => {
+    const ctx: any = {
+      request: client.handshake.request,
+      response: client,
+      client,
+      data,
+      event,
+      headers: client.handshake.headers,
+      params: client.handshake.params,
+      query: client.handshake.query,
+    };
+    const executionContext: any = createExecutionContext(
+      ctx,
+      method,
+      GatewayClass,
+      "ws"
+    );
+    executionContext.switchToWs = () => ({
+      getClient: () => client,
+      getData: () => data,
+      getPattern: () => event,
+    });
+    // Same shape interceptors get for HTTP routes
+    executionContext.path = server.path;
+    executionContext.method = event;
+    executionContext.request = ctx.request;
+    executionContext.body = data;
+    executionContext.params = ctx.params;
+    executionContext.query = ctx.query;
+    executionContext.headers = ctx.headers;
+
+    try {
+      if (guards.length > 0) {
+        const canActivate = await executeGuards(guards, executionContext);
+        if (!canActivate) {
+          throw new WsException("Forbidden resource");
+        }
+      }
+
+      const executeMethod = async (): Promise<any> => {
+        if (params.length === 0) {
+          return await instance[methodName](data, client);
+        }
+
+        const args: any[] = new Array(params.length);
+
+        for (const param of params) {
+          let value: any;
+
+          switch (param.type) {
+            case "message":
+              value = param.data ? data?.[param.data] : data;
+              break;
+            case "socket":
+              value = client;
+              break;
+            case "param":
+              value = param.data ? ctx.params?.[param.data] : ctx.params;
+              break;
+            case "query":
+              value = param.data ? ctx.query?.[param.data] : ctx.query;
+              break;
+            case "headers":
+              value = param.data ? ctx.headers?.[param.data] : ctx.headers;
+              break;
+            case "request":
+              value = ctx.request;
+              break;
+            case "context":
+              value = param.data
+                ? param.data.split(".").reduce((obj, key) => obj?.[key], ctx)
+                : ctx;
+              break;
+            case "user":
+              value = param.data ? client.data.user?.[param.data] : client.data.user;
+              break;
+            case "custom":
+              if (param.factory) {
+                value = await param.factory(param.data, executionContext);
+              }
+              break;
+          }
+
+          if (param.type !== "socket") {
+            const metadata: ArgumentMetadata = {
+              type: (param.type === "message" ? "body" : param.type) as any,
+              data: param.data,
+            };
+            if (pipes.length > 0) {
+              value = await executePipes(pipes, value, metadata);
+            }
+            if (param.pipes && param.pipes.length > 0) {
+              value = await executePipes(param.pipes, value, metadata);
+            }
+          }
+
+          args[param.index] = value;
+        }
+
+        return await instance[methodName](...args);
+      };
+
+      const result =
+        interceptors.length > 0
+          ? await executeInterceptors(interceptors, executionContext, executeMethod)
+          : await executeMethod();
+
+      if (result === undefined) return undefined;
+      return isWsResponse(result) ? result : { event, data: result };
+    } catch (error) {
+      if (filters.length > 0) {
+        try {
+          const result = await executeExceptionFilters(
+            filters,
+            error,
+            executionContext
+          );
+          // A filter returning nothing has answered the client itself
+          return result === undefined
+            ? undefined
+            : { event: "exception", data: result };
+        } catch (filterError) {
+          error = filterError;
+        }
+      }
+
+      return { event: "exception", data: toWsError(error) };
+    }
+  };
+}
+
+/**
+ * Build the Elysia `ws` handlers of a gateway: tracks clients, calls the
+ * connection hooks and dispatches `{ event, data }` messages to the
+ * `@SubscribeMessage()` handlers. Replies are sent to the calling client.
+ */
+export function buildGatewayHandlers(options: GatewayBuildOptions): {
+  open(ws: any): Promise<void>;
+  message(ws: any, message: any): Promise<void>;
+  close(ws: any, code: number, reason: string): Promise<void>;
+} {
+  const { instance, server } = options;
+  const handlers = new Map<
+    string,
+    (client: WsClient, data: any) => Promise<WsResponse | undefined>
+  >();
+  for (const definition of options.handlers) {
+    handlers.set(definition.event, buildMessageHandler(definition, options));
+  }
+
+  // Elysia wraps the same Bun socket in a new object for every callback
+  const connections = new WeakMap<
+    object,
+    { client: WsClient; ready: Promise<boolean> }
+  >();
+
+  return {
+    async open(ws) {
+      const context = ws.data;
+      const request: globalThis.Request = context.request;
+      const client = new WsClient(
+        String(ws.id),
+        {
+          url: request?.url ?? "",
+          headers: context.headers ?? {},
+          query: context.query ?? {},
+          params: context.params ?? {},
+          request,
+        },
+        ws.raw,
+        server
+      );
+      server.addClient(client);
+
+      const ready = (async () => {
+        if (typeof instance.handleConnection !== "function") return true;
+        try {
+          await instance.handleConnection(client);
+          return true;
+        } catch (error) {
+          const data = toWsError(error);
+          client.emit("exception", data);
+          client.disconnect(1008, String(data.message ?? "").slice(0, 120));
+          return false;
+        }
+      })();
+      connections.set(ws.raw, { client, ready });
+      await ready;
+    },
+
+    async message(ws, message) {
+      const connection = connections.get(ws.raw);
+      if (!connection || !(await connection.ready)) return;
+      const { client } = connection;
+
+      const packet = parsePacket(message);
+      if (!packet) {
+        client.emit("exception", {
+          status: "error",
+          message: 'Messages must be JSON objects like {"event": "...", "data": ...}',
+        });
+        return;
+      }
+
+      const handler = handlers.get(packet.event);
+      if (!handler) {
+        logger.debug(`No handler for event "${packet.event}"`, {
+          path: server.path,
+        });
+        return;
+      }
+
+      const reply = await handler(client, packet.data);
+      if (reply) client.emit(reply.event, reply.data);
+    },
+
+    async close(ws, code, reason) {
+      const connection = connections.get(ws.raw);
+      if (!connection) return;
+      connections.delete(ws.raw);
+
+      const { client, ready } = connection;
+      server.removeClient(client);
+      // Clients rejected by handleConnection never counted as connected
+      if (!(await ready)) return;
+      if (typeof instance.handleDisconnect === "function") {
+        try {
+          await instance.handleDisconnect(client, code, reason);
+        } catch (error) {
+          logger.error("handleDisconnect failed", error as Error);
+        }
+      }
+    },
+  };
+}
@@ -1,4 +1,5 @@
 import { Elysia } from "elysia";
+import { Logger } from "./logger";
 
 /**
  * Global Prefix Module for WynkJS Framework
@@ -6,6 +7,8 @@ import { Elysia } from "elysia";
  * Separated from factory.ts for better maintainability
  */
 
+const logger = new Logger("GlobalPrefix");
+
 export interface GlobalPrefixOptions {
   prefix: string;
   exclude?: string[]; // Routes to exclude from prefix (e.g., ['/health', '/metrics'])
@@ -37,8 +40,8 @@ export function applyGlobalPrefix(
   prefixStr = normalizePrefixPath(prefixStr);
 
   if (!prefixStr) {
-    console.warn(
-      "⚠️  Global prefix is empty after normalization. Skipping prefix setup.",
+    logger.warn(
+      "Global prefix is empty after normalization. Skipping prefix setup.",
     );
     return app;
   }
@@ -47,11 +50,10 @@ export function applyGlobalPrefix(
     new Elysia({ prefix: prefixStr }).use(app),
   );
 
-  console.log(`✅ Global prefix applied: ${prefixStr}`);
-
-  if (excludedRoutes.length > 0) {
-    console.log(`   Excluded routes: ${excludedRoutes.join(", ")}`);
-  }
+  logger.log(
+    `Global prefix applied: ${prefixStr}`,
+    excludedRoutes.length > 0 ? { excludedRoutes } : undefined,
+  );
 
   return prefixedApp;
 }
@@ -157,11 +159,10 @@ export function wrapWithPrefix(
     }).use(app),
   );
 
-  console.log(`✅ Wrapped existing app with prefix: ${prefixStr}`);
-
-  if (excludedRoutes.length > 0) {
-    console.log(`   Excluded routes: ${excludedRoutes.join(", ")}`);
-  }
+  logger.log(
+    `Wrapped existing app with prefix: ${prefixStr}`,
+    excludedRoutes.length > 0 ? { excludedRoutes } : undefined,
+  );
 
   return wrapper;
 }
@@ -0,0 +1,180 @@
+import { NotFoundException } from "./decorators/exception.decorators";
+import { selectVersionCandidate } from "./versioning";
+
+/**
+ * Host-based routing for WynkJS Framework
+ * Restricts controllers to hosts given to `@Controller({ host })`
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * Host pattern accepted by `@Controller({ host })`: a hostname with optional
+ * `:param` labels (e.g. `':account.example.com'`), a RegExp tested against the
+ * hostname (named groups become host params), or a list of either.
+ */
+export type HostPattern = string | RegExp | Array<string | RegExp>;
+
+/**
+ * Returns the host params of `hostname` when it matches, `undefined` otherwise.
+ */
+export type HostMatcher = (
+  hostname: string
+) => Record<string, string> | undefined;
+
+/**
+ * A route handler registered for a method and path, optionally restricted
+ * to hosts and versions.
+ */
+export interface HostRouteCandidate {
+  handler: (ctx: any) => any;
+  match?: HostMatcher;
+  /** Versions served with header or media type versioning; unset when version-neutral. */
+  versions?: Array<string | symbol>;
+  options: any;
+  /** `Controller.method`, for error messages. */
+  name: string;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function compileHostString(pattern: string): HostMatcher {
+  const names: string[] = [];
+  const source = pattern
+    .toLowerCase()
+    .split(".")
+    .map((label) => {
+      if (label.startsWith(":") && label.length > 1) {
+        names.push(label.slice(1));
+        return "([^.]+)";
+      }
+      return escapeRegExp(label);
+    })
+    .join("\\.");
+  const regex = new RegExp(`^${source}$`);
+
+  return (hostname) => {
+    const match = regex.exec(hostname);
+    if (!match) return undefined;
+    const params: Record<string, string> = {};
+    names.forEach((name, index) => {
+      params[name] = match[index + 1];
+    });
+    return params;
+  };
+}
+
+function compileHostRegExp(pattern: RegExp): HostMatcher {
+  return (hostname) => {
+    pattern.lastIndex = 0;
+    const match = pattern.exec(hostname);
+    return match ? { ...(match.groups ?? {}) } : undefined;
+  };
+}
+
+/**
+ * Compile a host pattern into a matcher. Hostnames are compared without the
+ * port and case-insensitively (for string patterns).
+ *
+ * @example
+ * const match = createHostMatcher(":account.example.com");
+ * match("acme.example.com"); // { account: "acme" }
+ * match("example.com"); // undefined
+ */
+export function createHostMatcher(host: HostPattern): HostMatcher {
+  const matchers = (Array.isArray(host) ? host : [host]).map((pattern) =>
+    pattern instanceof RegExp
+      ? compileHostRegExp(pattern)
+      : compileHostString(pattern)
+  );
+
+  return (hostname) => {
+    for (const match of matchers) {
+      const params = match(hostname);
+      if (params) return params;
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Hostname of the current request, lowercased and without the port.
+ */
+export function getRequestHostname(ctx: any): string {
+  const request = ctx.request;
+  const header: string | null | undefined = request?.headers?.get?.("host");
+  if (header) {
+    // Strip the port, keeping bracketed IPv6 addresses intact
+    return header.replace(/:\d+$/, "").toLowerCase();
+  }
+  try {
+    return new URL(request?.url ?? ctx.url).hostname.toLowerCase();
+  } catch {
+    return "";
+  }
+}
+
+const SCHEMA_KEYS = ["body", "query", "params", "headers"];
+
+/**
+ * Combine handlers registered for the same method and path into one: the
+ * first candidate whose host matches handles the request, with its host
+ * params in `ctx.host`; candidates without a host pattern handle all other
+ * hosts. With `extractVersion`, candidates serving the requested version are
+ * preferred over version-neutral ones. Requests matching no candidate get a 404.
+ *
+ * @throws Error when the candidates declare different validation schemas,
+ *   since Elysia validates once per path
+ */
+export function createRouteDispatcher(
+  method: string,
+  path: string,
+  candidates: HostRouteCandidate[],
+  extractVersion?: (ctx: any) => string | undefined
+): (ctx: any) => any {
+  const [first] = candidates;
+  for (const candidate of candidates.slice(1)) {
+    for (const key of SCHEMA_KEYS) {
+      if (
+        JSON.stringify(candidate.options?.[key]) !==
+        JSON.stringify(first.options?.[key])
+      ) {
+        throw new Error(
+          `${candidate.name} and ${first.name} both handle ${method} ${path} but declare different ${key} schemas. Routes sharing a path must share their validation schemas.`
+        );
+      }
+    }
+  }
+
+  const hosted = candidates.filter((candidate) => candidate.match);
+  const hostless = candidates.filter((candidate) => !candidate.match);
+
+  return (ctx: any) => {
+    const hostname = hosted.length > 0 ? getRequestHostname(ctx) : "";
+    const eligible: Array<{
+      candidate: HostRouteCandidate;
+      params?: Record<string, string>;
+      versions?: Array<string | symbol>;
+    }> = [];
+    for (const candidate of hosted) {
+      const params = candidate.match!(hostname);
+      if (params) eligible.push({ candidate, params, versions: candidate.versions });
+    }
+    for (const candidate of hostless) {
+      eligible.push({ candidate, versions: candidate.versions });
+    }
+
+    const selected = extractVersion
+      ? selectVersionCandidate(eligible, extractVersion(ctx))
+      : eligible[0];
+    if (selected) {
+      if (selected.params) ctx.host = selected.params;
+      return selected.candidate.handler(ctx);
+    }
+
+    const error = new NotFoundException(`Cannot ${method} ${ctx.path ?? path}`);
+    ctx.set.status = error.getStatus();
+    return error.getResponse();
+  };
+}
@@ -24,7 +24,6 @@ export type { DependencyContainer } from "tsyringe";
 
 // Capital-cased aliases for consistency with WynkJS naming convention
 export {
-  injectable as Injectable,
   inject as Inject,
   singleton as Singleton,
   autoInjectable as AutoInjectable,
@@ -45,10 +44,37 @@ export * from "./decorators/guard.decorators";
 export * from "./decorators/interceptor.decorators";
 export * from "./decorators/interceptor.advanced";
 
+// File Uploads
+export type {
+  DiskStorageOptions,
+  IncomingFile,
+  StorageEngine,
+  StoredFile,
+  UploadField,
+  UploadLimits,
+  UploadOptions,
+} from "./upload";
+export {
+  diskStorage,
+  FileFieldsInterceptor,
+  FileInterceptor,
+  FilesInterceptor,
+  memoryStorage,
+} from "./upload";
+
+// Serialization (@Exclude, @Expose, @Transform, ClassSerializerInterceptor)
+export * from "./decorators/serializer.decorators";
+
 // Metadata System (@SetMetadata, Reflector, applyDecorators, createParamDecorator)
 export * from "./decorators/metadata.decorators";
 
-// DI Decorators (@Optional)
+// OpenAPI Decorators (@ApiOperation, @ApiResponse, @ApiTags, @ApiBearerAuth, ...)
+export * from "./decorators/openapi.decorators";
+
+// WebSocket Gateway Decorators (@WebSocketGateway, @SubscribeMessage, @WebSocketServer)
+export * from "./decorators/gateway.decorators";
+
+// DI Decorators (@Injectable, @Optional, Scope, REQUEST)
 export * from "./decorators/di.decorators";
 
 // Pipe System
@@ -56,6 +82,22 @@ export * from "./decorators/pipe.decorators";
 export * from "./decorators/pipe.advanced";
 // Note: validation.pipe.ts is deprecated, use pipe.decorators.ts instead
 
+// File Validators
+export type {
+  FileTypeValidatorOptions,
+  ImageDimensionsValidatorOptions,
+  MaxFileSizeValidatorOptions,
+  SanitizeFilenameOptions,
+} from "./file-validators";
+export {
+  detectFileType,
+  FileTypeValidator,
+  FileValidator,
+  ImageDimensionsValidator,
+  MaxFileSizeValidator,
+  sanitizeFilename,
+} from "./file-validators";
+
 // Exception Filters
 export * from "./decorators/exception.decorators";
 export * from "./decorators/formatter.decorators";
@@ -80,6 +122,7 @@ export { Response } from "./response";
 export type { WynkRequest } from "./request";
 export type { WynkResponse } from "./response";
 export type { CookieOptions } from "./response";
+export type { EtagMode, EtagOptions } from "./response";
 // Also export as types for type annotations
 export type { Request as RequestType } from "./request";
 export type { Response as ResponseType } from "./response";
@@ -93,6 +136,10 @@ export * from "./factory";
 // Module System (@Module, @Global, ModuleMetadata, DynamicModule)
 export * from "./module";
 
+// Static Files Module
+export type { ServeStaticOptions } from "./serve-static";
+export { SERVE_STATIC_OPTIONS, ServeStaticModule } from "./serve-static";
+
 // Lifecycle Hook Interfaces
 export * from "./interfaces/lifecycle.interface";
 
@@ -115,6 +162,115 @@ export {
   wrapWithPrefix,
 } from "./global-prefix";
 
+// Logger Module
+export type {
+  LogEntry,
+  LogLevel,
+  LoggerOptions,
+  LogTransport,
+} from "./logger";
+export {
+  ConsoleTransport,
+  formatLogEntry,
+  Logger,
+  runWithLogFields,
+} from "./logger";
+
+// Request Logging Module
+export {
+  REQUEST_ID_HEADER,
+  resolveRequestId,
+  setupRequestLogging,
+} from "./request-logging";
+
+// Server-Sent Events Module
+export type { SseMessage, SseStreamOptions } from "./sse";
+export {
+  createSseHandler,
+  createSseResponse,
+  formatSseMessage,
+  isSseSource,
+  SSE_KEEP_ALIVE_INTERVAL,
+} from "./sse";
+
+// File Streaming Module
+export type {
+  StreamableFileOptions,
+  StreamableFileSource,
+} from "./streamable-file";
+export { contentDisposition, StreamableFile } from "./streamable-file";
+
+// Host Routing Module
+export type { HostMatcher, HostPattern } from "./host-routing";
+export { createHostMatcher, getRequestHostname } from "./host-routing";
+
+// Versioning Module
+export type { VersioningOptions, VersionValue } from "./versioning";
+export { VERSION_NEUTRAL, VersioningType } from "./versioning";
+
+// Response Schemas
+export type { ResponseValidationMode } from "./response-schema";
+
+// Content Negotiation
+export type {
+  AcceptedMediaType,
+  CsvSerializerOptions,
+  ResponseSerializer,
+  XmlSerializerOptions,
+} from "./content-negotiation";
+export {
+  CsvSerializer,
+  JsonSerializer,
+  MessagePackSerializer,
+  negotiateMediaType,
+  parseAccept,
+  XmlSerializer,
+} from "./content-negotiation";
+
+// Body Parsers
+export type {
+  BodyParser,
+  CsvParserOptions,
+  UrlEncodedParserOptions,
+  XmlParserOptions,
+} from "./body-parser";
+export {
+  CborParser,
+  CsvParser,
+  MessagePackParser,
+  UrlEncodedParser,
+  XmlParser,
+} from "./body-parser";
+
+// Webhook Signatures
+export type {
+  WebhookSignatureHeader,
+  WebhookSignatureOptions,
+} from "./webhook-signature";
+export { WebhookSignatureGuard } from "./webhook-signature";
+
+// WebSocket Gateway Module
+export type { WsHandshake, WsResponse } from "./gateway";
+export {
+  WsBroadcast,
+  WsClient,
+  WsException,
+  WsServer,
+} from "./gateway";
+
+// OpenAPI Module
+export type {
+  OpenApiDocument,
+  OpenApiOptions,
+  OpenApiRoute,
+} from "./openapi";
+export {
+  createOpenApiDocument,
+  createRouteDetail,
+  isResponseStatusMap,
+  toOpenApiPath,
+} from "./openapi";
+
 // Plugins
 export { compression } from "./plugins/compression";
 export type { CompressionOptions } from "./plugins/compression";
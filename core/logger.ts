@@ -0,0 +1,328 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+
+/**
+ * Logger Module for WynkJS Framework
+ * Structured logging with levels, contexts, child loggers, JSON output and
+ * pluggable transports. Framework-internal logs go through it as well, so
+ * `ApplicationOptions.logger` can silence or redirect them.
+ * Separated from factory.ts for better maintainability
+ */
+
+/** Log levels, from most to least verbose. */
+export type LogLevel = "verbose" | "debug" | "log" | "warn" | "error" | "fatal";
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  verbose: 0,
+  debug: 1,
+  log: 2,
+  warn: 3,
+  error: 4,
+  fatal: 5,
+};
+
+/**
+ * A single log record, as handed to transports.
+ */
+export interface LogEntry {
+  /** Severity of the entry. */
+  level: LogLevel;
+  /** Log message. */
+  message: string;
+  /** Logger context, usually the class name (e.g. `"UserService"`). */
+  context?: string;
+  /** ISO-8601 time the entry was created. */
+  timestamp: string;
+  /** Global, `runWithLogFields()`, `child()` and per-call fields, merged. */
+  fields: Record<string, any>;
+  /** Serialized error passed to `error()` / `fatal()`. */
+  error?: { name: string; message: string; stack?: string };
+}
+
+/**
+ * Destination for log entries.
+ *
+ * @example
+ * const lines: string[] = [];
+ * const memory: LogTransport = { write: (_entry, line) => lines.push(line) };
+ * WynkFactory.create({ logger: { json: true, transports: [memory] } });
+ */
+export interface LogTransport {
+  /**
+   * @param entry - The structured entry
+   * @param line - The entry formatted as text or JSON, depending on `LoggerOptions.json`
+   */
+  write(entry: LogEntry, line: string): void;
+}
+
+/**
+ * Options for `Logger.configure()` and `ApplicationOptions.logger`.
+ */
+export interface LoggerOptions {
+  /** Minimum level written (default `"log"`). Pass `false` to silence all logging. */
+  level?: LogLevel | false;
+  /** Format entries as single-line JSON instead of text. */
+  json?: boolean;
+  /** Where entries are written. Defaults to a single `ConsoleTransport`. */
+  transports?: LogTransport[];
+  /** Fields added to every entry (e.g. `{ service: "billing" }`). */
+  fields?: Record<string, any>;
+  /**
+   * Write one access log line per request and assign request IDs
+   * (see `setupRequestLogging`). Only read from `ApplicationOptions.logger`.
+   */
+  requests?: boolean;
+}
+
+/**
+ * Writes formatted lines to the console: `console.error` for `error`/`fatal`,
+ * `console.warn` for `warn` and `console.log` for everything else.
+ */
+export class ConsoleTransport implements LogTransport {
+  write(entry: LogEntry, line: string): void {
+    if (entry.level === "error" || entry.level === "fatal") {
+      console.error(line);
+    } else if (entry.level === "warn") {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  }
+}
+
+/**
+ * Format an entry as one line of text (`[Wynk] LOG [Context] message {fields}`)
+ * or, when `json` is set, as one line of JSON with the fields flattened in.
+ */
+export function formatLogEntry(entry: LogEntry, json = false): string {
+  if (json) {
+    return JSON.stringify({
+      timestamp: entry.timestamp,
+      level: entry.level,
+      context: entry.context,
+      message: entry.message,
+      ...entry.fields,
+      error: entry.error,
+    });
+  }
+
+  let line = `[Wynk] ${entry.level.toUpperCase()}`;
+  if (entry.context) line += ` [${entry.context}]`;
+  line += ` ${entry.message}`;
+  if (Object.keys(entry.fields).length > 0) {
+    line += ` ${JSON.stringify(entry.fields)}`;
+  }
+  if (entry.error) {
+    line += `\n${entry.error.stack || `${entry.error.name}: ${entry.error.message}`}`;
+  }
+  return line;
+}
+
+const logFieldsStorage = new AsyncLocalStorage<Record<string, any>>();
+
+/**
+ * Run `fn` with `fields` added to every entry logged inside it, including
+ * entries logged asynchronously (e.g. `{ requestId }` for a request).
+ */
+export function runWithLogFields<T>(fields: Record<string, any>, fn: () => T): T {
+  return logFieldsStorage.run({ ...logFieldsStorage.getStore(), ...fields }, fn);
+}
+
+interface LoggerConfig {
+  level: LogLevel | false;
+  json: boolean;
+  transports: LogTransport[];
+  fields: Record<string, any>;
+}
+
+const configStorage = new AsyncLocalStorage<LoggerConfig>();
+
+function createConfig(options: LoggerOptions | boolean): LoggerConfig {
+  const resolved = typeof options === "boolean" ? {} : options;
+  return {
+    level: options === false ? false : resolved.level ?? "log",
+    json: resolved.json ?? false,
+    transports: resolved.transports ?? [new ConsoleTransport()],
+    fields: resolved.fields ?? {},
+  };
+}
+
+/**
+ * Structured logger used by the framework and by application code.
+ *
+ * Loggers injected by an application write through its
+ * `ApplicationOptions.logger` configuration, as do framework-internal logs
+ * written while it builds or handles a request. Other loggers use the
+ * process-wide configuration set with `Logger.configure()`. Inject it into
+ * providers, where it takes the name of the class as context, or create one
+ * per class.
+ *
+ * @example
+ * @Injectable()
+ * export class UserService {
+ *   private readonly logger = new Logger(UserService.name);
+ *
+ *   async create(dto: CreateUserDto) {
+ *     const log = this.logger.child({ email: dto.email });
+ *     log.log("Creating user");
+ *     try {
+ *       // ...
+ *     } catch (error) {
+ *       log.error("User creation failed", error);
+ *       throw error;
+ *     }
+ *   }
+ * }
+ */
+export class Logger {
+  private static config: LoggerConfig = createConfig(true);
+  private ownConfig?: LoggerConfig;
+
+  /**
+   * Configure level, format, transports and global fields for every logger
+   * without a configuration of its own (see `Logger.create()`).
+   *
+   * @param options - `LoggerOptions`, `true` for the defaults, or `false` to silence logging
+   */
+  static configure(options: LoggerOptions | boolean = true): void {
+    Logger.config = createConfig(options);
+  }
+
+  /**
+   * Create a logger with its own level, format, transports and global fields,
+   * unaffected by `Logger.configure()`. Its children share them.
+   *
+   * @param options - `LoggerOptions`, `true` for the defaults, or `false` to silence logging
+   * @param context - Shown with every entry, usually the class name
+   */
+  static create(options: LoggerOptions | boolean, context?: string): Logger {
+    const logger = new Logger(context);
+    logger.ownConfig = createConfig(options);
+    return logger;
+  }
+
+  /**
+   * @param context - Shown with every entry, usually the class name
+   * @param fields - Fields bound to every entry written by this logger
+   */
+  constructor(
+    private context?: string,
+    private readonly fields: Record<string, any> = {}
+  ) {}
+
+  /**
+   * Set the context of this logger, e.g. from an injected instance.
+   */
+  setContext(context: string): void {
+    this.context = context;
+  }
+
+  /**
+   * Context of this logger, if any.
+   */
+  getContext(): string | undefined {
+    return this.context;
+  }
+
+  /**
+   * Run `fn` with the configuration of this logger applied to every logger
+   * without one of its own, including in asynchronous work started by `fn`.
+   */
+  runWithConfig<T>(fn: () => T): T {
+    return this.ownConfig ? configStorage.run(this.ownConfig, fn) : fn();
+  }
+
+  /**
+   * Create a logger that adds `fields` to every entry, on top of the fields
+   * already bound to this one.
+   *
+   * @param fields - Fields to bind (e.g. `{ orderId }`)
+   * @param context - Context of the child; defaults to this logger's context
+   */
+  child(fields: Record<string, any>, context: string | undefined = this.context): Logger {
+    const child = new Logger(context, { ...this.fields, ...fields });
+    child.ownConfig = this.ownConfig;
+    return child;
+  }
+
+  /**
+   * Returns `true` when entries of `level` are currently written.
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    const minimum = this.getConfig().level;
+    return minimum !== false && LEVEL_ORDER[level] >= LEVEL_ORDER[minimum];
+  }
+
+  verbose(message: string, fields?: Record<string, any>): void {
+    this.write("verbose", message, fields);
+  }
+
+  debug(message: string, fields?: Record<string, any>): void {
+    this.write("debug", message, fields);
+  }
+
+  log(message: string, fields?: Record<string, any>): void {
+    this.write("log", message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, any>): void {
+    this.write("warn", message, fields);
+  }
+
+  /**
+   * @param error - An `Error` (serialized with its stack), or extra fields
+   */
+  error(message: string, error?: unknown, fields?: Record<string, any>): void {
+    this.write("error", message, fields, error);
+  }
+
+  /**
+   * @param error - An `Error` (serialized with its stack), or extra fields
+   */
+  fatal(message: string, error?: unknown, fields?: Record<string, any>): void {
+    this.write("fatal", message, fields, error);
+  }
+
+  private write(
+    level: LogLevel,
+    message: string,
+    fields?: Record<string, any>,
+    error?: unknown
+  ): void {
+    if (!this.isLevelEnabled(level)) return;
+
+    const config = this.getConfig();
+    const entry: LogEntry = {
+      level,
+      message,
+      context: this.context,
+      timestamp: new Date().toISOString(),
+      fields: {
+        ...config.fields,
+        ...logFieldsStorage.getStore(),
+        ...this.fields,
+        ...fields,
+      },
+    };
+
+    if (error instanceof Error) {
+      entry.error = { name: error.name, message: error.message, stack: error.stack };
+    } else if (error && typeof error === "object") {
+      Object.assign(entry.fields, error);
+    } else if (error !== undefined) {
+      entry.fields.error = error;
+    }
+
+    const line = formatLogEntry(entry, config.json);
+    for (const transport of config.transports) {
+      try {
+        transport.write(entry, line);
+      } catch {
+        // A failing transport must never break the code that logs
+      }
+    }
+  }
+
+  private getConfig(): LoggerConfig {
+    return this.ownConfig ?? configStorage.getStore() ?? Logger.config;
+  }
+}
@@ -0,0 +1,369 @@
+import "reflect-metadata";
+import { DynamicModule, ModuleMetadata } from "./module";
+
+/**
+ * Module Graph for WynkJS Framework
+ * Resolves `imports`, `exports` and `@Global()` into a dependency-ordered list
+ * of modules and enforces provider encapsulation between them.
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * A single module in the application graph.
+ */
+export interface ModuleNode {
+  /** The `@Module()`-decorated class (the host class for dynamic modules). */
+  metatype: any;
+  /** Module name used in route tags and error messages. */
+  name: string;
+  /** Modules listed in this module's `imports`. */
+  imports: ModuleNode[];
+  /** Controllers declared by this module. */
+  controllers: any[];
+  /** WebSocket gateways declared by this module. */
+  gateways: any[];
+  /** Providers declared by this module. */
+  providers: any[];
+  /** Raw `exports` entries — provider tokens or imported modules. */
+  exports: any[];
+  /** `true` when the module is decorated with `@Global()` or returned with `global: true`. */
+  isGlobal: boolean;
+}
+
+/**
+ * Returns the injection token of a provider definition
+ * (the class itself for plain class providers).
+ */
+export function getProviderToken(provider: any): any {
+  if (provider && typeof provider === "object" && "provide" in provider) {
+    return provider.provide;
+  }
+  return provider;
+}
+
+/**
+ * Human-readable name of an injection token, for error messages.
+ */
+export function getTokenName(token: any): string {
+  if (typeof token === "function") return token.name || "anonymous class";
+  if (typeof token === "symbol") return token.toString();
+  return String(token);
+}
+
+/**
+ * Returns `true` when `value` is a `@Module()`-decorated class.
+ */
+export function isModuleClass(value: any): boolean {
+  return (
+    typeof value === "function" &&
+    Reflect.hasOwnMetadata("module:metadata", value)
+  );
+}
+
+/**
+ * Returns `true` when `value` is a `DynamicModule` object returned by a
+ * `forRoot()` / `forFeature()` style method.
+ */
+export function isDynamicModule(value: any): value is DynamicModule {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    typeof (value as DynamicModule).module === "function"
+  );
+}
+
+/**
+ * Lists the constructor dependency tokens of a class, mirroring how tsyringe
+ * reads them: `design:paramtypes`, overridden by `@Inject()` tokens.
+ * Parameters marked `@Optional()` or `{ isOptional: true }` are reported with
+ * `optional: true`.
+ */
+export function getConstructorDependencies(
+  target: any
+): { index: number; token: any; optional: boolean }[] {
+  const paramTypes: any[] = [
+    ...(Reflect.getMetadata("design:paramtypes", target) || []),
+  ];
+  const injectionTokens =
+    Reflect.getOwnMetadata("injectionTokens", target) || {};
+  const optionalParams: number[] =
+    Reflect.getOwnMetadata("optional:params", target) || [];
+
+  const optionalIndexes = new Set<number>(optionalParams);
+  for (const key of Object.keys(injectionTokens)) {
+    const descriptor = injectionTokens[key];
+    if (descriptor && typeof descriptor === "object" && "token" in descriptor) {
+      paramTypes[+key] = descriptor.token;
+      if (descriptor.isOptional) optionalIndexes.add(+key);
+    } else {
+      paramTypes[+key] = descriptor;
+    }
+  }
+
+  return paramTypes.map((token, index) => ({
+    index,
+    token,
+    optional: optionalIndexes.has(index),
+  }));
+}
+
+/**
+ * Resolved module graph for one application.
+ *
+ * Built once per `build()` from the root modules passed to
+ * `WynkFactory.create({ modules })`, which may be module classes or
+ * `DynamicModule` objects. Modules reachable through `imports` are
+ * loaded transitively, and each module can only inject:
+ * - its own providers,
+ * - providers exported by the modules it imports,
+ * - providers exported by `@Global()` modules,
+ * - application-level providers passed to `WynkFactory.create({ providers })`.
+ *
+ * @example
+ * const graph = ModuleGraph.scan([AppModule], [ConfigService]);
+ * graph.validate();
+ * for (const mod of graph.modules) {
+ *   // imported modules come before the modules that import them
+ * }
+ */
+export class ModuleGraph {
+  /** All modules, ordered so every module comes after the modules it imports. */
+  readonly modules: ModuleNode[] = [];
+
+  private readonly nodes = new Map<any, ModuleNode>();
+  private readonly owners = new Map<any, ModuleNode>();
+  private readonly exportCache = new Map<ModuleNode, Set<any>>();
+  private readonly visibleCache = new Map<ModuleNode, Set<any>>();
+  private readonly appTokens: Set<any>;
+  private readonly rootModules: ModuleNode[] = [];
+
+  private constructor(appProviders: any[]) {
+    this.appTokens = new Set(appProviders.map(getProviderToken));
+  }
+
+  /**
+   * Scan root modules (and everything they import) into a graph.
+   *
+   * @param rootModules - Modules passed to `WynkFactory.create({ modules })`
+   * @param appProviders - Application-level providers, visible to every module
+   */
+  static scan(rootModules: any[], appProviders: any[] = []): ModuleGraph {
+    const graph = new ModuleGraph(appProviders);
+    for (const mod of rootModules) {
+      graph.rootModules.push(graph.addModule(mod, []));
+    }
+    return graph;
+  }
+
+  /**
+   * Returns the node created for a module class or `DynamicModule` object,
+   * if it is part of the graph.
+   */
+  getModule(moduleRef: any): ModuleNode | undefined {
+    return this.nodes.get(moduleRef);
+  }
+
+  /**
+   * Tokens that providers and controllers of `node` are allowed to inject.
+   * Pass `undefined` for the application root (top-level controllers), which
+   * sees the exports of every root module.
+   */
+  getVisibleTokens(node?: ModuleNode): Set<any> {
+    if (node && this.visibleCache.has(node)) {
+      return this.visibleCache.get(node)!;
+    }
+
+    const visible = new Set<any>(this.appTokens);
+    const imports = node ? node.imports : this.rootModules;
+
+    if (node) {
+      for (const provider of node.providers) {
+        visible.add(getProviderToken(provider));
+      }
+    }
+    for (const imported of imports) {
+      for (const token of this.getExportedTokens(imported)) visible.add(token);
+    }
+    for (const mod of this.modules) {
+      if (!mod.isGlobal) continue;
+      for (const token of this.getExportedTokens(mod)) visible.add(token);
+    }
+
+    if (node) this.visibleCache.set(node, visible);
+    return visible;
+  }
+
+  /**
+   * Tokens a module makes available to the modules that import it,
+   * including tokens re-exported from its own imports.
+   */
+  getExportedTokens(node: ModuleNode): Set<any> {
+    const cached = this.exportCache.get(node);
+    if (cached) return cached;
+
+    const exported = new Set<any>();
+    // Guard against re-export cycles between modules
+    this.exportCache.set(node, exported);
+
+    const ownTokens = new Set(node.providers.map(getProviderToken));
+
+    for (const entry of node.exports) {
+      // Re-exported module: by class, or by the DynamicModule object itself
+      const imported = node.imports.filter(
+        (m) => m.metatype === entry || this.nodes.get(entry) === m
+      );
+      if (imported.length > 0) {
+        for (const mod of imported) {
+          for (const token of this.getExportedTokens(mod)) exported.add(token);
+        }
+        continue;
+      }
+      if (isModuleClass(entry) || isDynamicModule(entry)) {
+        const name = getTokenName(isDynamicModule(entry) ? entry.module : entry);
+        throw new Error(
+          `Module ${node.name} cannot export ${name} because it does not import it.`
+        );
+      }
+
+      const token = getProviderToken(entry);
+      const reExported = node.imports.some((m) =>
+        this.getExportedTokens(m).has(token)
+      );
+      if (!ownTokens.has(token) && !reExported) {
+        throw new Error(
+          `Module ${node.name} cannot export ${getTokenName(token)} because it is neither one of its providers nor exported by one of its imports.`
+        );
+      }
+      exported.add(token);
+    }
+
+    return exported;
+  }
+
+  /**
+   * Check that every provider, controller and gateway only depends on tokens
+   * visible in its own module. Tokens that no module provides are not checked,
+   * so classes resolved ad hoc by tsyringe keep working.
+   *
+   * @param rootControllers - Controllers and gateways registered outside of any module
+   * @throws Error naming the dependency, its owner module and the consumer,
+   *   or an `exports` entry the module cannot export
+   */
+  validate(rootControllers: any[] = []): void {
+    // Resolve every module's exports so invalid `exports` entries fail the build
+    for (const node of this.modules) {
+      this.getExportedTokens(node);
+    }
+
+    for (const node of this.modules) {
+      for (const provider of node.providers) {
+        this.validateProvider(provider, node);
+      }
+      for (const controller of [...node.controllers, ...node.gateways]) {
+        this.validateClass(controller, node);
+      }
+      this.validateClass(node.metatype, node);
+    }
+    for (const controller of rootControllers) {
+      this.validateClass(controller, undefined);
+    }
+  }
+
+  private validateProvider(provider: any, node: ModuleNode): void {
+    if (typeof provider === "function") {
+      this.validateClass(provider, node);
+      return;
+    }
+    if (!provider || typeof provider !== "object") return;
+
+    if ("useClass" in provider) {
+      this.validateClass(provider.useClass, node);
+    } else if ("useFactory" in provider) {
+      (provider.inject || []).forEach((dep: any, index: number) => {
+        this.assertVisible(dep, index, getTokenName(provider.provide), node);
+      });
+    } else if ("useExisting" in provider) {
+      this.assertVisible(
+        provider.useExisting,
+        0,
+        getTokenName(provider.provide),
+        node
+      );
+    }
+  }
+
+  private validateClass(target: any, node: ModuleNode | undefined): void {
+    if (typeof target !== "function") return;
+    for (const dep of getConstructorDependencies(target)) {
+      if (dep.optional) continue;
+      this.assertVisible(dep.token, dep.index, target.name, node);
+    }
+  }
+
+  private assertVisible(
+    token: any,
+    index: number,
+    consumer: string,
+    node: ModuleNode | undefined
+  ): void {
+    const owner = this.owners.get(token);
+    if (!owner || this.getVisibleTokens(node).has(token)) return;
+
+    const scope = node ? node.name : "the application root";
+    const name = getTokenName(token);
+    throw new Error(
+      `Cannot resolve dependency ${name} (argument at index [${index}]) of ${consumer} in ${scope}. ` +
+        `${name} is provided by ${owner.name} but is not visible here — ` +
+        `add it to the exports of ${owner.name} and import ${owner.name}${
+          node ? ` into ${node.name}` : ""
+        }, or mark ${owner.name} as @Global().`
+    );
+  }
+
+  private addModule(moduleRef: any, path: any[]): ModuleNode {
+    const existing = this.nodes.get(moduleRef);
+    if (existing) return existing;
+
+    const dynamic = isDynamicModule(moduleRef) ? moduleRef : undefined;
+    const metatype = dynamic ? dynamic.module : moduleRef;
+
+    if (!dynamic && !isModuleClass(metatype)) {
+      const importer = path.length
+        ? ` imported by ${getTokenName(path[path.length - 1])}`
+        : "";
+      throw new Error(
+        `${getTokenName(metatype)}${importer} is not a module. Did you forget the @Module() decorator?`
+      );
+    }
+
+    // Dynamic metadata extends whatever the host class declares statically
+    const meta: ModuleMetadata =
+      Reflect.getMetadata("module:metadata", metatype) || {};
+    const node: ModuleNode = {
+      metatype,
+      name: metatype.name,
+      imports: [],
+      controllers: [...(meta.controllers || []), ...(dynamic?.controllers || [])],
+      gateways: [...(meta.gateways || []), ...(dynamic?.gateways || [])],
+      providers: [...(meta.providers || []), ...(dynamic?.providers || [])],
+      exports: [...(meta.exports || []), ...(dynamic?.exports || [])],
+      isGlobal:
+        dynamic?.global === true ||
+        Reflect.getMetadata("module:global", metatype) === true,
+    };
+    // Register before recursing so circular imports resolve to this node
+    this.nodes.set(moduleRef, node);
+
+    for (const imported of [...(meta.imports || []), ...(dynamic?.imports || [])]) {
+      node.imports.push(this.addModule(imported, [...path, metatype]));
+    }
+
+    for (const provider of node.providers) {
+      const token = getProviderToken(provider);
+      if (!this.owners.has(token)) this.owners.set(token, node);
+    }
+
+    this.modules.push(node);
+    return node;
+  }
+}
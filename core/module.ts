@@ -1,4 +1,5 @@
 import "reflect-metadata";
+import { injectable } from "tsyringe";
 
 /**
  * Metadata describing the contents of a `@Module()`.
@@ -16,6 +17,8 @@ export interface ModuleMetadata {
   imports?: any[];
   /** Controllers to register with this module. */
   controllers?: any[];
+  /** `@WebSocketGateway()` classes to register with this module. */
+  gateways?: any[];
   /** Injectable services/providers belonging to this module. */
   providers?: any[];
   /** Providers to re-export to importing modules. */
@@ -24,16 +27,83 @@ export interface ModuleMetadata {
 
 /**
  * Returned by `forRoot()` / `forFeature()` factory methods on dynamic modules.
+ * Accepted anywhere a module class is: `WynkFactory.create({ modules })`,
+ * `imports` and `exports`. Its metadata is merged with the host class's own
+ * `@Module()` metadata, if any.
+ *
+ * @example
+ * @Module({})
+ * export class ConfigModule {
+ *   static forRoot(options: ConfigOptions): DynamicModule {
+ *     return {
+ *       module: ConfigModule,
+ *       providers: [{ provide: CONFIG_OPTIONS, useValue: options }, ConfigService],
+ *       exports: [ConfigService],
+ *     };
+ *   }
+ * }
  */
 export interface DynamicModule extends ModuleMetadata {
   /** The host module class. */
   module: any;
+  /** Register the module as global, like `@Global()`. */
+  global?: boolean;
+}
+
+/**
+ * Options accepted by `forRootAsync()`-style methods, where the module
+ * configuration is produced by a factory once its dependencies are available.
+ * Turn it into a factory provider with {@link createAsyncOptionsProvider}.
+ *
+ * @example
+ * ConfigModule.forRootAsync({
+ *   imports: [SecretsModule],
+ *   useFactory: async (secrets: SecretsService) => ({ apiKey: await secrets.get('API_KEY') }),
+ *   inject: [SecretsService],
+ * });
+ */
+export interface AsyncModuleOptions<T = any> {
+  /** Modules whose exports the factory needs. */
+  imports?: any[];
+  /** Produces the module options. May return a promise. */
+  useFactory: (...args: any[]) => T | Promise<T>;
+  /** Tokens whose resolved values are passed as arguments to `useFactory`. */
+  inject?: any[];
+}
+
+/**
+ * Builds the factory provider that registers the result of
+ * `options.useFactory` under `token`.
+ *
+ * @example
+ * static forRootAsync(options: AsyncModuleOptions<ConfigOptions>): DynamicModule {
+ *   return {
+ *     module: ConfigModule,
+ *     imports: options.imports,
+ *     providers: [createAsyncOptionsProvider(CONFIG_OPTIONS, options), ConfigService],
+ *     exports: [ConfigService],
+ *   };
+ * }
+ */
+export function createAsyncOptionsProvider<T>(
+  token: any,
+  options: AsyncModuleOptions<T>
+): { provide: any; useFactory: (...args: any[]) => T | Promise<T>; inject: any[] } {
+  return {
+    provide: token,
+    useFactory: options.useFactory,
+    inject: options.inject || [],
+  };
 }
 
 /**
  * Declares a class as a WynkJS module, grouping controllers and providers.
  * Pass the module to `WynkFactory.create({ modules: [AppModule] })`.
  *
+ * The module class itself is instantiated from its own container, so it can
+ * inject its providers and implement lifecycle hooks such as `onModuleInit()`
+ * or `onApplicationShutdown()`.
+ *
  * @param metadata - The module metadata
  *
  * @example
@@ -46,6 +116,7 @@ export interface DynamicModule extends ModuleMetadata {
 export function Module(metadata: ModuleMetadata): ClassDecorator {
   return (target: any) => {
     Reflect.defineMetadata("module:metadata", metadata, target);
+    injectable()(target);
     return target;
   };
 }
@@ -0,0 +1,451 @@
+import { ParamMetadata } from "./decorators/param.decorators";
+import { RouteOptions } from "./decorators/http.decorators";
+import { HttpStatus } from "./common/http-status.enum";
+import {
+  ApiResponseOptions,
+  ApiRouteMetadata,
+} from "./decorators/openapi.decorators";
+
+/**
+ * OpenAPI Module for WynkJS Framework
+ * Builds an OpenAPI 3.1 document from registered routes and their TypeBox schemas
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * Options for `ApplicationOptions.openapi`.
+ *
+ * @example
+ * WynkFactory.create({
+ *   controllers: [UserController],
+ *   globalPrefix: "/api",
+ *   openapi: {
+ *     title: "Users API",
+ *     version: "2.1.0",
+ *     guardSchemes: { ApiKeyGuard: "apiKey", RolesGuard: false },
+ *     securitySchemes: {
+ *       bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+ *       apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+ *     },
+ *   },
+ * });
+ */
+export interface OpenApiOptions {
+  /** `info.title` (default `"WynkJS API"`). */
+  title?: string;
+  /** `info.version` (default `"1.0.0"`). */
+  version?: string;
+  /** `info.description`. */
+  description?: string;
+  /** `servers` entries. */
+  servers?: { url: string; description?: string }[];
+  /**
+   * Path the document is served at (default `"/openapi.json"`, not affected
+   * by `globalPrefix`). Pass `false` to only use `app.getOpenApiDocument()`.
+   */
+  path?: string | false;
+  /**
+   * `components.securitySchemes`. Defaults to a single `bearer` scheme
+   * (HTTP bearer, JWT).
+   */
+  securitySchemes?: Record<string, any>;
+  /**
+   * Security scheme required by each guard, keyed by guard class name. Guards
+   * not listed require the first scheme of `securitySchemes`; `false` marks
+   * guards that add no requirement of their own (e.g. role checks).
+   */
+  guardSchemes?: Record<string, string | false>;
+}
+
+/**
+ * A registered route, as collected by `WynkFramework` for the document.
+ */
+export interface OpenApiRoute {
+  /** HTTP method in upper case. */
+  method: string;
+  /** Full Elysia path, including the global prefix (e.g. `/api/users/:id`). */
+  path: string;
+  /** Tag derived from the module or controller name. */
+  tag: string;
+  controller: any;
+  methodName: string;
+  options: RouteOptions;
+  params: ParamMetadata[];
+  /** Guards applied to the route: global, controller and method guards. */
+  guards: any[];
+  httpCode?: number;
+  /** Metadata from `@ApiOperation()`, `@ApiResponse()`, `@ApiTags()`, ... */
+  api?: ApiRouteMetadata;
+}
+
+/**
+ * OpenAPI 3.1 document produced by `createOpenApiDocument()`.
+ */
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: { title: string; version: string; description?: string };
+  servers?: { url: string; description?: string }[];
+  tags: { name: string }[];
+  paths: Record<string, Record<string, any>>;
+  components: {
+    schemas: Record<string, any>;
+    securitySchemes: Record<string, any>;
+  };
+}
+
+const DEFAULT_SECURITY_SCHEMES = {
+  bearer: { type: "http", scheme: "bearer", bearerFormat: "JWT" },
+};
+
+/**
+ * Convert an Elysia route path to an OpenAPI path template.
+ *
+ * @returns The template (`/users/{id}`) and the names of its path parameters
+ *
+ * @example
+ * toOpenApiPath("/api/users/:id/posts/:postId?");
+ * // { path: "/api/users/{id}/posts/{postId}", params: ["id", "postId"] }
+ */
+export function toOpenApiPath(path: string): { path: string; params: string[] } {
+  const params: string[] = [];
+  let template = path.replace(/:([A-Za-z0-9_]+)\??/g, (_match, name) => {
+    params.push(name);
+    return `{${name}}`;
+  });
+  template = template.replace(/\/{2,}/g, "/");
+  if (!template.startsWith("/")) template = "/" + template;
+  if (template.length > 1 && template.endsWith("/")) {
+    template = template.slice(0, -1);
+  }
+  return { path: template, params };
+}
+
+/**
+ * Turn a TypeBox schema into a plain JSON Schema for the document. Schemas
+ * with an `$id` are moved to `components.schemas` and referenced, and bare
+ * `Type.Ref()` references are pointed there too.
+ */
+function toDocumentSchema(schema: any, components: Record<string, any>): any {
+  // Drops TypeBox's symbol keys and anything that is not JSON
+  const plain = JSON.parse(JSON.stringify(schema ?? {}));
+
+  const hoist = (node: any): any => {
+    if (Array.isArray(node)) return node.map(hoist);
+    if (!node || typeof node !== "object") return node;
+
+    const result: any = {};
+    for (const [key, value] of Object.entries(node)) {
+      result[key] =
+        key === "$ref" && typeof value === "string" && !value.startsWith("#")
+          ? `#/components/schemas/${value}`
+          : hoist(value);
+    }
+    if (typeof result.$id === "string") {
+      const { $id, ...rest } = result;
+      components[$id] = rest;
+      return { $ref: `#/components/schemas/${$id}` };
+    }
+    return result;
+  };
+
+  return hoist(plain);
+}
+
+/**
+ * Returns `true` when `response` is a status-code map
+ * (`{ 200: Schema, 404: Schema }`) rather than a single schema.
+ */
+export function isResponseStatusMap(response: any): boolean {
+  if (!response || typeof response !== "object") return false;
+  const keys = Object.keys(response);
+  return keys.length > 0 && keys.every((key) => /^[1-5]\d\d$/.test(key));
+}
+
+/**
+ * Default response description for a status code, e.g. `"Not Found"` for `404`.
+ */
+function describeStatus(status: string): string {
+  const name: string | undefined = (HttpStatus as any)[Number(status)];
+  if (!name) return "Response";
+  return name
+    .toLowerCase()
+    .split("_")
+    .map((word) => (word === "ok" ? "OK" : word[0].toUpperCase() + word.slice(1)))
+    .join(" ");
+}
+
+function getGuardName(guard: any): string {
+  return typeof guard === "function" ? guard.name : guard?.constructor?.name;
+}
+
+function createParameters(
+  route: OpenApiRoute,
+  pathParams: string[],
+  components: Record<string, any>
+): any[] {
+  const parameters: any[] = [];
+  const { options } = route;
+
+  const paramsSchema = options.params && toDocumentSchema(options.params, components);
+  for (const name of pathParams) {
+    parameters.push({
+      name,
+      in: "path",
+      required: true,
+      schema: paramsSchema?.properties?.[name] ?? { type: "string" },
+    });
+  }
+
+  const addFromSchema = (schema: any, location: "query" | "header") => {
+    if (!schema) return;
+    const plain = toDocumentSchema(schema, components);
+    const required: string[] = plain.required || [];
+    for (const [name, property] of Object.entries<any>(plain.properties || {})) {
+      parameters.push({
+        name,
+        in: location,
+        required: required.includes(name),
+        schema: property,
+        ...(property.description ? { description: property.description } : {}),
+      });
+    }
+  };
+  addFromSchema(options.query, "query");
+  addFromSchema(options.headers, "header");
+
+  // @Query('name') without a query schema still documents the parameter
+  for (const param of route.params) {
+    if (
+      param.type === "query" &&
+      param.data &&
+      !parameters.some((p) => p.in === "query" && p.name === param.data)
+    ) {
+      parameters.push({
+        name: param.data,
+        in: "query",
+        required: false,
+        schema: { type: "string" },
+      });
+    }
+  }
+
+  return parameters;
+}
+
+/**
+ * Merge `@ApiResponse()` entries into `responses`, grouped by status.
+ * Several schemas for one status become `oneOf`.
+ */
+function applyApiResponses(
+  responses: Record<string, any>,
+  apiResponses: ApiResponseOptions[],
+  toSchema: (schema: any) => any
+): void {
+  const byStatus = new Map<string, ApiResponseOptions[]>();
+  for (const entry of apiResponses) {
+    const status = String(entry.status);
+    byStatus.set(status, [...(byStatus.get(status) || []), entry]);
+  }
+
+  for (const [status, entries] of byStatus) {
+    const response: Record<string, any> = {
+      description:
+        entries.find((e) => e.description)?.description ?? describeStatus(status),
+    };
+    const schemas = entries.filter((e) => e.schema).map((e) => toSchema(e.schema));
+    const example = entries.find((e) => e.example !== undefined)?.example;
+    const examples = Object.assign({}, ...entries.map((e) => e.examples || {}));
+    const headers = Object.assign({}, ...entries.map((e) => e.headers || {}));
+
+    const previous = responses[status]?.content?.["application/json"];
+    const media: Record<string, any> = {};
+    if (schemas.length > 0) {
+      media.schema = schemas.length === 1 ? schemas[0] : { oneOf: schemas };
+    } else if (previous?.schema) {
+      media.schema = previous.schema;
+    }
+    if (example !== undefined) media.example = example;
+    if (Object.keys(examples).length > 0) media.examples = examples;
+
+    if (Object.keys(media).length > 0) {
+      response.content = { "application/json": media };
+    }
+    if (Object.keys(headers).length > 0) response.headers = headers;
+    responses[status] = response;
+  }
+}
+
+function createResponses(
+  route: OpenApiRoute,
+  security: Record<string, string[]>[],
+  components: Record<string, any>
+): Record<string, any> {
+  const responses: Record<string, any> = {};
+  const { options } = route;
+  const successStatus = String(route.httpCode ?? 200);
+
+  const jsonContent = (status: string, schema: any) => ({
+    description: describeStatus(status),
+    content: {
+      "application/json": { schema: toDocumentSchema(schema, components) },
+    },
+  });
+
+  if (isResponseStatusMap(options.response)) {
+    for (const [status, schema] of Object.entries(options.response)) {
+      responses[status] = jsonContent(status, schema);
+    }
+  } else if (options.response) {
+    responses[successStatus] = jsonContent(successStatus, options.response);
+  }
+  if (route.api) {
+    applyApiResponses(responses, route.api.responses, (schema) =>
+      toDocumentSchema(schema, components)
+    );
+  }
+  if ((options as any).sse) {
+    responses[successStatus] = {
+      description: describeStatus(successStatus),
+      content: { "text/event-stream": { schema: { type: "string" } } },
+    };
+  } else if (!Object.keys(responses).some((status) => status.startsWith("2"))) {
+    responses[successStatus] = { description: describeStatus(successStatus) };
+  }
+
+  if (options.body || options.query || options.params || options.headers) {
+    responses["400"] ??= { description: "Validation failed" };
+  }
+  if (security.length > 0) {
+    responses["401"] ??= { description: "Unauthorized" };
+  }
+  if (route.guards.length > 0) {
+    responses["403"] ??= { description: "Forbidden" };
+  }
+  return responses;
+}
+
+/**
+ * Build an OpenAPI 3.1 document from registered routes.
+ *
+ * Each route becomes one operation: path parameters come from the route
+ * template (typed by the `params` schema when present), query and header
+ * parameters from the `query` / `headers` schemas, the request body from the
+ * `body` schema and responses from `response` — a single schema documented
+ * under the `@HttpCode()` status (default `200`), or a status-code map.
+ * Guarded routes require the security scheme mapped to their guards and
+ * document `401` / `403` responses. `@ApiOperation()`, `@ApiResponse()`,
+ * `@ApiTags()`, `@ApiBearerAuth()` / `@ApiSecurity()` and
+ * `@ApiExcludeEndpoint()` refine or replace what is derived from the route.
+ *
+ * @param routes - Routes collected while registering controllers
+ * @param options - Document info, servers and security settings
+ */
+export function createOpenApiDocument(
+  routes: OpenApiRoute[],
+  options: OpenApiOptions = {}
+): OpenApiDocument {
+  const securitySchemes: Record<string, any> = {
+    ...(options.securitySchemes ?? DEFAULT_SECURITY_SCHEMES),
+  };
+  const defaultScheme = Object.keys(securitySchemes)[0];
+  const schemas: Record<string, any> = {};
+  const paths: Record<string, Record<string, any>> = {};
+  const tags = new Set<string>();
+
+  for (const route of routes) {
+    const api = route.api;
+    if (api?.excluded) continue;
+
+    const { path, params: pathParams } = toOpenApiPath(route.path);
+    const method = route.method.toLowerCase();
+
+    // All of a route's guards must pass, so their schemes form one requirement
+    const requirement: Record<string, string[]> = {};
+    for (const guard of route.guards) {
+      const mapped = options.guardSchemes?.[getGuardName(guard)];
+      const scheme = mapped === undefined ? defaultScheme : mapped;
+      if (scheme) requirement[scheme] = [];
+    }
+    let security = Object.keys(requirement).length > 0 ? [requirement] : [];
+    if (api && api.security.length > 0) {
+      security = api.security;
+      for (const name of api.bearerSchemes) {
+        securitySchemes[name] ??= DEFAULT_SECURITY_SCHEMES.bearer;
+      }
+    }
+
+    const routeTags = api && api.tags.length > 0 ? api.tags : [route.tag];
+    const operation: Record<string, any> = {
+      operationId:
+        api?.operation.operationId ??
+        `${route.controller.name}_${route.methodName}`,
+      tags: routeTags,
+    };
+    if (api?.operation.summary) operation.summary = api.operation.summary;
+    if (api?.operation.description) {
+      operation.description = api.operation.description;
+    }
+    if (api?.operation.deprecated) operation.deprecated = true;
+    const parameters = createParameters(route, pathParams, schemas);
+    if (parameters.length > 0) operation.parameters = parameters;
+    if (route.options.body) {
+      operation.requestBody = {
+        required: true,
+        content: {
+          "application/json": {
+            schema: toDocumentSchema(route.options.body, schemas),
+          },
+        },
+      };
+    }
+    operation.responses = createResponses(route, security, schemas);
+    if (security.length > 0) operation.security = security;
+
+    for (const tag of routeTags) tags.add(tag);
+    paths[path] ??= {};
+    paths[path][method] = operation;
+  }
+
+  const document: OpenApiDocument = {
+    openapi: "3.1.0",
+    info: {
+      title: options.title ?? "WynkJS API",
+      version: options.version ?? "1.0.0",
+      ...(options.description ? { description: options.description } : {}),
+    },
+    tags: [...tags].map((name) => ({ name })),
+    paths,
+    components: { schemas, securitySchemes },
+  };
+  if (options.servers) document.servers = options.servers;
+  return document;
+}
+
+/**
+ * Route `detail` for Elysia documentation plugins (e.g. `@elysiajs/swagger`),
+ * built from the OpenAPI decorators of a route.
+ *
+ * @param tag - Default tag, used when the route has no `@ApiTags()`
+ */
+export function createRouteDetail(
+  api: ApiRouteMetadata,
+  tag: string
+): Record<string, any> {
+  const detail: Record<string, any> = {
+    tags: api.tags.length > 0 ? api.tags : [tag],
+  };
+  const { summary, description, operationId, deprecated } = api.operation;
+  if (summary) detail.summary = summary;
+  if (description) detail.description = description;
+  if (operationId) detail.operationId = operationId;
+  if (deprecated) detail.deprecated = true;
+  if (api.security.length > 0) detail.security = api.security;
+  if (api.excluded) detail.hide = true;
+  if (api.responses.length > 0) {
+    const responses: Record<string, any> = {};
+    // Plugins resolve TypeBox schemas themselves, so pass them through as-is
+    applyApiResponses(responses, api.responses, (schema) => schema);
+    detail.responses = responses;
+  }
+  return detail;
+}
@@ -1,12 +1,15 @@
 import { Elysia } from "elysia";
 import * as zlib from "node:zlib";
 import { promisify } from "node:util";
+import { Logger } from "../logger";
 
 // Pre-create promisified compression functions at module load time (not per-request)
 const gzipAsync = promisify(zlib.gzip);
 const brotliCompressAsync = promisify(zlib.brotliCompress);
 const deflateAsync = promisify(zlib.deflate);
 
+const logger = new Logger("Compression");
+
 /**
  * Compression Plugin Options
  */
@@ -40,6 +43,28 @@ export interface CompressionOptions {
   };
 }
 
+/**
+ * Encodings accepted by the client, most preferred first. Parses the
+ * `Accept-Encoding` header respecting q-values per RFC 7231 §5.3.4 and
+ * drops encodings with `q=0`.
+ *
+ * @example
+ * parseAcceptEncoding("gzip;q=0.8, br, identity;q=0"); // ["br", "gzip"]
+ */
+export function parseAcceptEncoding(header: string | null | undefined): string[] {
+  return (header || "")
+    .toLowerCase()
+    .split(",")
+    .map((part) => {
+      const [enc, qParam] = part.trim().split(/;\s*q=/);
+      const q = qParam !== undefined ? parseFloat(qParam) : 1.0;
+      return { enc: enc.trim(), q };
+    })
+    .filter(({ enc, q }) => enc !== "" && q !== 0)
+    .sort((a, b) => b.q - a.q)
+    .map(({ enc }) => enc);
+}
+
 /**
  * Compression Plugin for WynkJS
  *
@@ -104,22 +129,14 @@ export function compression(
       // Skip if already compressed
       if (set.headers?.["content-encoding"]) return;
 
+      // Responses built by the handler (files, streams, precompressed static
+      // assets) are sent as is
+      if (response instanceof Response) return;
+
       // Get client's accepted encodings with proper RFC q-value parsing
-      const acceptEncoding = (
-        request.headers.get("accept-encoding") || ""
-      ).toLowerCase();
-
-      // Parse Accept-Encoding header respecting q-values per RFC 7231 §5.3.4
-      const clientEncodings = acceptEncoding
-        .split(",")
-        .map((part) => {
-          const [enc, qParam] = part.trim().split(/;\s*q=/);
-          const q = qParam !== undefined ? parseFloat(qParam) : 1.0;
-          return { enc: enc.trim(), q };
-        })
-        .filter(({ q }) => q !== 0)
-        .sort((a, b) => b.q - a.q)
-        .map(({ enc }) => enc);
+      const clientEncodings = parseAcceptEncoding(
+        request.headers.get("accept-encoding")
+      );
 
       // Find best compression match: prefer server encoding order, skip q=0
       let encoding: "br" | "gzip" | "deflate" | null = null;
@@ -176,7 +193,7 @@ export function compression(
 
         return compressed;
       } catch (error) {
-        console.error("[Compression Error]:", error);
+        logger.error("Compression failed", error);
         return; // Return original on error
       }
     });
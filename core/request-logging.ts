@@ -0,0 +1,186 @@
+import { Elysia } from "elysia";
+import { Logger, runWithLogFields } from "./logger";
+
+/**
+ * Request Logging Module for WynkJS Framework
+ * Assigns every request an ID and writes one access log line per request
+ * Separated from factory.ts for better maintainability
+ */
+
+/** Header read and echoed with the request ID. */
+export const REQUEST_ID_HEADER = "x-request-id";
+
+// Incoming IDs end up in log lines, so only accept short, printable tokens
+const VALID_REQUEST_ID = /^[\w\-.:@]{1,128}$/;
+
+/**
+ * Returns the incoming `X-Request-Id` value when it is a safe token,
+ * or a newly generated UUID.
+ */
+export function resolveRequestId(header?: string | null): string {
+  return header && VALID_REQUEST_ID.test(header) ? header : crypto.randomUUID();
+}
+
+interface RequestLogRecord {
+  id: string;
+  start: number;
+  /** Matched route template (e.g. `/users/:id`), unset when no route matched. */
+  route?: string;
+  /** Value returned by the route handler, used to size bodies without a Content-Length. */
+  value?: unknown;
+  handled: boolean;
+}
+
+const records = new WeakMap<globalThis.Request, RequestLogRecord>();
+const RECORD = Symbol("wynk:request-log");
+
+function sizeOfValue(value: unknown): number | undefined {
+  if (value === undefined || value === null) return 0;
+  if (typeof value === "string") return Buffer.byteLength(value);
+  if (value instanceof ArrayBuffer || ArrayBuffer.isView(value)) {
+    return value.byteLength;
+  }
+  if (value instanceof Blob) return value.size;
+  if (value instanceof globalThis.Response || value instanceof ReadableStream) {
+    return undefined;
+  }
+  if (typeof value === "object") {
+    // Streams and generators have no size until they are consumed
+    if (Symbol.asyncIterator in value) return undefined;
+    try {
+      return Buffer.byteLength(JSON.stringify(value));
+    } catch {
+      return undefined;
+    }
+  }
+  return Buffer.byteLength(String(value));
+}
+
+async function measureBytes(
+  response: globalThis.Response,
+  record: RequestLogRecord
+): Promise<number | undefined> {
+  const length = response.headers.get("content-length");
+  if (length !== null) return Number(length);
+  if (!response.body) return 0;
+  if (record.handled) return sizeOfValue(record.value);
+
+  // Error and not-found bodies are small JSON or text; never buffer anything else
+  const type = response.headers.get("content-type") || "";
+  if (type && !type.startsWith("application/json") && !type.startsWith("text/plain")) {
+    return undefined;
+  }
+  return (await response.clone().arrayBuffer()).byteLength;
+}
+
+function withRequestId(
+  response: globalThis.Response,
+  id: string
+): globalThis.Response {
+  try {
+    response.headers.set(REQUEST_ID_HEADER, id);
+    return response;
+  } catch {
+    // Immutable headers (e.g. a proxied fetch() response): copy them
+    const copy = new globalThis.Response(response.body, response);
+    copy.headers.set(REQUEST_ID_HEADER, id);
+    return copy;
+  }
+}
+
+function writeAccessLog(
+  logger: Logger,
+  request: globalThis.Request,
+  response: globalThis.Response,
+  record: RequestLogRecord,
+  bytes: number | undefined
+): void {
+  const duration = Math.round((performance.now() - record.start) * 100) / 100;
+  const status = response.status;
+  const fields = {
+    requestId: record.id,
+    method: request.method,
+    route: record.route,
+    status,
+    duration,
+    bytes,
+  };
+  const message = `${request.method} ${record.route ?? "<unmatched>"} ${status} ${duration}ms`;
+
+  if (status >= 500) {
+    logger.error(message, fields);
+  } else if (status >= 400) {
+    logger.warn(message, fields);
+  } else {
+    logger.log(message, fields);
+  }
+}
+
+/**
+ * Assign request IDs and log one line per request.
+ *
+ * Each request takes its ID from the `X-Request-Id` header, or gets a new
+ * UUID. The ID is echoed in the `X-Request-Id` response header, exposed as
+ * `Request.id`, and added as `requestId` to every entry logged while the
+ * request is handled. Once the response is ready, an access log line with
+ * method, route template, status, duration in milliseconds and body size in
+ * bytes is written with the `"HTTP"` context: `error` for 5xx, `warn` for
+ * 4xx and `log` otherwise.
+ *
+ * @param app - Elysia instance; call before any route is registered
+ * @param logger - Logger writing the access log lines
+ *
+ * @example
+ * setupRequestLogging(app);
+ * // [Wynk] LOG [HTTP] GET /users/:id 200 1.42ms {"requestId":"...","method":"GET","route":"/users/:id",...}
+ */
+export function setupRequestLogging(
+  app: Elysia,
+  logger: Logger = new Logger("HTTP")
+): void {
+  app.wrap(
+    (fetch: (request: globalThis.Request) => any) =>
+      async (request: globalThis.Request) => {
+        const record: RequestLogRecord = {
+          id: resolveRequestId(request.headers.get(REQUEST_ID_HEADER)),
+          start: performance.now(),
+          handled: false,
+        };
+        records.set(request, record);
+
+        const response: globalThis.Response = withRequestId(
+          await runWithLogFields({ requestId: record.id }, () => fetch(request)),
+          record.id
+        );
+
+        measureBytes(response, record)
+          .catch(() => undefined)
+          .then((bytes) =>
+            writeAccessLog(logger, request, response, record, bytes)
+          );
+
+        return response;
+      }
+  );
+
+  app.onRequest((ctx: any) => {
+    const record = records.get(ctx.request);
+    if (record) {
+      ctx.requestId = record.id;
+      ctx[RECORD] = record;
+    }
+  });
+
+  app.onTransform({ as: "global" }, (ctx: any) => {
+    const record: RequestLogRecord | undefined = ctx[RECORD];
+    if (record) record.route = ctx.route;
+  });
+
+  app.onAfterHandle({ as: "global" }, (ctx: any) => {
+    const record: RequestLogRecord | undefined = ctx[RECORD];
+    if (record) {
+      record.handled = true;
+      record.value = ctx.responseValue;
+    }
+  });
+}
@@ -0,0 +1,147 @@
+import "reflect-metadata";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { REQUEST, Scope } from "./decorators/di.decorators";
+import { getConstructorDependencies, getProviderToken } from "./module-graph";
+
+/**
+ * Request Scope Module for WynkJS Framework
+ * Tracks the request being handled so request-scoped providers get one
+ * instance per request, and works out which providers inherit that scope
+ * Separated from factory.ts for better maintainability
+ */
+
+interface RequestScopeStore {
+  /** Elysia context of the request being handled. */
+  ctx: any;
+  /** Request-scoped instances created so far, keyed by registration. */
+  instances: Map<any, any>;
+}
+
+const requestScopeStorage = new AsyncLocalStorage<RequestScopeStore>();
+
+/**
+ * Run `fn` with `ctx` as the current request, so request-scoped providers
+ * resolved inside it are created once and shared until it settles.
+ */
+export function runInRequestScope<T>(ctx: any, fn: () => T): T {
+  return requestScopeStorage.run({ ctx, instances: new Map() }, fn);
+}
+
+/**
+ * Return the instance registered under `key` for the current request,
+ * creating it with `create` on first use.
+ *
+ * @throws Error when no request is being handled
+ */
+export function resolveInRequestScope(
+  key: any,
+  name: string,
+  create: () => any
+): any {
+  const store = requestScopeStorage.getStore();
+  if (!store) {
+    throw new Error(
+      `${name} is request-scoped and can only be resolved while a request is being handled.`
+    );
+  }
+  if (!store.instances.has(key)) {
+    store.instances.set(key, create());
+  }
+  return store.instances.get(key);
+}
+
+/**
+ * The Elysia context of the request being handled, for the `REQUEST` token.
+ *
+ * @throws Error when no request is being handled
+ */
+export function getCurrentRequestContext(): any {
+  const store = requestScopeStorage.getStore();
+  if (!store) {
+    throw new Error(
+      "REQUEST can only be resolved while a request is being handled."
+    );
+  }
+  return store.ctx;
+}
+
+/**
+ * Scope declared with `@Injectable({ scope })` on a class, or on a
+ * `{ provide, useClass | useFactory, scope }` provider definition.
+ */
+export function getDeclaredScope(provider: any): Scope {
+  if (typeof provider === "function") {
+    return Reflect.getMetadata("scope", provider) || Scope.DEFAULT;
+  }
+  if (provider && typeof provider === "object") {
+    if (provider.scope) return provider.scope;
+    if ("useClass" in provider) return getDeclaredScope(provider.useClass);
+  }
+  return Scope.DEFAULT;
+}
+
+/**
+ * Returns `true` when instances of `target` must be created per request:
+ * the class is declared request-scoped or depends, directly or through
+ * other classes, on a request-scoped token.
+ *
+ * @param requestTokens - Tokens known to be request-scoped (see `collectRequestScopedTokens`)
+ */
+export function isRequestScopedClass(
+  target: any,
+  requestTokens: Set<any>,
+  visiting: Set<any> = new Set()
+): boolean {
+  if (typeof target !== "function" || visiting.has(target)) return false;
+  if (requestTokens.has(target)) return true;
+  if (getDeclaredScope(target) === Scope.REQUEST) return true;
+
+  visiting.add(target);
+  return getConstructorDependencies(target).some(
+    ({ token }) =>
+      requestTokens.has(token) ||
+      (typeof token === "function" &&
+        isRequestScopedClass(token, requestTokens, visiting))
+  );
+}
+
+/**
+ * Work out which provider tokens are request-scoped, either declared so or
+ * because they depend on a request-scoped token (the scope bubbles up).
+ * Always contains the `REQUEST` token.
+ */
+export function collectRequestScopedTokens(providers: any[]): Set<any> {
+  const requestTokens = new Set<any>([REQUEST]);
+
+  // Repeat until stable: a provider may depend on one declared after it
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const provider of providers) {
+      const token = getProviderToken(provider);
+      if (requestTokens.has(token)) continue;
+
+      let requestScoped = getDeclaredScope(provider) === Scope.REQUEST;
+      if (!requestScoped && typeof provider === "function") {
+        requestScoped = isRequestScopedClass(provider, requestTokens);
+      } else if (!requestScoped && provider && typeof provider === "object") {
+        if ("useClass" in provider) {
+          requestScoped = isRequestScopedClass(provider.useClass, requestTokens);
+        } else if ("useFactory" in provider) {
+          requestScoped = (provider.inject || []).some((dep: any) =>
+            requestTokens.has(dep)
+          );
+        } else if ("useExisting" in provider) {
+          requestScoped = requestTokens.has(provider.useExisting);
+        }
+      }
+
+      if (requestScoped) {
+        requestTokens.add(token);
+        changed = true;
+      }
+    }
+  }
+
+  return requestTokens;
+}
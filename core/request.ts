@@ -1,3 +1,6 @@
+import { negotiateMediaType } from "./content-negotiation";
+import { REQUEST_ID_HEADER, resolveRequestId } from "./request-logging";
+
 /**
  * Request Wrapper for WynkJS Framework
  * Provides a clean API for accessing request data and adding custom properties
@@ -37,6 +40,13 @@ export class Request {
     return this.ctx.body;
   }
 
+  /**
+   * Get the unparsed request body, kept for routes with `rawBody: true`
+   */
+  get rawBody(): Uint8Array | undefined {
+    return this.ctx.rawBody;
+  }
+
   /**
    * Get route parameters
    */
@@ -76,6 +86,20 @@ export class Request {
     return headers;
   }
 
+  /**
+   * Get the request ID: the incoming `X-Request-Id` header, or a generated UUID.
+   * With `logger: { requests: true }` it is also echoed in the response and
+   * added to every log entry written while the request is handled.
+   */
+  get id(): string {
+    if (!this.ctx.requestId) {
+      this.ctx.requestId = resolveRequestId(
+        this.headers.get?.(REQUEST_ID_HEADER)
+      );
+    }
+    return this.ctx.requestId;
+  }
+
   /**
    * Get request method (GET, POST, etc.)
    */
@@ -147,6 +171,20 @@ export class Request {
     this.ctx.user = value;
   }
 
+  /**
+   * Signal aborted when the client disconnects
+   */
+  get signal(): AbortSignal | undefined {
+    return this.originalRequest?.signal;
+  }
+
+  /**
+   * Get the underlying Fetch API request, e.g. to stream an unparsed body
+   */
+  get original(): globalThis.Request | undefined {
+    return this.originalRequest;
+  }
+
   /**
    * Get the raw Elysia context
    */
@@ -220,11 +258,11 @@ export class Request {
   }
 
   /**
-   * Check if request accepts a certain content type
+   * Check if request accepts a certain content type, following `Accept`
+   * wildcards and q-values (a request without `Accept` accepts any type)
    */
   accepts(type: string): boolean {
-    const acceptHeader = this.headers.get?.("accept") || "";
-    return acceptHeader.includes(type);
+    return negotiateMediaType(this.headers.get?.("accept"), [type]) !== undefined;
   }
 
   /**
@@ -0,0 +1,124 @@
+import { Value } from "@sinclair/typebox/value";
+import { InternalServerErrorException } from "./decorators/exception.decorators";
+import { Logger } from "./logger";
+import { isResponseStatusMap } from "./openapi";
+import { StreamableFile } from "./streamable-file";
+
+/**
+ * Response schemas for WynkJS Framework
+ * Checks handler results against `RouteOptions.response`, or strips the
+ * properties the schema does not declare
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * The `responseValidation` application option:
+ * - `"validate"`: results that do not match the schema, or carry properties
+ *   it does not declare, fail with a 500; the mismatches are logged with the
+ *   name of the route
+ * - `"strip"`: properties the schema does not declare are removed
+ */
+export type ResponseValidationMode = "validate" | "strip";
+
+/**
+ * Mode used when the application does not set one: `"strip"` when
+ * `NODE_ENV` is `production`, `"validate"` otherwise.
+ */
+export function resolveResponseValidation(
+  option: ResponseValidationMode | false | undefined
+): ResponseValidationMode | false {
+  return option ?? (process.env.NODE_ENV === "production" ? "strip" : "validate");
+}
+
+const logger = new Logger("ResponseValidation");
+
+/**
+ * Schema of a response with `status`: the entry of a status map, or the
+ * single schema for 2xx statuses.
+ */
+function selectSchema(response: any, status: number): any {
+  if (isResponseStatusMap(response)) return response[status];
+  return status >= 200 && status < 300 ? response : undefined;
+}
+
+/**
+ * Whether a handler result is a value the framework encodes (as JSON by
+ * default), rather than a stream, file or raw response sent as is.
+ */
+export function isSerializedBody(result: any): boolean {
+  return (
+    result !== undefined &&
+    !(result instanceof Response) &&
+    !(result instanceof StreamableFile) &&
+    !(result instanceof ReadableStream) &&
+    !(result instanceof Blob) &&
+    typeof result?.[Symbol.asyncIterator] !== "function"
+  );
+}
+
+/**
+ * JSON pointers of the properties of `value` that `cleaned` lost.
+ */
+function findUndeclared(value: any, cleaned: any, path = ""): string[] {
+  if (Array.isArray(value) && Array.isArray(cleaned)) {
+    return value.flatMap((item, index) =>
+      findUndeclared(item, cleaned[index], `${path}/${index}`)
+    );
+  }
+  if (
+    value &&
+    typeof value === "object" &&
+    cleaned &&
+    typeof cleaned === "object"
+  ) {
+    return Object.keys(value).flatMap((key) =>
+      key in cleaned
+        ? findUndeclared(value[key], cleaned[key], `${path}/${key}`)
+        : [`${path}/${key}`]
+    );
+  }
+  return [];
+}
+
+/**
+ * Wrap a route handler to enforce its `response` schema (a single schema or
+ * a `{ [status]: schema }` map) on the values it returns.
+ *
+ * @param route - Name of the route in logged mismatches, e.g. `UsersController.findOne (GET /users/:id)`
+ */
+export function createResponseSchemaHandler(
+  handler: (ctx: any) => any,
+  response: any,
+  options: { mode: ResponseValidationMode; route: string }
+): (ctx: any) => Promise<any> {
+  // Call the handler before reading ctx: Elysia infers from the route
+  // handler which parts of the request (headers, query, body) to parse
+  return async (ctx: any) => {
+    const result = await handler(ctx);
+    if (!isSerializedBody(result)) return result;
+
+    const status = Number(ctx.set?.status ?? 200) || 200;
+    const schema = selectSchema(response, status);
+    if (!schema) return result;
+
+    const cleaned = Value.Clean(schema, Value.Clone(result));
+    if (options.mode === "strip") return cleaned;
+
+    const problems = [
+      ...findUndeclared(result, cleaned).map(
+        (path) => `${path}: property is not declared in the schema`
+      ),
+      ...[...Value.Errors(schema, result)].map(
+        (error) => `${error.path || "/"}: ${error.message}`
+      ),
+    ];
+    if (problems.length > 0) {
+      // The details stay in the log; clients only learn that the response failed
+      logger.error(`Response of ${options.route} does not match its schema`, {
+        problems,
+      });
+      throw new InternalServerErrorException();
+    }
+    return result;
+  };
+}
@@ -1,3 +1,7 @@
+import { PreconditionFailedException } from "./decorators/exception.decorators";
+import { isSerializedBody } from "./response-schema";
+import { contentDisposition, etagMatches } from "./streamable-file";
+
 /**
  * Response Wrapper for WynkJS Framework
  * Provides a clean API for setting cookies, headers, status codes, and sending responses
@@ -15,6 +19,31 @@ export interface CookieOptions {
   partitioned?: boolean;
 }
 
+/**
+ * The `etag` application option and `@Etag()` mode: `"weak"` tags
+ * (`W/"..."`) or `"strong"` ones.
+ */
+export type EtagMode = "weak" | "strong";
+
+/**
+ * Options of `@Etag()`.
+ */
+export interface EtagOptions {
+  /** Weak (the default) or strong hashes of the serialized body. */
+  mode?: EtagMode;
+  /**
+   * Current version tag of the resource a request targets, e.g. from a
+   * version column, or `undefined` when it does not exist. Called with the
+   * controller as `this` and the route context. GET routes send it instead
+   * of a hash; PUT, PATCH and DELETE routes check `If-Match` against it
+   * before the handler runs, and need it to do so. Bare tags are quoted.
+   */
+  current?: (
+    this: any,
+    ctx: any
+  ) => string | undefined | Promise<string | undefined>;
+}
+
 /**
  * Response class - wraps Elysia context for response operations
  * Provides methods to set cookies, headers, status codes, and control response behavior
@@ -253,6 +282,39 @@ export class Response {
       .header("Expires", "0");
   }
 
+  /**
+   * Set the response's `ETag`, e.g. from a version column, instead of the
+   * hash of the body computed for `@Etag()` routes. Bare tags are quoted.
+   *
+   * @example
+   * response.etag(`v${order.version}`);
+   */
+  etag(tag: string, options?: { weak?: boolean }): this {
+    return this.header("ETag", formatEtag(tag, options?.weak));
+  }
+
+  /**
+   * Check the request's `If-Match` against the current tag of the resource,
+   * before a PUT, PATCH or DELETE changes it. Throws a
+   * `PreconditionFailedException` (412) when the client's copy is outdated;
+   * requests without `If-Match` pass. Routes with `@Etag({ current })` are
+   * checked without it; call it to compare with a version read in the same
+   * transaction.
+   *
+   * @example
+   * const order = await this.orders.findOne(id);
+   * response.checkIfMatch(`v${order.version}`);
+   */
+  checkIfMatch(currentTag: string): this {
+    const ifMatch = getRequestHeader(this.ctx, "if-match");
+    if (ifMatch && !etagMatches(ifMatch, formatEtag(currentTag), false)) {
+      throw new PreconditionFailedException(
+        "The resource was modified since it was read"
+      );
+    }
+    return this;
+  }
+
   /**
    * Set CORS headers
    */
@@ -292,10 +354,11 @@ export class Response {
   }
 
   /**
-   * Send a file download
+   * Mark the response as a file download named `filename`.
+   * To send the file itself, return a `StreamableFile` from the handler.
    */
   download(filename: string): this {
-    return this.header("Content-Disposition", `attachment; filename="${filename}"`);
+    return this.header("Content-Disposition", contentDisposition(filename));
   }
 
   /**
@@ -309,5 +372,98 @@ export class Response {
   }
 }
 
+function formatEtag(tag: string, weak?: boolean): string {
+  if (tag.startsWith('"') || tag.startsWith("W/")) return tag;
+  return `${weak ? "W/" : ""}"${tag}"`;
+}
+
+function getRequestHeader(ctx: any, name: string): string | undefined {
+  const request = ctx.request?.original ?? ctx.request;
+  return request?.headers?.get?.(name) ?? ctx.headers?.[name] ?? undefined;
+}
+
+function hashBody(body: any, mode: EtagMode): string {
+  const bytes =
+    body instanceof Uint8Array
+      ? body
+      : body instanceof ArrayBuffer
+        ? new Uint8Array(body)
+        : new TextEncoder().encode(
+            typeof body === "string" ? body : JSON.stringify(body)
+          );
+  const tag = `"${bytes.byteLength.toString(16)}-${Bun.hash(bytes).toString(16)}"`;
+  return mode === "weak" ? `W/${tag}` : tag;
+}
+
+/**
+ * Methods whose `If-Match` `@Etag()` routes check.
+ */
+export const PRECONDITION_METHODS = new Set(["PUT", "PATCH", "DELETE"]);
+
+/**
+ * Wrap a route handler to tag successful GET and HEAD responses with an
+ * `ETag` (the one set with `Response.etag()`, the `current` one, or a hash
+ * of the serialized body) and answer 304 Not Modified when `If-None-Match`
+ * matches it. PUT, PATCH and DELETE requests whose `If-Match` does not match
+ * the `current` tag (strongly) fail with 412 before the handler runs.
+ *
+ * @param current - Current tag of the targeted resource, bound to its controller
+ */
+export function createEtagHandler(
+  handler: (ctx: any) => Promise<any>,
+  mode: EtagMode,
+  current?: (ctx: any) => string | undefined | Promise<string | undefined>
+): (ctx: any) => Promise<any> {
+  return async (ctx: any) => {
+    // Read the raw request before the handler replaces it with the wrapper
+    const method = ctx.request?.method;
+    const ifNoneMatch = ctx.request?.headers?.get("if-none-match");
+    const ifMatch = ctx.request?.headers?.get("if-match");
+
+    if (ifMatch && current && PRECONDITION_METHODS.has(method)) {
+      const tag = await current(ctx);
+      if (tag === undefined || !etagMatches(ifMatch, formatEtag(tag), false)) {
+        throw new PreconditionFailedException(
+          "The resource was modified since it was read"
+        );
+      }
+    }
+
+    const result = await handler(ctx);
+    const status = Number(ctx.set?.status ?? 200) || 200;
+    if (
+      (method !== "GET" && method !== "HEAD") ||
+      status < 200 ||
+      status >= 300 ||
+      !isSerializedBody(result)
+    ) {
+      return result;
+    }
+
+    ctx.set.headers ??= {};
+    const name =
+      Object.keys(ctx.set.headers).find((key) => key.toLowerCase() === "etag") ??
+      "ETag";
+    if (!ctx.set.headers[name] && current) {
+      const tag = await current(ctx);
+      if (tag !== undefined) ctx.set.headers[name] = formatEtag(tag);
+    }
+    const etag: string = (ctx.set.headers[name] ??= hashBody(result, mode));
+    if (!ifNoneMatch || !etagMatches(ifNoneMatch, etag, true)) return result;
+
+    // Move the headers onto the response; Elysia would append them a second time
+    const headers = new Headers();
+    for (const [key, value] of Object.entries(ctx.set.headers)) {
+      // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+      delete ctx.set.headers[key];
+      if (/^content-(type|length)$/i.test(key)) continue;
+      for (const item of Array.isArray(value) ? value : [value]) {
+        headers.append(key, String(item));
+      }
+    }
+    return new globalThis.Response(null, { status: 304, headers });
+  };
+}
+
 // Export type alias for proper typing
 export type WynkResponse = Response;
@@ -0,0 +1,221 @@
+import "reflect-metadata";
+import { stat } from "node:fs/promises";
+import { basename, extname, resolve, sep } from "node:path";
+import { Module, DynamicModule } from "./module";
+import { isRouteExcluded, normalizePrefixPath } from "./global-prefix";
+import { parseAcceptEncoding } from "./plugins/compression";
+import { createFileResponse, resolveFileSource } from "./streamable-file";
+
+/**
+ * Static file serving for WynkJS Framework
+ * Serves a directory of assets (e.g. a built SPA) next to the API routes
+ */
+
+/**
+ * Options of one directory served by `ServeStaticModule.forRoot()`.
+ */
+export interface ServeStaticOptions {
+  /** Directory to serve. */
+  rootPath: string;
+  /** URL path the directory is served under. Defaults to `"/"`. Not affected by `globalPrefix`. */
+  serveRoot?: string;
+  /**
+   * Paths never served from the directory, as exact paths or `/*` wildcards
+   * (e.g. `["/health", "/internal/*"]`). The global prefix is always excluded.
+   */
+  exclude?: string[];
+  /**
+   * File sent for missing paths without an extension, so client-side routes
+   * of a single-page app load it: `true` for the index file, or a path
+   * relative to `rootPath`. Disabled by default.
+   */
+  spaFallback?: boolean | string;
+  /**
+   * `max-age` of `Cache-Control`, in seconds. Defaults to `0`. Index files and
+   * the SPA fallback are always sent with `no-cache`.
+   */
+  maxAge?: number;
+  /** Add `immutable` to `Cache-Control`, for fingerprinted assets. */
+  immutable?: boolean;
+  /** File served for directories. Defaults to `"index.html"`; `false` disables it. */
+  index?: string | false;
+  /** Serve files and directories starting with a dot. Disabled by default. */
+  dotfiles?: boolean;
+  /**
+   * Serve prebuilt `.br` and `.gz` siblings of a file (e.g. `app.js.br`) to
+   * clients accepting that encoding. Defaults to `true`.
+   */
+  precompressed?: boolean;
+}
+
+/** Injection token of the options passed to `ServeStaticModule.forRoot()`. */
+export const SERVE_STATIC_OPTIONS = Symbol("SERVE_STATIC_OPTIONS");
+
+/**
+ * Serves static files from one or more directories.
+ *
+ * @example
+ * @Module({
+ *   imports: [
+ *     ServeStaticModule.forRoot({
+ *       rootPath: "./admin/dist",
+ *       serveRoot: "/admin",
+ *       spaFallback: true,
+ *     }),
+ *   ],
+ * })
+ * export class AppModule {}
+ */
+@Module({})
+export class ServeStaticModule {
+  static forRoot(...options: ServeStaticOptions[]): DynamicModule {
+    for (const option of options) {
+      if (!option?.rootPath) {
+        throw new Error(
+          "ServeStaticModule.forRoot() requires a rootPath for every directory."
+        );
+      }
+    }
+    return {
+      module: ServeStaticModule,
+      providers: [{ provide: SERVE_STATIC_OPTIONS, useValue: options }],
+    };
+  }
+}
+
+// Preferred first, like compression()
+const PRECOMPRESSED_EXTENSIONS: Array<[encoding: string, extension: string]> = [
+  ["br", ".br"],
+  ["gzip", ".gz"],
+];
+
+async function findFile(path: string): Promise<string | undefined> {
+  try {
+    return (await stat(path)).isFile() ? path : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build the function serving `options.rootPath` under `options.serveRoot`
+ * for `GET` and `HEAD` requests no route matched. It resolves to `undefined`
+ * for other methods and for excluded, missing or forbidden paths.
+ *
+ * @param globalPrefix - Normalized application prefix, excluded from serving
+ */
+export function createServeStaticHandler(
+  options: ServeStaticOptions,
+  globalPrefix?: string
+): (request: globalThis.Request) => Promise<globalThis.Response | undefined> {
+  const root = resolve(options.rootPath);
+  const serveRoot = normalizePrefixPath(options.serveRoot ?? "/");
+  const index = options.index ?? "index.html";
+  const exclude = [...(options.exclude ?? [])];
+  if (globalPrefix) exclude.push(globalPrefix, `${globalPrefix}/*`);
+
+  const fallback =
+    options.spaFallback === true
+      ? index || "index.html"
+      : options.spaFallback || undefined;
+  let cacheControl = `public, max-age=${options.maxAge ?? 0}`;
+  if (options.immutable) cacheControl += ", immutable";
+
+  // Resolve a request path inside the root; undefined when it escapes it
+  const toFilePath = (relative: string): string | undefined => {
+    const segments = relative.split("/").filter(Boolean);
+    if (
+      segments.some(
+        (segment) =>
+          segment === ".." ||
+          segment.includes("\\") ||
+          segment.includes("\0") ||
+          (!options.dotfiles && segment.startsWith("."))
+      )
+    ) {
+      return undefined;
+    }
+    const path = resolve(root, ...segments);
+    return path === root || path.startsWith(root + sep) ? path : undefined;
+  };
+  const fallbackPath = fallback ? toFilePath(fallback) : undefined;
+
+  // Index pages link to fingerprinted assets and must be revalidated, however
+  // they were requested
+  const cacheControlFor = (path: string): string =>
+    (index && basename(path) === index) || path === fallbackPath
+      ? "no-cache"
+      : cacheControl;
+
+  const send = async (
+    request: globalThis.Request,
+    path: string,
+    headers: Record<string, string>
+  ): Promise<globalThis.Response | undefined> => {
+    const original = await resolveFileSource(path);
+    if (!original) return undefined;
+
+    let file = original;
+    if (options.precompressed !== false) {
+      headers["Vary"] = "Accept-Encoding";
+      const accepted = parseAcceptEncoding(
+        request.headers.get("accept-encoding")
+      );
+      for (const [encoding, extension] of PRECOMPRESSED_EXTENSIONS) {
+        if (!accepted.includes(encoding)) continue;
+        const variant = await resolveFileSource(path + extension);
+        if (!variant) continue;
+        // Keep the type of the original; compression() sends Response objects as is
+        file = { ...variant, type: original.type };
+        headers["Content-Encoding"] = encoding;
+        break;
+      }
+    }
+
+    return createFileResponse(file, request, { headers });
+  };
+
+  return async (request) => {
+    if (request.method !== "GET" && request.method !== "HEAD") return undefined;
+
+    const pathname = new URL(request.url).pathname;
+    if (
+      serveRoot !== "/" &&
+      pathname !== serveRoot &&
+      !pathname.startsWith(`${serveRoot}/`)
+    ) {
+      return undefined;
+    }
+    if (isRouteExcluded(pathname, exclude)) return undefined;
+
+    let relative: string;
+    try {
+      relative = decodeURIComponent(
+        serveRoot === "/" ? pathname : pathname.slice(serveRoot.length)
+      );
+    } catch {
+      return undefined;
+    }
+
+    const path = toFilePath(relative);
+    if (path) {
+      const found =
+        (await findFile(path)) ??
+        (index ? await findFile(resolve(path, index)) : undefined);
+      if (found) {
+        return send(request, found, { "Cache-Control": cacheControlFor(found) });
+      }
+
+      // Client-side routes have no extension; missing assets stay 404s
+      if (
+        fallbackPath &&
+        !extname(relative) &&
+        (await findFile(fallbackPath))
+      ) {
+        return send(request, fallbackPath, { "Cache-Control": "no-cache" });
+      }
+    }
+
+    return undefined;
+  };
+}
@@ -0,0 +1,236 @@
+import { Logger } from "./logger";
+
+/**
+ * Server-Sent Events for WynkJS Framework
+ * Streams the async iterable returned by an `@Sse()` handler as `text/event-stream`
+ */
+
+/**
+ * One event of an SSE stream. Non-string `data` is sent as JSON.
+ *
+ * @example
+ * yield { event: "tick", id: 1, data: { count: 1 } };
+ */
+export interface SseMessage {
+  /** Event payload; objects, arrays, numbers and booleans are JSON-encoded. */
+  data: any;
+  /** Event type, dispatched to `addEventListener(event)` on the client. */
+  event?: string;
+  /** Event ID; the client sends it back as `Last-Event-ID` when reconnecting. */
+  id?: string | number;
+  /** Reconnection delay in milliseconds. */
+  retry?: number;
+}
+
+/**
+ * Options of an SSE stream.
+ */
+export interface SseStreamOptions {
+  /**
+   * Interval in milliseconds of `: keep-alive` comments sent while no event
+   * is produced, so proxies don't close idle connections. `false` disables them.
+   * Defaults to 15 seconds.
+   */
+  keepAlive?: number | false;
+  /** Aborted when the client disconnects. */
+  signal?: AbortSignal;
+}
+
+/** Default interval of keep-alive comments. */
+export const SSE_KEEP_ALIVE_INTERVAL = 15_000;
+
+const KEEP_ALIVE_COMMENT = ": keep-alive\n\n";
+
+const logger = new Logger("Sse");
+
+/**
+ * Values treated as an SSE stream: async iterables and iterables other than
+ * strings and arrays (e.g. generators).
+ */
+export function isSseSource(value: any): value is AsyncIterable<any> | Iterable<any> {
+  if (value == null || typeof value !== "object") return false;
+  if (Array.isArray(value) || value instanceof ReadableStream) return false;
+  return (
+    typeof value[Symbol.asyncIterator] === "function" ||
+    typeof value[Symbol.iterator] === "function"
+  );
+}
+
+function sanitizeField(value: string | number): string {
+  // Line breaks would start a new field
+  return String(value).replace(/[\r\n]/g, "");
+}
+
+/**
+ * Format one message in the `text/event-stream` wire format. A value that is
+ * not an object with a `data` property is sent as the event data.
+ *
+ * @example
+ * formatSseMessage({ event: "tick", data: { count: 1 } });
+ * // "event: tick\ndata: {\"count\":1}\n\n"
+ */
+export function formatSseMessage(message: SseMessage | any): string {
+  const event: SseMessage =
+    message !== null && typeof message === "object" && "data" in message
+      ? message
+      : { data: message };
+
+  let output = "";
+  if (event.event !== undefined) output += `event: ${sanitizeField(event.event)}\n`;
+  if (event.id !== undefined) output += `id: ${sanitizeField(event.id)}\n`;
+  if (event.retry !== undefined) {
+    output += `retry: ${Math.max(0, Math.floor(Number(event.retry)))}\n`;
+  }
+
+  const data =
+    typeof event.data === "string"
+      ? event.data
+      : JSON.stringify(event.data === undefined ? null : event.data);
+  for (const line of data.split(/\r\n|\r|\n/)) {
+    output += `data: ${line}\n`;
+  }
+
+  return output + "\n";
+}
+
+/**
+ * Stream an (async) iterable of messages as a `text/event-stream` response.
+ * When the client disconnects, the iterator is closed with `return()`, so
+ * `finally` blocks of async generators run (once the pending step settles)
+ * and can release resources.
+ *
+ * @example
+ * async function* ticks() {
+ *   const timer = setInterval(...);
+ *   try {
+ *     while (true) yield { data: await next() };
+ *   } finally {
+ *     clearInterval(timer); // runs on disconnect
+ *   }
+ * }
+ * return createSseResponse(ticks(), { signal: request.signal });
+ */
+export function createSseResponse(
+  source: AsyncIterable<any> | Iterable<any>,
+  options: SseStreamOptions = {},
+  init: { status?: number; headers?: Record<string, string> } = {}
+): globalThis.Response {
+  const encoder = new TextEncoder();
+  const iterator: AsyncIterator<any> | Iterator<any> =
+    typeof (source as any)[Symbol.asyncIterator] === "function"
+      ? (source as AsyncIterable<any>)[Symbol.asyncIterator]()
+      : (source as Iterable<any>)[Symbol.iterator]();
+
+  const keepAlive = options.keepAlive ?? SSE_KEEP_ALIVE_INTERVAL;
+  let timer: ReturnType<typeof setInterval> | undefined;
+  let closed = false;
+
+  const close = (): void => {
+    if (closed) return;
+    closed = true;
+    if (timer) clearInterval(timer);
+    options.signal?.removeEventListener("abort", onAbort);
+    // Not awaited: an async generator only returns once its pending step settles
+    Promise.resolve()
+      .then(() => iterator.return?.())
+      .catch((error) => {
+        logger.warn("SSE source failed to close", { error: String(error) });
+      });
+  };
+  const onAbort = () => close();
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (options.signal?.aborted) {
+        close();
+        controller.close();
+        return;
+      }
+      options.signal?.addEventListener("abort", onAbort, { once: true });
+
+      if (keepAlive !== false && keepAlive > 0) {
+        timer = setInterval(() => {
+          if (closed) return;
+          try {
+            controller.enqueue(encoder.encode(KEEP_ALIVE_COMMENT));
+          } catch {
+            close();
+          }
+        }, keepAlive);
+      }
+    },
+
+    async pull(controller) {
+      if (closed) return;
+      try {
+        const result = await iterator.next();
+        if (closed) return;
+        if (result.done) {
+          close();
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(formatSseMessage(result.value)));
+      } catch (error) {
+        // Headers are already sent; end the stream and let the client reconnect
+        logger.error("SSE source failed", error as Error);
+        close();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      }
+    },
+
+    cancel() {
+      close();
+    },
+  });
+
+  const headers = new Headers(init.headers);
+  headers.set("Content-Type", "text/event-stream; charset=utf-8");
+  headers.set("Cache-Control", "no-cache");
+  headers.set("Connection", "keep-alive");
+  // Disable response buffering in nginx
+  headers.set("X-Accel-Buffering", "no");
+
+  return new globalThis.Response(stream, { status: init.status ?? 200, headers });
+}
+
+/**
+ * Wrap a route handler so that an (async) iterable result is streamed as SSE.
+ * Guards, interceptors and filters run inside `handler`; a rejected guard or a
+ * mapped exception is returned unchanged as a regular response.
+ */
+export function createSseHandler(
+  handler: (ctx: any) => Promise<any>,
+  options: SseStreamOptions = {}
+): (ctx: any) => Promise<any> {
+  // Elysia only parses headers, query and body for handlers passing their
+  // context on to another function, so the wrapper must not read it first
+  return async (ctx: any) => {
+    const result = await handler(ctx);
+    return isSseSource(result) ? sendSse(ctx, result, options) : result;
+  };
+}
+
+function sendSse(
+  ctx: any,
+  source: AsyncIterable<any> | Iterable<any>,
+  options: SseStreamOptions
+): globalThis.Response {
+  // Move the headers onto the response; Elysia would append them a second time
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(ctx.set?.headers ?? {})) {
+    if (typeof value !== "string") continue;
+    headers[name] = value;
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete ctx.set.headers[name];
+  }
+  const status = typeof ctx.set?.status === "number" ? ctx.set.status : 200;
+  // The request wrapper exposes the signal of the request it wraps
+  const signal: AbortSignal | undefined = ctx.request?.signal;
+
+  return createSseResponse(source, { ...options, signal }, { status, headers });
+}
@@ -0,0 +1,479 @@
+import type { BunFile } from "bun";
+import { basename } from "node:path";
+import { NotFoundException } from "./decorators/exception.decorators";
+
+/**
+ * File streaming for WynkJS Framework
+ * Sends a `StreamableFile` returned by a handler without buffering it, with
+ * byte ranges and conditional requests
+ */
+
+/**
+ * What a `StreamableFile` reads from: a file path, a `Bun.file()`, a stream
+ * or bytes already in memory.
+ */
+export type StreamableFileSource =
+  string | BunFile | ReadableStream<Uint8Array> | Uint8Array | ArrayBuffer;
+
+/**
+ * Options of a `StreamableFile`.
+ */
+export interface StreamableFileOptions {
+  /** `Content-Type`. Defaults to the type of the file's extension, or `application/octet-stream`. */
+  type?: string;
+  /**
+   * `Content-Disposition` type. Defaults to `"attachment"` when `filename`
+   * is given; no header is sent otherwise.
+   */
+  disposition?: "attachment" | "inline";
+  /** Name offered to the client when saving the file. */
+  filename?: string;
+  /** Length in bytes of a `ReadableStream` source, sent as `Content-Length`. */
+  length?: number;
+  /** Modification date, sent as `Last-Modified`. Defaults to the file's for file sources. */
+  lastModified?: Date | number;
+  /**
+   * `ETag` of the content. Computed from the modification date and size of
+   * files and from the content of byte sources; `false` disables it.
+   */
+  etag?: string | false;
+}
+
+/**
+ * A file returned from a route handler. It is streamed to the client with
+ * `Content-Type`, `Content-Length` and `Content-Disposition` headers, and
+ * honors `Range`, `If-Range`, `If-None-Match` and `If-Modified-Since` for
+ * sources of known length.
+ *
+ * @example
+ * @Get("/reports/:id/export")
+ * export(@Param("id") id: string) {
+ *   return new StreamableFile(`./exports/${id}.csv`, { filename: "report.csv" });
+ * }
+ */
+export class StreamableFile {
+  constructor(
+    readonly source: StreamableFileSource,
+    readonly options: StreamableFileOptions = {}
+  ) {}
+}
+
+/**
+ * `Content-Disposition` header value for `filename`, with an RFC 5987
+ * `filename*` parameter when the name is not plain ASCII.
+ *
+ * @example
+ * contentDisposition("rapport été.pdf");
+ * // attachment; filename="rapport ?t?.pdf"; filename*=UTF-8''rapport%20%C3%A9t%C3%A9.pdf
+ */
+export function contentDisposition(
+  filename?: string,
+  type: "attachment" | "inline" = "attachment"
+): string {
+  if (!filename) return type;
+  const fallback = filename
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/["\\]/g, "\\$&");
+  if (!/[^\x20-\x7e]/.test(filename)) {
+    return `${type}; filename="${fallback}"`;
+  }
+  const encoded = encodeURIComponent(filename).replace(
+    /['()*]/g,
+    (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+  return `${type}; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * A file source resolved to a body and its validators.
+ */
+export interface ResolvedFile {
+  /** Files and bytes have a known length and can be sliced into ranges. */
+  body: BunFile | Uint8Array | ReadableStream<Uint8Array>;
+  size?: number;
+  type: string;
+  /** Modification time in milliseconds. */
+  lastModified?: number;
+  etag?: string;
+  /** Base name of path sources. */
+  name?: string;
+}
+
+const DEFAULT_TYPE = "application/octet-stream";
+
+function isBunFile(source: unknown): source is BunFile {
+  return typeof (source as BunFile)?.exists === "function";
+}
+
+/**
+ * Resolve a file source. Returns `undefined` when a file source does not exist.
+ */
+export async function resolveFileSource(
+  source: StreamableFileSource,
+  options: StreamableFileOptions = {}
+): Promise<ResolvedFile | undefined> {
+  const lastModified =
+    options.lastModified instanceof Date
+      ? options.lastModified.getTime()
+      : options.lastModified;
+  let resolved: ResolvedFile;
+
+  if (typeof source === "string" || isBunFile(source)) {
+    const file = typeof source === "string" ? Bun.file(source) : source;
+    if (!(await file.exists())) return undefined;
+    const mtime = lastModified ?? file.lastModified;
+    resolved = {
+      body: file,
+      size: file.size,
+      type: file.type || DEFAULT_TYPE,
+      lastModified: mtime,
+      etag: `"${Math.floor(mtime).toString(16)}-${file.size.toString(16)}"`,
+      name: file.name ? basename(file.name) : undefined,
+    };
+  } else if (source instanceof ReadableStream) {
+    resolved = {
+      body: source,
+      size: options.length,
+      type: DEFAULT_TYPE,
+      lastModified,
+    };
+  } else {
+    const bytes =
+      source instanceof Uint8Array ? source : new Uint8Array(source);
+    resolved = {
+      body: bytes,
+      size: bytes.byteLength,
+      type: DEFAULT_TYPE,
+      lastModified,
+      etag: `"${bytes.byteLength.toString(16)}-${Bun.hash(bytes).toString(16)}"`,
+    };
+  }
+
+  if (options.type) resolved.type = options.type;
+  if (options.etag !== undefined) {
+    resolved.etag = options.etag === false ? undefined : options.etag;
+  }
+  return resolved;
+}
+
+/** Request headers: a `Headers` object or the request wrapper's headers. */
+interface RequestHeaders {
+  get(name: string): string | null | undefined;
+}
+
+/**
+ * The request a file is sent for: a `Request`, or the WynkJS request wrapper.
+ */
+export interface FileRequest {
+  method?: string;
+  headers: RequestHeaders;
+}
+
+/** Byte range with an inclusive `end`. */
+interface ByteRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Parse a `Range` header against a body of `size` bytes. Overlapping and
+ * adjacent ranges are combined. Returns `undefined` when the header is not a
+ * valid bytes range (it is then ignored), and an empty list when no range
+ * is satisfiable.
+ */
+export function parseRange(
+  header: string,
+  size: number
+): ByteRange[] | undefined {
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return undefined;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of match[1].split(",")) {
+    const parts = /^\s*(\d*)\s*-\s*(\d*)\s*$/.exec(spec);
+    if (!parts || (parts[1] === "" && parts[2] === "")) return undefined;
+
+    let start: number;
+    let end: number;
+    if (parts[1] === "") {
+      // Suffix range: the last N bytes
+      start = Math.max(size - Number(parts[2]), 0);
+      end = size - 1;
+      if (Number(parts[2]) === 0) continue;
+    } else {
+      start = Number(parts[1]);
+      end = parts[2] === "" ? size - 1 : Math.min(Number(parts[2]), size - 1);
+      if (parts[2] !== "" && Number(parts[2]) < start) return undefined;
+    }
+    if (start < size) ranges.push({ start, end });
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const combined: ByteRange[] = [];
+  for (const range of ranges) {
+    const last = combined[combined.length - 1];
+    if (last && range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      combined.push({ ...range });
+    }
+  }
+  return combined;
+}
+
+/**
+ * Whether an `If-None-Match`, `If-Match` or `If-Range` header lists `etag`,
+ * comparing weakly (ignoring `W/`) or strongly.
+ */
+export function etagMatches(header: string, etag: string, weak: boolean): boolean {
+  const opaque = (tag: string) => tag.trim().replace(/^W\//, "");
+  return header.split(",").some((candidate) => {
+    const tag = candidate.trim();
+    if (tag === "*") return true;
+    if (!weak && (tag.startsWith("W/") || etag.startsWith("W/"))) return false;
+    return opaque(tag) === opaque(etag);
+  });
+}
+
+function isNotModified(headers: RequestHeaders, file: ResolvedFile): boolean {
+  const ifNoneMatch = headers.get("if-none-match");
+  if (ifNoneMatch) {
+    return file.etag !== undefined && etagMatches(ifNoneMatch, file.etag, true);
+  }
+  const ifModifiedSince = headers.get("if-modified-since");
+  if (ifModifiedSince && file.lastModified !== undefined) {
+    const since = Date.parse(ifModifiedSince);
+    return (
+      !Number.isNaN(since) &&
+      Math.floor(file.lastModified / 1000) * 1000 <= since
+    );
+  }
+  return false;
+}
+
+function isRangeFresh(headers: RequestHeaders, file: ResolvedFile): boolean {
+  const ifRange = headers.get("if-range");
+  if (!ifRange) return true;
+  if (ifRange.trim().startsWith('"') || ifRange.trim().startsWith("W/")) {
+    return file.etag !== undefined && etagMatches(ifRange, file.etag, false);
+  }
+  const date = Date.parse(ifRange);
+  return (
+    file.lastModified !== undefined &&
+    !Number.isNaN(date) &&
+    Math.floor(file.lastModified / 1000) * 1000 === date
+  );
+}
+
+function sliceBody(
+  body: BunFile | Uint8Array,
+  { start, end }: ByteRange
+): BunFile | Uint8Array {
+  return body instanceof Uint8Array
+    ? body.subarray(start, end + 1)
+    : body.slice(start, end + 1);
+}
+
+function multipartBody(
+  source: BunFile | Uint8Array,
+  ranges: ByteRange[],
+  type: string,
+  size: number,
+  boundary: string
+): { body: ReadableStream<Uint8Array>; length: number } {
+  const encoder = new TextEncoder();
+  const heads = ranges.map((range, index) =>
+    encoder.encode(
+      `${index === 0 ? "" : "\r\n"}--${boundary}\r\nContent-Type: ${type}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`
+    )
+  );
+  const tail = encoder.encode(`\r\n--${boundary}--\r\n`);
+  const length =
+    heads.reduce((total, head) => total + head.byteLength, 0) +
+    ranges.reduce((total, range) => total + range.end - range.start + 1, 0) +
+    tail.byteLength;
+
+  async function* parts(): AsyncGenerator<Uint8Array> {
+    for (const [index, range] of ranges.entries()) {
+      yield heads[index];
+      // Parts are read one at a time, so large ranges are never buffered
+      const part = sliceBody(source, range);
+      if (part instanceof Uint8Array) {
+        yield part;
+      } else {
+        for await (const chunk of part.stream()) yield chunk;
+      }
+    }
+    yield tail;
+  }
+
+  const iterator = parts();
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await iterator.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    async cancel() {
+      await iterator.return(undefined);
+    },
+  });
+  return { body, length };
+}
+
+// Headers describing the representation; values set on the response do not replace them
+const COMPUTED_HEADERS = new Set([
+  "content-length",
+  "content-range",
+  "accept-ranges",
+  "etag",
+  "last-modified",
+]);
+
+/**
+ * Build the response for a resolved file: `304` for fresh conditional
+ * requests, `206` for satisfiable `Range` requests (`multipart/byteranges`
+ * for several ranges), `416` for unsatisfiable ones and the whole file
+ * otherwise. Headers in `init` are kept, and override the file's
+ * `Content-Type` and `Content-Disposition`.
+ */
+export function createFileResponse(
+  file: ResolvedFile,
+  request: FileRequest | undefined,
+  init: {
+    status?: number;
+    headers?: Record<string, string | string[]>;
+    disposition?: string;
+  } = {}
+): globalThis.Response {
+  const requestHeaders: RequestHeaders = request?.headers ?? new Headers();
+  const method = (request?.method ?? "GET").toUpperCase();
+  const headers = new Headers({ "Content-Type": file.type });
+  if (init.disposition) headers.set("Content-Disposition", init.disposition);
+  for (const [name, value] of Object.entries(init.headers ?? {})) {
+    if (COMPUTED_HEADERS.has(name.toLowerCase())) continue;
+    if (Array.isArray(value)) {
+      headers.delete(name);
+      for (const item of value) headers.append(name, item);
+    } else if (typeof value === "string") {
+      headers.set(name, value);
+    }
+  }
+  if (file.etag) headers.set("ETag", file.etag);
+  if (file.lastModified !== undefined) {
+    headers.set("Last-Modified", new Date(file.lastModified).toUTCString());
+  }
+
+  const status = init.status ?? 200;
+  const cacheable = (method === "GET" || method === "HEAD") && status === 200;
+  if (cacheable && isNotModified(requestHeaders, file)) {
+    headers.delete("Content-Type");
+    headers.delete("Content-Disposition");
+    return new Response(null, { status: 304, headers });
+  }
+
+  const { body, size } = file;
+  if (size === undefined || body instanceof ReadableStream) {
+    if (size !== undefined) headers.set("Content-Length", String(size));
+    return new Response(method === "HEAD" ? null : body, { status, headers });
+  }
+
+  headers.set("Accept-Ranges", "bytes");
+  const rangeHeader = requestHeaders.get("range");
+  const ranges =
+    cacheable && rangeHeader && isRangeFresh(requestHeaders, file)
+      ? parseRange(rangeHeader, size)
+      : undefined;
+
+  if (ranges?.length === 0) {
+    headers.delete("Content-Type");
+    headers.delete("Content-Disposition");
+    headers.set("Content-Range", `bytes */${size}`);
+    return new Response(null, { status: 416, headers });
+  }
+
+  if (ranges?.length === 1) {
+    const [range] = ranges;
+    headers.set("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+    headers.set("Content-Length", String(range.end - range.start + 1));
+    return new Response(method === "HEAD" ? null : sliceBody(body, range), {
+      status: 206,
+      headers,
+    });
+  }
+
+  if (ranges) {
+    const boundary = `wynk-${crypto.randomUUID()}`;
+    const multipart = multipartBody(body, ranges, file.type, size, boundary);
+    headers.set("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+    headers.set("Content-Length", String(multipart.length));
+    if (method === "HEAD") void multipart.body.cancel();
+    return new Response(method === "HEAD" ? null : multipart.body, {
+      status: 206,
+      headers,
+    });
+  }
+
+  headers.set("Content-Length", String(size));
+  return new Response(method === "HEAD" ? null : body, { status, headers });
+}
+
+/**
+ * Send a `StreamableFile`. Responds with a `404` when its file does not exist.
+ */
+export async function createStreamableFileResponse(
+  file: StreamableFile,
+  request: FileRequest | undefined,
+  init: { status?: number; headers?: Record<string, string | string[]> } = {}
+): Promise<globalThis.Response> {
+  const resolved = await resolveFileSource(file.source, file.options);
+  if (!resolved) {
+    const error = new NotFoundException("File not found");
+    return Response.json(error.getResponse(), { status: error.getStatus() });
+  }
+
+  const { disposition, filename } = file.options;
+  return createFileResponse(resolved, request, {
+    ...init,
+    disposition:
+      disposition || filename
+        ? contentDisposition(
+            filename ??
+              (disposition === "attachment" ? resolved.name : undefined),
+            disposition ?? "attachment"
+          )
+        : undefined,
+  });
+}
+
+/**
+ * Wrap a route handler so a returned `StreamableFile` is sent as a file
+ * response, keeping the status and headers set by the handler.
+ */
+export function createStreamableFileHandler(
+  handler: (ctx: any) => Promise<any>
+): (ctx: any) => Promise<any> {
+  // Elysia only parses headers, query and body for handlers passing their
+  // context on to another function, so the wrapper must not read it first
+  return async (ctx: any) => {
+    const result = await handler(ctx);
+    return result instanceof StreamableFile
+      ? sendStreamableFile(ctx, result)
+      : result;
+  };
+}
+
+function sendStreamableFile(
+  ctx: any,
+  file: StreamableFile
+): Promise<globalThis.Response> {
+  // Move the headers onto the response; Elysia would append them a second time
+  const headers: Record<string, string | string[]> = { ...ctx.set?.headers };
+  for (const name of Object.keys(headers)) {
+    // eslint-disable-next-line @typescript-eslint/no-dynamic-delete
+    delete ctx.set.headers[name];
+  }
+  const status = typeof ctx.set?.status === "number" ? ctx.set.status : 200;
+
+  return createStreamableFileResponse(file, ctx.request, { status, headers });
+}
@@ -37,6 +37,8 @@ import { ParamMetadata } from "./decorators/param.decorators";
 
 export interface HandlerBuildOptions {
   instance: any;
+  /** Creates the controller instance per request (request-scoped controllers). */
+  resolveInstance?: (ctx: any) => any;
   methodName: string;
   ControllerClass: any;
   params: ParamMetadata[];
@@ -60,6 +62,7 @@ export function buildUltraOptimizedHandler(
 ): (ctx: any) => Promise<any> {
   const {
     instance,
+    resolveInstance,
     methodName,
     ControllerClass,
     params,
@@ -79,6 +82,9 @@ export function buildUltraOptimizedHandler(
     params.sort((a, b) => a.index - b.index);
   }
 
+  // Request-scoped controllers get a fresh instance per request
+  const getInstance: (ctx: any) => any = resolveInstance || (() => instance);
+
   // Determine which features are actually used
   const hasGuards = allGuards.length > 0;
   const hasInterceptors = allInterceptors.length > 0;
@@ -106,7 +112,7 @@ export function buildUltraOptimizedHandler(
         ctx.response = new Response(ctx);
         ctx.__wynk_wrapped__ = true;
       }
-      return await instance[methodName](ctx);
+      return await getInstance(ctx)[methodName](ctx);
     };
   }
 
@@ -125,6 +131,7 @@ export function buildUltraOptimizedHandler(
         ctx.response = new Response(ctx);
         ctx.__wynk_wrapped__ = true;
       }
+      const target = getInstance(ctx);
       const args: any[] = new Array(params.length);
 
       for (const param of params) {
@@ -169,6 +176,9 @@ export function buildUltraOptimizedHandler(
           case "files":
             value = ctx.body?.files || ctx.files;
             break;
+          case "rawBody":
+            value = ctx.rawBody;
+            break;
           case "custom":
             if (param.factory) {
               const execCtx = createExecutionContext(
@@ -201,7 +211,7 @@ export function buildUltraOptimizedHandler(
         args[param.index] = value;
       }
 
-      return await instance[methodName](...args);
+      return await target[methodName](...args);
     };
   }
 
@@ -213,6 +223,7 @@ export function buildUltraOptimizedHandler(
       ctx.response = new Response(ctx);
       ctx.__wynk_wrapped__ = true;
     }
+    const target = getInstance(ctx);
     try {
       // Guards
       if (hasGuards) {
@@ -239,7 +250,7 @@ export function buildUltraOptimizedHandler(
       // Prepare the actual handler execution
       const executeMethod = async (): Promise<any> => {
         if (!hasParams) {
-          return await instance[methodName](ctx);
+          return await target[methodName](ctx);
         }
 
         const args: any[] = new Array(params.length);
@@ -286,6 +297,9 @@ export function buildUltraOptimizedHandler(
             case "files":
               value = ctx.body?.files || ctx.files;
               break;
+            case "rawBody":
+              value = ctx.rawBody;
+              break;
             case "custom":
               if (param.factory) {
                 const execCtx = createExecutionContext(
@@ -317,7 +331,7 @@ export function buildUltraOptimizedHandler(
           args[param.index] = value;
         }
 
-        return await instance[methodName](...args);
+        return await target[methodName](...args);
       };
 
       // Interceptors
@@ -0,0 +1,598 @@
+import "reflect-metadata";
+import { randomUUID } from "node:crypto";
+import { createWriteStream } from "node:fs";
+import { mkdir, unlink } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import {
+  BadRequestException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+} from "./decorators/exception.decorators";
+import { ExecutionContext } from "./decorators/guard.decorators";
+import { WynkInterceptor } from "./decorators/interceptor.decorators";
+
+/**
+ * File uploads for WynkJS Framework
+ * Streams multipart/form-data requests into a storage engine, enforcing
+ * limits while the body is read instead of buffering it first
+ */
+
+/**
+ * Limits of one upload route. Exceeding any of them answers 413.
+ */
+export interface UploadLimits {
+  /** Maximum size of each file, in bytes. Unlimited by default. */
+  fileSize?: number;
+  /** Maximum number of files. Unlimited by default, besides the interceptor's `maxCount`. */
+  files?: number;
+  /** Maximum number of non-file fields. Unlimited by default. */
+  fields?: number;
+  /** Maximum size of each non-file field value, in bytes. Defaults to 1 MiB. */
+  fieldSize?: number;
+  /** Maximum number of parts (files and fields). Unlimited by default. */
+  parts?: number;
+}
+
+/**
+ * A file part as it arrives, before it is stored.
+ */
+export interface IncomingFile {
+  /** Form field the file was sent in. */
+  fieldname: string;
+  /** File name given by the client. */
+  originalname: string;
+  /** Content type given by the client. */
+  mimetype: string;
+  /**
+   * File contents. Throws `PayloadTooLargeException` once `fileSize` is
+   * exceeded; engines must then discard what they stored.
+   */
+  stream: AsyncIterable<Uint8Array>;
+}
+
+/**
+ * An uploaded file, as received by `@UploadedFile()` and `@UploadedFiles()`.
+ * `name`, `type` and `size` mirror the `File` properties, so `ParseFilePipe`
+ * validates it like a `File`.
+ */
+export interface StoredFile {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  /** Size in bytes. */
+  size: number;
+  /** Same as `originalname`. */
+  name: string;
+  /** Same as `mimetype`. */
+  type: string;
+  /** Contents, with `memoryStorage()`. */
+  buffer?: Buffer;
+  /** Directory of the file, with `diskStorage()`. */
+  destination?: string;
+  /** Name of the file in `destination`, with `diskStorage()`. */
+  filename?: string;
+  /** Full path of the file, with `diskStorage()`. */
+  path?: string;
+  [key: string]: any;
+}
+
+/**
+ * Where uploaded files go. `handleFile()` consumes the stream and returns
+ * the properties it adds to the file (e.g. `path`); `removeFile()` deletes
+ * a stored file when the request fails.
+ */
+export interface StorageEngine {
+  handleFile(file: IncomingFile): Promise<Partial<StoredFile>>;
+  removeFile(file: StoredFile): Promise<void>;
+}
+
+/**
+ * Options of `FileInterceptor()`, `FilesInterceptor()` and `FileFieldsInterceptor()`.
+ */
+export interface UploadOptions {
+  limits?: UploadLimits;
+  /** Defaults to `memoryStorage()`. */
+  storage?: StorageEngine;
+}
+
+/**
+ * A file field accepted by `FileFieldsInterceptor()`.
+ */
+export interface UploadField {
+  name: string;
+  /** Maximum number of files in the field. Defaults to 1. */
+  maxCount?: number;
+}
+
+/**
+ * Keeps uploaded files in memory, as `file.buffer`.
+ * Combine with a `fileSize` limit.
+ */
+export function memoryStorage(): StorageEngine {
+  return {
+    async handleFile(file) {
+      const chunks: Uint8Array[] = [];
+      for await (const chunk of file.stream) chunks.push(chunk);
+      return { buffer: Buffer.concat(chunks) };
+    },
+    async removeFile(file) {
+      delete file.buffer;
+    },
+  };
+}
+
+/**
+ * Options of `diskStorage()`.
+ */
+export interface DiskStorageOptions {
+  /** Directory files are written to, created when missing. Defaults to the OS temp directory. */
+  destination?: string | ((file: IncomingFile) => string | Promise<string>);
+  /** Name of the file in `destination`. Defaults to a random UUID without extension. */
+  filename?: (file: IncomingFile) => string | Promise<string>;
+}
+
+/**
+ * Writes uploaded files to disk as they arrive. Files are removed again
+ * when the upload exceeds a limit or the request fails.
+ *
+ * @example
+ * FileInterceptor("avatar", {
+ *   storage: diskStorage({
+ *     destination: "./uploads",
+ *     filename: (file) => `${Date.now()}-${file.originalname}`,
+ *   }),
+ * })
+ */
+export function diskStorage(options: DiskStorageOptions = {}): StorageEngine {
+  const removeFile = async (path: string) => {
+    try {
+      await unlink(path);
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+  };
+
+  return {
+    async handleFile(file) {
+      const destination =
+        typeof options.destination === "function"
+          ? await options.destination(file)
+          : options.destination ?? tmpdir();
+      const filename = options.filename
+        ? await options.filename(file)
+        : randomUUID();
+      if (!filename || basename(filename) !== filename) {
+        throw new Error(
+          `diskStorage() filename must be a plain file name, got "${filename}".`
+        );
+      }
+
+      await mkdir(destination, { recursive: true });
+      const path = join(destination, filename);
+      try {
+        await pipeline(Readable.from(file.stream), createWriteStream(path));
+      } catch (error) {
+        await removeFile(path);
+        throw error;
+      }
+      return { destination, filename, path };
+    },
+    async removeFile(file) {
+      if (file.path) await removeFile(file.path);
+    },
+  };
+}
+
+const CRLF = Buffer.from("\r\n");
+const HEADER_END = Buffer.from("\r\n\r\n");
+const MAX_HEADER_SIZE = 16 * 1024;
+const DEFAULT_FIELD_SIZE = 1024 * 1024;
+
+function malformed(): BadRequestException {
+  return new BadRequestException("Malformed multipart/form-data body");
+}
+
+interface MultipartPart {
+  name: string;
+  filename?: string;
+  mimetype: string;
+  body: AsyncGenerator<Uint8Array>;
+}
+
+/**
+ * Read `multipart/form-data` part by part, holding at most one chunk of the
+ * body (plus the part headers) in memory.
+ */
+class MultipartReader {
+  private buffer: Buffer = Buffer.alloc(0);
+  private ended = false;
+  private partEnded = true;
+  private readonly dashBoundary: Buffer;
+  private readonly delimiter: Buffer;
+
+  constructor(
+    private readonly reader: {
+      read(): Promise<{ done: boolean; value?: Uint8Array }>;
+    },
+    boundary: string
+  ) {
+    this.dashBoundary = Buffer.from(`--${boundary}`);
+    this.delimiter = Buffer.from(`\r\n--${boundary}`);
+  }
+
+  private async pull(): Promise<boolean> {
+    if (this.ended) return false;
+    const { done, value } = await this.reader.read();
+    if (done || !value) {
+      this.ended = true;
+      return false;
+    }
+    this.buffer =
+      this.buffer.length > 0
+        ? Buffer.concat([this.buffer, value])
+        : Buffer.from(value.buffer, value.byteOffset, value.byteLength);
+    return true;
+  }
+
+  async *parts(): AsyncGenerator<MultipartPart> {
+    // Skip the preamble
+    let index: number;
+    while ((index = this.buffer.indexOf(this.dashBoundary)) === -1) {
+      this.buffer = this.buffer.subarray(
+        Math.max(0, this.buffer.length - this.dashBoundary.length + 1)
+      );
+      if (!(await this.pull())) throw malformed();
+    }
+    this.buffer = this.buffer.subarray(index + this.dashBoundary.length);
+
+    while (true) {
+      while (this.buffer.length < 2) {
+        if (!(await this.pull())) throw malformed();
+      }
+      // "--" after a boundary closes the body
+      if (this.buffer[0] === 0x2d && this.buffer[1] === 0x2d) return;
+
+      // Rest of the boundary line (transport padding), then the part headers
+      let lineEnd: number;
+      while ((lineEnd = this.buffer.indexOf(CRLF)) === -1) {
+        if (!(await this.pull())) throw malformed();
+      }
+      let headerEnd: number;
+      while ((headerEnd = this.buffer.indexOf(HEADER_END, lineEnd)) === -1) {
+        if (this.buffer.length > MAX_HEADER_SIZE) {
+          throw new PayloadTooLargeException("Multipart part headers are too large");
+        }
+        if (!(await this.pull())) throw malformed();
+      }
+      const head = this.buffer
+        .subarray(lineEnd + CRLF.length, headerEnd)
+        .toString("utf8");
+      this.buffer = this.buffer.subarray(headerEnd + HEADER_END.length);
+
+      const part = parsePartHeaders(head);
+      this.partEnded = false;
+      yield { ...part, body: this.body() };
+      // Skip whatever the consumer left unread
+      if (!this.partEnded) {
+        for await (const _chunk of this.body()) {
+          // discard
+        }
+      }
+    }
+  }
+
+  private async *body(): AsyncGenerator<Uint8Array> {
+    while (true) {
+      const index = this.buffer.indexOf(this.delimiter);
+      if (index !== -1) {
+        const chunk = this.buffer.subarray(0, index);
+        this.buffer = this.buffer.subarray(index + this.delimiter.length);
+        this.partEnded = true;
+        if (chunk.length > 0) yield chunk;
+        return;
+      }
+      // Keep a tail that may be the start of the delimiter
+      const safe = this.buffer.length - this.delimiter.length + 1;
+      if (safe > 0) {
+        const chunk = this.buffer.subarray(0, safe);
+        this.buffer = this.buffer.subarray(safe);
+        yield chunk;
+      }
+      if (!(await this.pull())) throw malformed();
+    }
+  }
+}
+
+function parsePartHeaders(head: string): Omit<MultipartPart, "body"> {
+  let disposition = "";
+  let mimetype = "text/plain";
+  for (const line of head.split("\r\n")) {
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+    const name = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+    if (name === "content-disposition") disposition = value;
+    else if (name === "content-type") mimetype = value;
+  }
+
+  const params: Record<string, string> = {};
+  const pattern = /;\s*([^=;\s]+)\s*=\s*(?:"((?:[^"\\]|\\.)*)"|([^;]*))/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(disposition))) {
+    params[match[1].toLowerCase()] =
+      match[2] !== undefined ? match[2].replace(/\\(.)/g, "$1") : match[3].trim();
+  }
+  if (params["filename*"]) {
+    const encoded = /^utf-8''(.*)$/i.exec(params["filename*"]);
+    if (encoded) {
+      try {
+        params.filename = decodeURIComponent(encoded[1]);
+      } catch {
+        // Keep the plain filename
+      }
+    }
+  }
+
+  if (!/^form-data\b/i.test(disposition) || params.name === undefined) {
+    throw malformed();
+  }
+  return { name: params.name, filename: params.filename, mimetype };
+}
+
+async function* limitFileSize(
+  body: AsyncIterable<Uint8Array>,
+  file: { fieldname: string; size: number },
+  maxSize: number
+): AsyncGenerator<Uint8Array> {
+  for await (const chunk of body) {
+    file.size += chunk.length;
+    if (file.size > maxSize) {
+      throw new PayloadTooLargeException(
+        `File in field "${file.fieldname}" exceeds the maximum size of ${maxSize} bytes`
+      );
+    }
+    yield chunk;
+  }
+}
+
+function getBoundary(contentType: string | null): string | undefined {
+  if (!contentType || !/^multipart\/form-data\b/i.test(contentType)) {
+    return undefined;
+  }
+  const match = /;\s*boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(contentType);
+  return match?.[1] ?? match?.[2];
+}
+
+function appendField(target: Record<string, any>, name: string, value: any) {
+  if (!(name in target)) target[name] = value;
+  else if (Array.isArray(target[name])) target[name].push(value);
+  else target[name] = [target[name], value];
+}
+
+/**
+ * Parse a multipart request, storing the files of `fields` with `storage`.
+ * Stored files are pushed to `stored` as soon as they are written, so the
+ * caller can remove them when parsing fails halfway.
+ *
+ * @throws UnsupportedMediaTypeException when the request is not multipart/form-data
+ * @throws PayloadTooLargeException when a limit is exceeded
+ * @throws BadRequestException for unexpected file fields and malformed bodies
+ */
+async function parseUpload(
+  request: globalThis.Request,
+  fields: UploadField[],
+  options: UploadOptions,
+  stored: StoredFile[]
+): Promise<Record<string, any>> {
+  const boundary = getBoundary(request.headers.get("content-type"));
+  if (!boundary) {
+    throw new UnsupportedMediaTypeException(
+      "Expected a multipart/form-data request"
+    );
+  }
+  if (request.bodyUsed) {
+    throw new Error(
+      "The upload request body was already read. File interceptors need the unparsed body."
+    );
+  }
+  if (!request.body) throw malformed();
+
+  const limits = options.limits ?? {};
+  const storage = options.storage ?? memoryStorage();
+  const maxCounts = new Map(
+    fields.map((field) => [field.name, field.maxCount ?? 1])
+  );
+  const counts = new Map<string, number>();
+  const body: Record<string, any> = {};
+  let fileCount = 0;
+  let fieldCount = 0;
+  let partCount = 0;
+
+  const reader = request.body.getReader();
+  try {
+    for await (const part of new MultipartReader(reader, boundary).parts()) {
+      if (++partCount > (limits.parts ?? Infinity)) {
+        throw new PayloadTooLargeException("Too many parts");
+      }
+
+      if (part.filename === undefined) {
+        if (++fieldCount > (limits.fields ?? Infinity)) {
+          throw new PayloadTooLargeException("Too many fields");
+        }
+        const maxSize = limits.fieldSize ?? DEFAULT_FIELD_SIZE;
+        const chunks: Uint8Array[] = [];
+        let size = 0;
+        for await (const chunk of part.body) {
+          size += chunk.length;
+          if (size > maxSize) {
+            throw new PayloadTooLargeException(
+              `Field "${part.name}" exceeds the maximum size of ${maxSize} bytes`
+            );
+          }
+          chunks.push(chunk);
+        }
+        appendField(body, part.name, Buffer.concat(chunks).toString("utf8"));
+        continue;
+      }
+
+      // File inputs left empty are sent without a file name
+      if (part.filename === "") continue;
+
+      const maxCount = maxCounts.get(part.name);
+      if (maxCount === undefined) {
+        throw new BadRequestException(`Unexpected file field "${part.name}"`);
+      }
+      const count = (counts.get(part.name) ?? 0) + 1;
+      if (count > maxCount) {
+        throw new PayloadTooLargeException(
+          `Too many files in field "${part.name}" (maximum ${maxCount})`
+        );
+      }
+      counts.set(part.name, count);
+      if (++fileCount > (limits.files ?? Infinity)) {
+        throw new PayloadTooLargeException("Too many files");
+      }
+
+      const file: StoredFile = {
+        fieldname: part.name,
+        originalname: part.filename,
+        mimetype: part.mimetype,
+        size: 0,
+        name: part.filename,
+        type: part.mimetype,
+      };
+      const info = await storage.handleFile({
+        fieldname: file.fieldname,
+        originalname: file.originalname,
+        mimetype: file.mimetype,
+        stream: limitFileSize(part.body, file, limits.fileSize ?? Infinity),
+      });
+      stored.push(Object.assign(file, info));
+    }
+  } catch (error) {
+    // Stop receiving the rest of the body
+    reader.cancel().catch(() => {});
+    throw error;
+  }
+
+  return body;
+}
+
+/**
+ * Base class of the upload interceptors. The application detects it to
+ * leave the request body unparsed on the route.
+ */
+abstract class UploadInterceptor implements WynkInterceptor {
+  protected abstract readonly fields: UploadField[];
+  protected abstract readonly options: UploadOptions;
+
+  protected abstract assign(ctx: any, files: StoredFile[]): void;
+
+  async intercept(
+    context: ExecutionContext,
+    next: () => Promise<any>
+  ): Promise<any> {
+    const ctx = context.getContext();
+    const request: globalThis.Request = ctx.request?.original ?? ctx.request;
+    const storage = this.options.storage ?? memoryStorage();
+    const options = { ...this.options, storage };
+    const stored: StoredFile[] = [];
+
+    try {
+      ctx.body = await parseUpload(request, this.fields, options, stored);
+      this.assign(ctx, stored);
+      return await next();
+    } catch (error) {
+      await Promise.allSettled(stored.map((file) => storage.removeFile(file)));
+      throw error;
+    }
+  }
+}
+
+/**
+ * Whether an interceptor instance reads multipart uploads itself.
+ */
+export function isUploadInterceptor(interceptor: any): boolean {
+  return interceptor instanceof UploadInterceptor;
+}
+
+/**
+ * Accepts one file in `fieldName`, available through `@UploadedFile()`.
+ * Text fields are available through `@Body()`.
+ *
+ * The body is streamed into the storage engine after guards pass, enforcing
+ * `limits` as it arrives (413). Requests that are not multipart/form-data get
+ * a 415, and stored files are removed when the request fails.
+ *
+ * @example
+ * @Post("/avatar")
+ * @UseInterceptors(FileInterceptor("avatar", { limits: { fileSize: 2_000_000 } }))
+ * upload(@UploadedFile() file: StoredFile) {}
+ */
+export function FileInterceptor(
+  fieldName: string,
+  options: UploadOptions = {}
+): new () => WynkInterceptor {
+  return class extends UploadInterceptor {
+    protected readonly fields = [{ name: fieldName, maxCount: 1 }];
+    protected readonly options = options;
+
+    protected assign(ctx: any, files: StoredFile[]): void {
+      ctx.file = files[0];
+    }
+  };
+}
+
+/**
+ * Accepts up to `maxCount` files in `fieldName`, available as an array
+ * through `@UploadedFiles()`. See `FileInterceptor()`.
+ *
+ * @example
+ * @Post("/photos")
+ * @UseInterceptors(FilesInterceptor("photos", 10, { storage: diskStorage({ destination: "./uploads" }) }))
+ * upload(@UploadedFiles() photos: StoredFile[]) {}
+ */
+export function FilesInterceptor(
+  fieldName: string,
+  maxCount: number = Infinity,
+  options: UploadOptions = {}
+): new () => WynkInterceptor {
+  return class extends UploadInterceptor {
+    protected readonly fields = [{ name: fieldName, maxCount }];
+    protected readonly options = options;
+
+    protected assign(ctx: any, files: StoredFile[]): void {
+      ctx.files = files;
+    }
+  };
+}
+
+/**
+ * Accepts files in several fields, available through `@UploadedFiles()` as
+ * an object of arrays keyed by field name. See `FileInterceptor()`.
+ *
+ * @example
+ * @Post("/profile")
+ * @UseInterceptors(FileFieldsInterceptor([{ name: "avatar", maxCount: 1 }, { name: "documents", maxCount: 5 }]))
+ * upload(@UploadedFiles() files: { avatar?: StoredFile[]; documents?: StoredFile[] }) {}
+ */
+export function FileFieldsInterceptor(
+  uploadFields: UploadField[],
+  options: UploadOptions = {}
+): new () => WynkInterceptor {
+  return class extends UploadInterceptor {
+    protected readonly fields = uploadFields;
+    protected readonly options = options;
+
+    protected assign(ctx: any, files: StoredFile[]): void {
+      const grouped: Record<string, StoredFile[]> = {};
+      for (const file of files) {
+        (grouped[file.fieldname] ??= []).push(file);
+      }
+      ctx.files = grouped;
+    }
+  };
+}
@@ -0,0 +1,158 @@
+/**
+ * API Versioning for WynkJS Framework
+ * Serves several versions of a route side by side, selected by URI, header or media type
+ * Separated from factory.ts for better maintainability
+ */
+
+/**
+ * Where the requested version is read from.
+ */
+export enum VersioningType {
+  /** Version in the path: `/v2/users`. */
+  URI = "uri",
+  /** Version in a custom request header: `X-API-Version: 2`. */
+  HEADER = "header",
+  /** Version in the `Accept` header: `application/vnd.acme.v2+json` or `application/json;v=2`. */
+  MEDIA_TYPE = "media-type",
+}
+
+/**
+ * Marks a route as serving every version, including requests without one.
+ *
+ * @example
+ * @Version(VERSION_NEUTRAL)
+ * @Controller("/health")
+ * export class HealthController {}
+ */
+export const VERSION_NEUTRAL: unique symbol = Symbol("VERSION_NEUTRAL");
+
+/**
+ * A version, `VERSION_NEUTRAL`, or a list of them.
+ */
+export type VersionValue =
+  | string
+  | typeof VERSION_NEUTRAL
+  | Array<string | typeof VERSION_NEUTRAL>;
+
+/**
+ * The `versioning` application option.
+ *
+ * @example
+ * WynkFactory.create({
+ *   controllers: [UsersV1Controller, UsersV2Controller],
+ *   versioning: { type: VersioningType.HEADER, header: "X-API-Version", defaultVersion: "1" },
+ * });
+ */
+export interface VersioningOptions {
+  type: VersioningType | "uri" | "header" | "media-type";
+  /**
+   * Version of routes without `@Version()`. When unset, those routes are
+   * version-neutral.
+   */
+  defaultVersion?: VersionValue;
+  /** URI strategy: segment prefix before the version. Defaults to `"v"`; `false` for none. */
+  prefix?: string | false;
+  /** Header strategy: name of the request header carrying the version. */
+  header?: string;
+  /**
+   * Media type strategy: `Accept` parameter carrying the version, as in
+   * `application/json;v=2`. Defaults to `"v="`. Vendor media types such as
+   * `application/vnd.acme.v2+json` are always recognized.
+   */
+  key?: string;
+}
+
+/**
+ * Versions a route serves: the method's `@Version()`, else the controller's,
+ * else the default version. `undefined` means version-neutral.
+ */
+export function resolveRouteVersions(
+  methodVersion: VersionValue | undefined,
+  controllerVersion: VersionValue | undefined,
+  options: VersioningOptions
+): Array<string | typeof VERSION_NEUTRAL> | undefined {
+  const value = methodVersion ?? controllerVersion ?? options.defaultVersion;
+  if (value === undefined) return undefined;
+  const versions = Array.isArray(value) ? value : [value];
+  return versions.map((version) =>
+    version === VERSION_NEUTRAL ? VERSION_NEUTRAL : String(version)
+  );
+}
+
+/**
+ * Path segment of a version for the URI strategy, e.g. `/v2`; empty for
+ * `VERSION_NEUTRAL`.
+ */
+export function getVersionPathSegment(
+  version: string | typeof VERSION_NEUTRAL,
+  options: VersioningOptions
+): string {
+  if (version === VERSION_NEUTRAL) return "";
+  const prefix = options.prefix === false ? "" : options.prefix ?? "v";
+  return `/${prefix}${version}`;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build the function reading the requested version from a request, for the
+ * header and media type strategies. Returns `undefined` for the URI strategy,
+ * where routes are told apart by path.
+ *
+ * @throws Error when the header strategy has no `header`
+ */
+export function createVersionExtractor(
+  options: VersioningOptions
+): ((ctx: any) => string | undefined) | undefined {
+  const readHeader = (ctx: any, name: string): string | undefined =>
+    ctx.request?.headers?.get?.(name) ?? ctx.headers?.[name] ?? undefined;
+
+  if (options.type === VersioningType.HEADER) {
+    if (!options.header) {
+      throw new Error(
+        "Header versioning requires the name of the version header, e.g. { type: VersioningType.HEADER, header: 'X-API-Version' }."
+      );
+    }
+    const header = options.header.toLowerCase();
+    return (ctx) => readHeader(ctx, header)?.trim() || undefined;
+  }
+
+  if (options.type === VersioningType.MEDIA_TYPE) {
+    const key = options.key ?? "v=";
+    const parameter = new RegExp(`;\\s*${escapeRegExp(key)}([^;,\\s]+)`, "i");
+    const vendor = /\/vnd\.(?:[^,;\s+]*\.)?v(\w[\w-]*)(?:\+[\w-]+)?(?=[;,\s]|$)/i;
+
+    return (ctx) => {
+      const accept = readHeader(ctx, "accept");
+      if (!accept) return undefined;
+      for (const range of accept.split(",")) {
+        const match = parameter.exec(range) ?? vendor.exec(range);
+        if (match) return match[1];
+      }
+      return undefined;
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Pick the candidate serving `version`: an exact match first, then a
+ * version-neutral one (no versions, or `VERSION_NEUTRAL`).
+ */
+export function selectVersionCandidate<
+  T extends { versions?: Array<string | symbol> },
+>(candidates: T[], version: string | undefined): T | undefined {
+  if (version !== undefined) {
+    const exact = candidates.find((candidate) =>
+      candidate.versions?.includes(version)
+    );
+    if (exact) return exact;
+  }
+  return candidates.find(
+    (candidate) =>
+      !candidate.versions || candidate.versions.includes(VERSION_NEUTRAL)
+  );
+}
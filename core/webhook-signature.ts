@@ -0,0 +1,175 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { UnauthorizedException } from "./decorators/exception.decorators";
+import { CanActivate, ExecutionContext } from "./decorators/guard.decorators";
+
+/**
+ * Webhook signatures for WynkJS Framework
+ * Verifies HMAC signatures of webhook requests (Stripe, GitHub, Slack, ...)
+ * against the raw request body
+ */
+
+/**
+ * Signatures and timestamp read from a signature header.
+ */
+export interface WebhookSignatureHeader {
+  signatures: string[];
+  /** Signing time in Unix seconds, when the header carries it. */
+  timestamp?: string;
+}
+
+/**
+ * Options of `WebhookSignatureGuard`.
+ */
+export interface WebhookSignatureOptions {
+  /** Signing secret. Several secrets are all accepted, e.g. while rotating them. */
+  secret: string | string[];
+  /** Header carrying the signature, e.g. `"x-hub-signature-256"`. */
+  header: string;
+  /** HMAC hash function. Defaults to `"sha256"`. */
+  algorithm?: "sha256" | "sha1";
+  /** Encoding of the signature. Defaults to `"hex"`. */
+  encoding?: "hex" | "base64";
+  /** Prefix of the signature in the header, e.g. `"sha256="`. */
+  prefix?: string;
+  /** Header carrying the signing time in Unix seconds, e.g. `"x-slack-request-timestamp"`. */
+  timestampHeader?: string;
+  /**
+   * Maximum age, in seconds, of signed requests, rejecting replayed ones.
+   * Only checked when a timestamp is signed. Defaults to `300`.
+   */
+  tolerance?: number;
+  /** Read the signatures (and timestamp) from the header, for formats other than `prefix` + signature. */
+  parseHeader?: (value: string) => WebhookSignatureHeader;
+  /** What is signed. Defaults to the raw body. */
+  signedPayload?: (rawBody: Uint8Array, timestamp?: string) => string | Uint8Array;
+}
+
+const decoder = new TextDecoder();
+
+/**
+ * Webhook Signature Guard - Rejects requests whose HMAC signature does not
+ * match their raw body with a 401. Signatures are compared in constant time,
+ * and signed timestamps must be within `tolerance`. Routes using the guard
+ * keep their raw body.
+ *
+ * @example
+ * @Post('/webhooks/github')
+ * @UseGuards(WebhookSignatureGuard.github(process.env.GITHUB_WEBHOOK_SECRET))
+ * handle(@Body() event: PushEvent) {}
+ *
+ * @UseGuards(new WebhookSignatureGuard({
+ *   secret: process.env.WEBHOOK_SECRET,
+ *   header: 'x-signature',
+ *   encoding: 'base64',
+ * }))
+ */
+export class WebhookSignatureGuard implements CanActivate {
+  constructor(private readonly options: WebhookSignatureOptions) {}
+
+  /**
+   * GitHub: `X-Hub-Signature-256: sha256=<hex>`.
+   */
+  static github(secret: string | string[]): WebhookSignatureGuard {
+    return new WebhookSignatureGuard({
+      secret,
+      header: "x-hub-signature-256",
+      prefix: "sha256=",
+    });
+  }
+
+  /**
+   * Stripe: `Stripe-Signature: t=<timestamp>,v1=<hex>`, signing `<timestamp>.<body>`.
+   */
+  static stripe(secret: string | string[], tolerance?: number): WebhookSignatureGuard {
+    return new WebhookSignatureGuard({
+      secret,
+      header: "stripe-signature",
+      tolerance,
+      parseHeader: (value) => {
+        const header: WebhookSignatureHeader = { signatures: [] };
+        for (const part of value.split(",")) {
+          const [key, ...rest] = part.trim().split("=");
+          if (key === "t") header.timestamp = rest.join("=");
+          if (key === "v1") header.signatures.push(rest.join("="));
+        }
+        return header;
+      },
+      signedPayload: (rawBody, timestamp) => `${timestamp}.${decoder.decode(rawBody)}`,
+    });
+  }
+
+  /**
+   * Slack: `X-Slack-Signature: v0=<hex>`, signing `v0:<timestamp>:<body>`.
+   */
+  static slack(secret: string | string[], tolerance?: number): WebhookSignatureGuard {
+    return new WebhookSignatureGuard({
+      secret,
+      header: "x-slack-signature",
+      prefix: "v0=",
+      timestampHeader: "x-slack-request-timestamp",
+      tolerance,
+      signedPayload: (rawBody, timestamp) => `v0:${timestamp}:${decoder.decode(rawBody)}`,
+    });
+  }
+
+  canActivate(context: ExecutionContext): boolean {
+    const ctx = context.getContext();
+    const rawBody: Uint8Array | undefined = ctx.rawBody;
+    if (!rawBody) {
+      throw new Error(
+        "WebhookSignatureGuard needs the raw request body. Set rawBody: true on the route."
+      );
+    }
+    const headers: Headers = context.getRequest().original?.headers ?? ctx.request.headers;
+    const { header: headerName, prefix = "", timestampHeader } = this.options;
+
+    const value = headers.get(headerName);
+    if (!value) {
+      throw new UnauthorizedException(`Missing ${headerName} header`);
+    }
+    const header = this.options.parseHeader
+      ? this.options.parseHeader(value)
+      : {
+          signatures: value.startsWith(prefix) ? [value.slice(prefix.length)] : [],
+        };
+    const timestamp = timestampHeader
+      ? (headers.get(timestampHeader) ?? undefined)
+      : header.timestamp;
+
+    if (timestampHeader || header.timestamp !== undefined) {
+      const seconds = Number(timestamp);
+      const tolerance = this.options.tolerance ?? 300;
+      if (!timestamp || !Number.isFinite(seconds)) {
+        throw new UnauthorizedException("Missing webhook timestamp");
+      }
+      if (Math.abs(Date.now() / 1000 - seconds) > tolerance) {
+        throw new UnauthorizedException("Webhook timestamp is outside the tolerance");
+      }
+    }
+
+    const payload = this.options.signedPayload
+      ? this.options.signedPayload(rawBody, timestamp)
+      : rawBody;
+    const secrets = Array.isArray(this.options.secret)
+      ? this.options.secret
+      : [this.options.secret];
+    const encoding = this.options.encoding ?? "hex";
+    const expected = secrets.map((secret) =>
+      createHmac(this.options.algorithm ?? "sha256", secret).update(payload).digest()
+    );
+
+    for (const signature of header.signatures) {
+      const received = Buffer.from(signature, encoding);
+      // The length of a digest is no secret; timingSafeEqual needs equal lengths
+      if (
+        expected.some(
+          (digest) =>
+            digest.length === received.length && timingSafeEqual(digest, received)
+        )
+      ) {
+        return true;
+      }
+    }
+    throw new UnauthorizedException("Invalid webhook signature");
+  }
+}
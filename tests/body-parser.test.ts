@@ -0,0 +1,206 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Body,
+  Consumes,
+  Controller,
+  DTO,
+  Post,
+  CborParser,
+  CsvParser,
+  MessagePackParser,
+  MessagePackSerializer,
+  UrlEncodedParser,
+  XmlParser,
+} from "../core";
+
+const encode = (text) => new TextEncoder().encode(text);
+
+describe("UrlEncodedParser", () => {
+  const parser = new UrlEncodedParser({ depth: 3 });
+
+  it("nests bracketed field names", () => {
+    const body = encode(
+      "user[name]=Ada&user[address][city]=London&tags[]=a&tags[]=b&items[1]=y&items[0]=x&sort=id&sort=name&__proto__[admin]=1"
+    );
+
+    const parsed = parser.parse(body, "application/x-www-form-urlencoded");
+
+    expect(parsed).toEqual({
+      user: { name: "Ada", address: { city: "London" } },
+      tags: ["a", "b"],
+      items: ["x", "y"],
+      sort: ["id", "name"],
+    });
+    expect({}.admin).toBeUndefined();
+  });
+
+  it("rejects conflicting and deeply nested fields", () => {
+    expect(() => parser.parse(encode("a=1&a[b]=2"), "")).toThrow(
+      'Form field "a[b]" conflicts with a field of the same name'
+    );
+    expect(() => parser.parse(encode("a[b][c][d][e]=1"), "")).toThrow(
+      'Form field "a[b][c][d][e]" is nested deeper than 3 levels'
+    );
+  });
+});
+
+describe("XmlParser", () => {
+  it("reads the contents of the document element", () => {
+    const body = encode(
+      '<?xml version="1.0"?><!-- order --><order id="7"><item>a &amp; b</item><item><![CDATA[<c>]]></item><note/><total currency="EUR">9.5</total></order>'
+    );
+
+    expect(new XmlParser().parse(body, "application/xml")).toEqual({
+      id: "7",
+      item: ["a & b", "<c>"],
+      note: "",
+      total: { currency: "EUR", "#text": "9.5" },
+    });
+  });
+
+  it("rejects DOCTYPE declarations and malformed documents", () => {
+    const parser = new XmlParser();
+
+    expect(() =>
+      parser.parse(encode('<!DOCTYPE x [<!ENTITY a "b">]><x>&a;</x>'), "application/xml")
+    ).toThrow("DOCTYPE declarations are not allowed");
+    expect(() => parser.parse(encode("<a><b></a>"), "application/xml")).toThrow(
+      'Expected "</b>" but found "</a>"'
+    );
+  });
+});
+
+describe("CsvParser", () => {
+  it("reads quoted fields into rows keyed by the header", () => {
+    const body = encode('id,label\r\n1,"Rent, ""March"""\r\n\r\n2,"multi\nline"\n');
+
+    expect(new CsvParser().parse(body, "text/csv")).toEqual([
+      { id: "1", label: 'Rent, "March"' },
+      { id: "2", label: "multi\nline" },
+    ]);
+    expect(new CsvParser({ header: false, delimiter: ";" }).parse(encode("a;b\n"), "text/csv")).toEqual([
+      ["a", "b"],
+    ]);
+  });
+});
+
+describe("Binary parsers", () => {
+  it("reads what MessagePackSerializer writes", () => {
+    const value = { a: 1, b: [true, null, -200, 70000, "hé", 1.5], c: { d: 2 ** 40 } };
+    const bytes = new MessagePackSerializer().serialize(value);
+
+    expect(new MessagePackParser().parse(bytes)).toEqual(value);
+    expect(() => new MessagePackParser().parse(bytes.subarray(0, 10))).toThrow(
+      "Unexpected end of data"
+    );
+  });
+
+  it("reads CBOR", () => {
+    const bytes = new Uint8Array([
+      0xa4, // map of 4
+      0x61, 0x61, 0x01, // "a": 1
+      0x61, 0x62, 0x84, 0xf5, 0xf6, 0x21, 0x62, 0xc3, 0xa9, // "b": [true, null, -2, "é"]
+      0x61, 0x63, 0xf9, 0x3e, 0x00, // "c": 1.5 (half float)
+      0x61, 0x64, 0x9f, 0x01, 0x02, 0xff, // "d": [1, 2] (indefinite)
+    ]);
+
+    expect(new CborParser().parse(bytes)).toEqual({ a: 1, b: [true, null, -2, "é"], c: 1.5, d: [1, 2] });
+    expect(() => new CborParser().parse(new Uint8Array([0x82, 0x01]))).toThrow(
+      "Unexpected end of data"
+    );
+  });
+});
+
+const OrderDTO = DTO.Object({
+  customer: DTO.Object({ name: DTO.String() }),
+  items: DTO.Array(DTO.String()),
+});
+
+@Controller("/orders")
+class OrderController {
+  @Post({ path: "/", body: OrderDTO })
+  create(@Body() order) {
+    return order;
+  }
+
+  @Post("/import")
+  @Consumes("text/csv")
+  import(@Body() rows) {
+    return { imported: rows.length, columns: Object.keys(rows[0]) };
+  }
+}
+
+function post(app, path, contentType, body) {
+  return app.handle(
+    new Request(`http://localhost${path}`, {
+      method: "POST",
+      headers: { "content-type": contentType },
+      body,
+    })
+  );
+}
+
+describe("Body parsing on routes", () => {
+  it("validates parsed bodies against the route schema", async () => {
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const form = await post(
+      app,
+      "/orders",
+      "application/x-www-form-urlencoded",
+      "customer[name]=Ada&items[]=tea&items[]=cake"
+    );
+    const xml = await post(
+      app,
+      "/orders",
+      "application/xml; charset=utf-8",
+      "<order><customer><name>Ada</name></customer><items>tea</items></order>"
+    );
+
+    expect(await form.json()).toEqual({ customer: { name: "Ada" }, items: ["tea", "cake"] });
+    expect(xml.status).toBe(400);
+    expect(await xml.json()).toMatchObject({
+      statusCode: 400,
+      message: "Validation failed",
+      errors: { items: expect.any(Array) },
+    });
+  });
+
+  it("answers 400 for malformed bodies", async () => {
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const response = await post(app, "/orders", "application/xml", "<order>");
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).message).toBe(
+      'Malformed application/xml body: Element "order" is not closed'
+    );
+  });
+
+  it("answers 415 for content types outside @Consumes", async () => {
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const json = await post(app, "/orders/import", "application/json", "[]");
+    const csv = await post(app, "/orders/import", "text/csv", "id\n1\n2\n");
+
+    expect(json.status).toBe(415);
+    expect((await json.json()).message).toBe(
+      'Content-Type "application/json" is not supported. Expected text/csv'
+    );
+    expect(await csv.json()).toEqual({ imported: 2, columns: ["id"] });
+  });
+
+  it("uses the parsers given to the application", async () => {
+    const app = WynkFactory.create({
+      controllers: [OrderController],
+      bodyParsers: [new CsvParser({ delimiter: ";" })],
+    });
+
+    const response = await post(app, "/orders/import", "text/csv", "id;name\n1;a\n");
+
+    expect(await response.json()).toEqual({ imported: 1, columns: ["id", "name"] });
+  });
+});
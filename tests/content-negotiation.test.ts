@@ -0,0 +1,225 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  Produces,
+  StreamableFile,
+  CsvSerializer,
+  MessagePackSerializer,
+  XmlSerializer,
+  negotiateMediaType,
+  parseAccept,
+} from "../core";
+
+const transactions = [
+  { id: 1, label: "Rent, March", amount: -950.5, tags: ["home"] },
+  { id: 2, label: 'Say "hi"', amount: 20 },
+];
+
+describe("Accept negotiation", () => {
+  it("orders media ranges by quality", () => {
+    expect(parseAccept("text/csv;q=0.5, application/json, */*;q=0.1")).toEqual([
+      { type: "application/json", quality: 1 },
+      { type: "text/csv", quality: 0.5 },
+      { type: "*/*", quality: 0.1 },
+    ]);
+  });
+
+  it("picks the preferred available type, using the most specific range", () => {
+    const available = ["application/json", "text/csv"];
+
+    expect(negotiateMediaType(undefined, available)).toBe("application/json");
+    expect(negotiateMediaType("text/*;q=0.8, application/json;q=0.5", available)).toBe(
+      "text/csv"
+    );
+    expect(negotiateMediaType("*/*, application/json;q=0", available)).toBe("text/csv");
+    expect(negotiateMediaType("text/html, */*;q=0.8", available)).toBe("application/json");
+    expect(negotiateMediaType("application/pdf", available)).toBeUndefined();
+  });
+});
+
+describe("Serializers", () => {
+  it("writes CSV rows with quoted cells", () => {
+    expect(new CsvSerializer().serialize(transactions)).toBe(
+      'id,label,amount,tags\r\n1,"Rent, March",-950.5,"[""home""]"\r\n2,"Say ""hi""",20,\r\n'
+    );
+    expect(new CsvSerializer({ delimiter: ";", header: false }).serialize({ a: "x;y" })).toBe(
+      '"x;y"\r\n'
+    );
+  });
+
+  it("writes XML elements", () => {
+    expect(new XmlSerializer().serialize({ id: 1, "first name": "<Ada>", tags: ["a"], note: null })).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><response><id>1</id><first_name>&lt;Ada&gt;</first_name><tags><item>a</item></tags><note/></response>'
+    );
+  });
+
+  it("writes MessagePack", () => {
+    const bytes = new MessagePackSerializer().serialize({
+      a: 1,
+      b: [true, null, -1, 300, "hé"],
+      c: 1.5,
+    });
+
+    expect(Array.from(bytes)).toEqual([
+      0x83,
+      0xa1, 0x61, 0x01,
+      0xa1, 0x62, 0x95, 0xc3, 0xc0, 0xff, 0xcd, 0x01, 0x2c, 0xa3, 0x68, 0xc3, 0xa9,
+      0xa1, 0x63, 0xcb, 0x3f, 0xf8, 0, 0, 0, 0, 0, 0,
+    ]);
+  });
+});
+
+let created = 0;
+
+@Controller("/transactions")
+class TransactionController {
+  @Get("/")
+  @Produces("application/json", "text/csv")
+  findAll() {
+    return transactions;
+  }
+
+  @Post("/")
+  @Produces("application/json")
+  create() {
+    created++;
+    return { id: 3 };
+  }
+
+  @Get("/summary")
+  summary() {
+    return { count: 2 };
+  }
+
+  @Get("/export")
+  @Produces("text/csv")
+  export() {
+    return new StreamableFile(new TextEncoder().encode("raw\n"), { type: "text/csv" });
+  }
+}
+
+function get(app, path, accept) {
+  return app.handle(
+    new Request(`http://localhost${path}`, accept ? { headers: { accept } } : undefined)
+  );
+}
+
+describe("@Produces", () => {
+  it("answers CSV and JSON from the same route", async () => {
+    const app = WynkFactory.create({ controllers: [TransactionController] });
+
+    const csv = await get(app, "/transactions", "text/csv");
+    const json = await get(app, "/transactions", "application/json;q=0.9, text/csv;q=0.1");
+
+    expect(csv.headers.get("content-type")).toBe("text/csv; charset=utf-8");
+    expect(csv.headers.get("vary")).toBe("Accept");
+    expect(await csv.text()).toStartWith("id,label,amount,tags\r\n");
+    expect(json.headers.get("content-type")).toStartWith("application/json");
+    expect(await json.json()).toEqual(transactions);
+  });
+
+  it("answers 406 before running the handler", async () => {
+    const app = WynkFactory.create({ controllers: [TransactionController] });
+
+    const response = await app.handle(
+      new Request("http://localhost/transactions", {
+        method: "POST",
+        headers: { accept: "text/csv" },
+      })
+    );
+
+    expect(response.status).toBe(406);
+    expect((await response.json()).message).toBe(
+      'Cannot produce a response matching "Accept: text/csv". Available: application/json'
+    );
+    expect(created).toBe(0);
+  });
+
+  it("leaves files untouched", async () => {
+    const app = WynkFactory.create({ controllers: [TransactionController] });
+
+    const response = await get(app, "/transactions/export", "text/csv");
+
+    expect(await response.text()).toBe("raw\n");
+  });
+
+  it("rejects media types without a serializer", async () => {
+    @Controller("/reports")
+    class ReportController {
+      @Get("/")
+      @Produces("application/pdf")
+      find() {}
+    }
+    const app = WynkFactory.create({ controllers: [ReportController] });
+
+    await expect(app.build()).rejects.toThrow(
+      'ReportController.find produces "application/pdf", but no serializer is registered for it.'
+    );
+  });
+});
+
+describe("Routes without @Produces", () => {
+  it("answer JSON whatever a browser accepts", async () => {
+    const app = WynkFactory.create({ controllers: [TransactionController] });
+
+    const browser = await get(
+      app,
+      "/transactions/summary",
+      "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8"
+    );
+    const csv = await get(app, "/transactions/summary", "text/csv");
+
+    expect(browser.headers.get("content-type")).toStartWith("application/json");
+    expect(browser.headers.get("vary")).toBeNull();
+    expect(await browser.json()).toEqual({ count: 2 });
+    expect(csv.status).toBe(200);
+    expect(await csv.json()).toEqual({ count: 2 });
+  });
+
+  it("negotiate among the media types of the produces application option", async () => {
+    const app = WynkFactory.create({
+      controllers: [TransactionController],
+      produces: ["application/json", "application/xml", "application/msgpack"],
+    });
+
+    const json = await get(app, "/transactions/summary", "text/html, */*;q=0.8");
+    const xml = await get(app, "/transactions/summary", "application/xml");
+    const msgpack = await get(app, "/transactions/summary", "application/msgpack");
+    const other = await get(app, "/transactions/summary", "image/png");
+
+    expect(await json.json()).toEqual({ count: 2 });
+    expect(json.headers.get("vary")).toBe("Accept");
+    expect(await xml.text()).toBe(
+      '<?xml version="1.0" encoding="UTF-8"?><response><count>2</count></response>'
+    );
+    expect(msgpack.headers.get("content-type")).toBe("application/msgpack");
+    expect(Array.from(new Uint8Array(await msgpack.arrayBuffer()))).toEqual([
+      0x81, 0xa5, 0x63, 0x6f, 0x75, 0x6e, 0x74, 0x02,
+    ]);
+    expect(other.status).toBe(200);
+    expect(await other.json()).toEqual({ count: 2 });
+  });
+
+  it("use the serializers given to the application", async () => {
+    const app = WynkFactory.create({
+      controllers: [TransactionController],
+      serializers: [new CsvSerializer({ delimiter: ";" })],
+      produces: ["application/json", "text/csv"],
+    });
+
+    const response = await get(app, "/transactions/summary", "text/csv");
+
+    expect(await response.text()).toBe("count\r\n2\r\n");
+  });
+
+  it("rejects produces types without a serializer", () => {
+    expect(() => WynkFactory.create({ produces: ["application/pdf"] })).toThrow(
+      'The produces application option lists "application/pdf", but no serializer is registered for it.'
+    );
+  });
+});
@@ -18,7 +18,7 @@ describe("CORS Module", () => {
       setupCors(app, true);
 
       expect(consoleLogSpy).toHaveBeenCalledWith(
-        "✅ CORS enabled (all origins allowed)"
+        "[Wynk] LOG [Cors] CORS enabled (all origins allowed)"
       );
 
       console.log = originalLog;
@@ -37,7 +37,7 @@ describe("CORS Module", () => {
       });
 
       expect(consoleLogSpy).toHaveBeenCalledWith(
-        "✅ CORS enabled with custom configuration"
+        "[Wynk] LOG [Cors] CORS enabled with custom configuration"
       );
 
       console.log = originalLog;
@@ -0,0 +1,163 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { container } from "tsyringe";
+import { WynkFactory } from "../core/factory";
+import { Module } from "../core/module";
+import { Controller, Get, Injectable, Inject } from "../core";
+
+describe("DI containers - per application", () => {
+  it("runs two apps with the same token side by side", async () => {
+    @Injectable()
+    @Controller("/di-name")
+    class NameController {
+      constructor(@Inject("APP_NAME") private name: string) {}
+
+      @Get("/")
+      index() {
+        return { name: this.name };
+      }
+    }
+
+    const first = WynkFactory.create({
+      controllers: [NameController],
+      providers: [{ provide: "APP_NAME", useValue: "first" }],
+    });
+    const second = WynkFactory.create({
+      controllers: [NameController],
+      providers: [{ provide: "APP_NAME", useValue: "second" }],
+    });
+
+    const a = await first.handle(new Request("http://localhost/di-name/"));
+    const b = await second.handle(new Request("http://localhost/di-name/"));
+    expect(await a.json()).toEqual({ name: "first" });
+    expect(await b.json()).toEqual({ name: "second" });
+  });
+
+  it("does not register providers in the global container", async () => {
+    const token = Symbol("DI_NOT_GLOBAL");
+    const app = WynkFactory.create({
+      providers: [{ provide: token, useValue: 1 }],
+    });
+    await app.build();
+
+    expect(app.get(token)).toBe(1);
+    expect(container.isRegistered(token, true)).toBe(false);
+  });
+
+  it("creates one instance of a class provider per application", async () => {
+    @Injectable()
+    class CounterService {
+      count = 0;
+    }
+
+    const first = WynkFactory.create({ providers: [CounterService] });
+    const second = WynkFactory.create({ providers: [CounterService] });
+    await first.build();
+    await second.build();
+
+    expect(first.get(CounterService)).toBe(first.get(CounterService));
+    expect(first.get(CounterService)).not.toBe(second.get(CounterService));
+  });
+});
+
+describe("DI containers - per module", () => {
+  it("keeps same-named tokens of different modules apart", async () => {
+    @Injectable()
+    @Controller("/di-cats")
+    class CatsController {
+      constructor(@Inject("REPOSITORY") private repo: string) {}
+
+      @Get("/")
+      index() {
+        return { repo: this.repo };
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-dogs")
+    class DogsController {
+      constructor(@Inject("REPOSITORY") private repo: string) {}
+
+      @Get("/")
+      index() {
+        return { repo: this.repo };
+      }
+    }
+
+    @Module({
+      controllers: [CatsController],
+      providers: [{ provide: "REPOSITORY", useValue: "cats" }],
+    })
+    class CatsModule {}
+
+    @Module({
+      controllers: [DogsController],
+      providers: [{ provide: "REPOSITORY", useValue: "dogs" }],
+    })
+    class DogsModule {}
+
+    const app = WynkFactory.create({ modules: [CatsModule, DogsModule] });
+    const cats = await app.handle(new Request("http://localhost/di-cats/"));
+    const dogs = await app.handle(new Request("http://localhost/di-dogs/"));
+    expect(await cats.json()).toEqual({ repo: "cats" });
+    expect(await dogs.json()).toEqual({ repo: "dogs" });
+  });
+
+  it("shares one exported instance with every importing module", async () => {
+    @Injectable()
+    class SharedService {}
+
+    @Module({ providers: [SharedService], exports: [SharedService] })
+    class SharedModule {}
+
+    @Module({ imports: [SharedModule] })
+    class AModule {}
+
+    @Module({ imports: [SharedModule] })
+    class BModule {}
+
+    const app = WynkFactory.create({ modules: [AModule, BModule] });
+    await app.build();
+
+    const fromA = app.getContainer(AModule).resolve(SharedService);
+    const fromB = app.getContainer(BModule).resolve(SharedService);
+    expect(fromA).toBe(fromB);
+    expect(fromA).toBe(app.getContainer(SharedModule).resolve(SharedService));
+  });
+
+  it("resolves a module-private provider through app.get()", async () => {
+    @Module({ providers: [{ provide: "PRIVATE_CFG", useValue: { debug: true } }] })
+    class SettingsModule {}
+
+    const app = WynkFactory.create({ modules: [SettingsModule] });
+    await app.build();
+
+    expect(app.get("PRIVATE_CFG")).toEqual({ debug: true });
+  });
+
+  it("lets module containers fall back to app-level providers", async () => {
+    @Module({})
+    class FeatureModule {}
+
+    const app = WynkFactory.create({
+      modules: [FeatureModule],
+      providers: [{ provide: "APP_LEVEL", useValue: "shared" }],
+    });
+    await app.build();
+
+    expect(app.getContainer(FeatureModule).resolve("APP_LEVEL")).toBe("shared");
+  });
+
+  it("throws for a module that is not part of the application", async () => {
+    @Module({})
+    class OtherModule {}
+
+    const app = WynkFactory.create({});
+    await app.build();
+
+    expect(() => app.getContainer(OtherModule)).toThrow(
+      /Module OtherModule is not part of this application/
+    );
+  });
+});
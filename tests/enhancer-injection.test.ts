@@ -0,0 +1,308 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import { Module } from "../core/module";
+import {
+  Controller,
+  Get,
+  Param,
+  Injectable,
+  Inject,
+  UseGuards,
+  UseInterceptors,
+  UsePipes,
+  UseFilters,
+  Catch,
+  NotFoundException,
+} from "../core";
+
+@Injectable()
+class TokenService {
+  verify(token: string | null) {
+    return token === "Bearer secret";
+  }
+}
+
+@Injectable()
+class TokenGuard {
+  constructor(private tokens: TokenService) {}
+
+  canActivate(context: any) {
+    return this.tokens.verify(context.getRequest().headers.get("authorization"));
+  }
+}
+
+describe("Enhancer injection - guards", () => {
+  it("injects providers into guards passed to @UseGuards()", async () => {
+    @Injectable()
+    @Controller("/di-guard")
+    @UseGuards(TokenGuard)
+    class SecretController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [SecretController],
+      providers: [TokenService],
+    });
+
+    const denied = await app.handle(new Request("http://localhost/di-guard/"));
+    const allowed = await app.handle(
+      new Request("http://localhost/di-guard/", {
+        headers: { authorization: "Bearer secret" },
+      })
+    );
+    expect(denied.status).toBe(403);
+    expect(allowed.status).toBe(200);
+  });
+
+  it("resolves guards from the controller's module", async () => {
+    @Injectable()
+    class ModuleGuard {
+      constructor(@Inject("ALLOW") private allow: boolean) {}
+
+      canActivate() {
+        return this.allow;
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-module-guard")
+    @UseGuards(ModuleGuard)
+    class LockedController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    @Module({
+      controllers: [LockedController],
+      providers: [{ provide: "ALLOW", useValue: false }],
+    })
+    class LockedModule {}
+
+    const app = WynkFactory.create({ modules: [LockedModule] });
+    const res = await app.handle(new Request("http://localhost/di-module-guard/"));
+    expect(res.status).toBe(403);
+  });
+
+  it("resolves guard classes passed to useGlobalGuards() from the app container", async () => {
+    @Injectable()
+    @Controller("/di-global-guard")
+    class OpenController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [OpenController],
+      providers: [TokenService],
+    });
+    app.useGlobalGuards(TokenGuard);
+
+    const res = await app.handle(new Request("http://localhost/di-global-guard/"));
+    expect(res.status).toBe(403);
+  });
+
+  it("creates one guard instance per container and shares it across routes", async () => {
+    let created = 0;
+
+    @Injectable()
+    class CountingGuard {
+      constructor(private tokens: TokenService) {
+        created++;
+      }
+
+      canActivate() {
+        return true;
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-count")
+    @UseGuards(CountingGuard)
+    class CountController {
+      @Get("/a")
+      a() {
+        return {};
+      }
+
+      @Get("/b")
+      b() {
+        return {};
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [CountController],
+      providers: [TokenService],
+    });
+    await app.build();
+    expect(created).toBe(1);
+  });
+
+  it("gives each application its own instance of plain guard classes", async () => {
+    const instances = new Set();
+
+    class PlainGuard {
+      canActivate() {
+        instances.add(this);
+        return true;
+      }
+    }
+
+    @Controller("/di-plain-guard")
+    @UseGuards(PlainGuard)
+    class PlainController {
+      @Get("/")
+      index() {
+        return {};
+      }
+    }
+
+    for (const app of [
+      WynkFactory.create({ controllers: [PlainController] }),
+      WynkFactory.create({ controllers: [PlainController] }),
+    ]) {
+      await app.handle(new Request("http://localhost/di-plain-guard/"));
+      await app.handle(new Request("http://localhost/di-plain-guard/"));
+    }
+    expect(instances.size).toBe(2);
+  });
+
+  it("fails the build when a guard dependency cannot be resolved", async () => {
+    interface Missing {}
+
+    @Injectable()
+    class BrokenGuard {
+      constructor(@Inject("MISSING_TOKEN") private missing: Missing) {}
+
+      canActivate() {
+        return true;
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-broken-guard")
+    @UseGuards(BrokenGuard)
+    class BrokenController {
+      @Get("/")
+      index() {
+        return {};
+      }
+    }
+
+    const app = WynkFactory.create({ controllers: [BrokenController] });
+    await expect(app.build()).rejects.toThrow(
+      /Guard initialization failed for BrokenGuard/
+    );
+  });
+});
+
+describe("Enhancer injection - interceptors, pipes and filters", () => {
+  it("injects providers into interceptors", async () => {
+    @Injectable()
+    class EnvelopeInterceptor {
+      constructor(@Inject("API_VERSION") private version: string) {}
+
+      async intercept(_context: any, next: Function) {
+        return { version: this.version, data: await next() };
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-interceptor")
+    @UseInterceptors(EnvelopeInterceptor)
+    class WrappedController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [WrappedController],
+      providers: [{ provide: "API_VERSION", useValue: "v2" }],
+    });
+    const res = await app.handle(new Request("http://localhost/di-interceptor/"));
+    expect(await res.json()).toEqual({ version: "v2", data: { ok: true } });
+  });
+
+  it("injects providers into @UsePipes() and parameter pipes", async () => {
+    @Injectable()
+    class PrefixPipe {
+      constructor(@Inject("PREFIX") private prefix: string) {}
+
+      transform(value: any) {
+        return typeof value === "string" ? `${this.prefix}${value}` : value;
+      }
+    }
+
+    @Injectable()
+    class UpperPipe {
+      constructor(@Inject("PREFIX") private prefix: string) {}
+
+      transform(value: string) {
+        return value.toUpperCase();
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-pipe")
+    class PipeController {
+      @Get("/:id")
+      @UsePipes(PrefixPipe)
+      show(@Param("id", UpperPipe) id: string) {
+        return { id };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [PipeController],
+      providers: [{ provide: "PREFIX", useValue: "id-" }],
+    });
+    const res = await app.handle(new Request("http://localhost/di-pipe/abc"));
+    expect(await res.json()).toEqual({ id: "ID-ABC" });
+  });
+
+  it("injects providers into exception filters", async () => {
+    @Injectable()
+    @Catch(NotFoundException)
+    class NotFoundFilter {
+      constructor(@Inject("SUPPORT_EMAIL") private email: string) {}
+
+      catch(exception: NotFoundException) {
+        return {
+          statusCode: 404,
+          message: exception.message,
+          contact: this.email,
+        };
+      }
+    }
+
+    @Injectable()
+    @Controller("/di-filter")
+    @UseFilters(NotFoundFilter)
+    class MissingController {
+      @Get("/")
+      index() {
+        throw new NotFoundException("Nothing here");
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [MissingController],
+      providers: [{ provide: "SUPPORT_EMAIL", useValue: "help@example.com" }],
+    });
+    const res = await app.handle(new Request("http://localhost/di-filter/"));
+    expect(res.status).toBe(404);
+    expect((await res.json()).contact).toBe("help@example.com");
+  });
+});
@@ -0,0 +1,285 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Body,
+  Context,
+  Controller,
+  Etag,
+  Get,
+  Param,
+  Produces,
+  Delete,
+  Patch,
+  Put,
+} from "../core";
+
+const orders = new Map();
+
+@Controller("/orders")
+class OrderController {
+  @Get("/")
+  @Etag()
+  @Produces("application/json", "text/csv")
+  findAll() {
+    return [...orders.values()];
+  }
+
+  @Get("/strong")
+  @Etag("strong")
+  strong() {
+    return { ok: true };
+  }
+
+  @Get("/untagged")
+  @Etag(false)
+  untagged() {
+    return { ok: true };
+  }
+
+  @Get("/:id")
+  @Etag()
+  findOne(@Param("id") id, @Context() ctx) {
+    const order = orders.get(id);
+    ctx.response.etag(`v${order.version}`);
+    return order;
+  }
+
+  @Put("/:id")
+  update(@Param("id") id, @Body() changes, @Context() ctx) {
+    const order = orders.get(id);
+    ctx.response.checkIfMatch(`v${order.version}`);
+    const updated = { ...order, ...changes, version: order.version + 1 };
+    orders.set(id, updated);
+    ctx.response.etag(`v${updated.version}`);
+    return updated;
+  }
+}
+
+let deleted = 0;
+let reads = 0;
+
+const noteTag = function (ctx) {
+  return this.version(ctx.params.id);
+};
+
+@Controller("/notes")
+class NoteController {
+  version(id) {
+    const order = orders.get(id);
+    return order && `v${order.version}`;
+  }
+
+  @Get("/:id")
+  @Etag({ current: noteTag })
+  find(@Param("id") id) {
+    reads++;
+    return orders.get(id);
+  }
+
+  @Patch("/:id")
+  @Etag({ current: noteTag })
+  update(@Param("id") id, @Body() changes) {
+    const order = orders.get(id);
+    const updated = { ...order, ...changes, version: order.version + 1 };
+    orders.set(id, updated);
+    return updated;
+  }
+
+  @Delete("/:id")
+  @Etag({ current: noteTag, mode: "strong" })
+  remove(@Param("id") id) {
+    deleted++;
+    orders.delete(id);
+    return { deleted: id };
+  }
+}
+
+function request(app, path, init = {}) {
+  return app.handle(new Request(`http://localhost${path}`, init));
+}
+
+function reset() {
+  orders.clear();
+  orders.set("1", { id: "1", status: "open", version: 1 });
+}
+
+describe("@Etag", () => {
+  it("answers 304 when If-None-Match matches the hash of the body", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const first = await request(app, "/orders");
+    const etag = first.headers.get("etag");
+    const cached = await request(app, "/orders", { headers: { "if-none-match": etag } });
+    orders.set("2", { id: "2", status: "open", version: 1 });
+    const changed = await request(app, "/orders", { headers: { "if-none-match": etag } });
+
+    expect(etag).toMatch(/^W\/"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(cached.status).toBe(304);
+    expect(await cached.text()).toBe("");
+    expect(cached.headers.get("etag")).toBe(etag);
+    expect(cached.headers.get("vary")).toBe("Accept");
+    expect(cached.headers.get("content-type")).toBeNull();
+    expect(changed.status).toBe(200);
+    expect(changed.headers.get("etag")).not.toBe(etag);
+  });
+
+  it("hashes each negotiated representation separately", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const json = await request(app, "/orders");
+    const csv = await request(app, "/orders", { headers: { accept: "text/csv" } });
+
+    expect(csv.headers.get("etag")).not.toBe(json.headers.get("etag"));
+  });
+
+  it("makes strong tags and lets routes opt out", async () => {
+    const app = WynkFactory.create({ controllers: [OrderController], etag: "weak" });
+
+    const strong = await request(app, "/orders/strong");
+    const untagged = await request(app, "/orders/untagged");
+
+    expect(strong.headers.get("etag")).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(untagged.headers.get("etag")).toBeNull();
+  });
+
+  it("uses the tag set by the handler", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const response = await request(app, "/orders/1");
+    const cached = await request(app, "/orders/1", { headers: { "if-none-match": 'W/"v1"' } });
+
+    expect(response.headers.get("etag")).toBe('"v1"');
+    expect(cached.status).toBe(304);
+  });
+});
+
+describe("The etag application option", () => {
+  it("tags routes without @Etag", async () => {
+    @Controller("/status")
+    class StatusController {
+      @Get("/")
+      find() {
+        return "up";
+      }
+    }
+    const tagged = WynkFactory.create({ controllers: [StatusController], etag: "strong" });
+    const untagged = WynkFactory.create({ controllers: [StatusController] });
+
+    const response = await request(tagged, "/status");
+
+    expect(response.headers.get("etag")).toBe(`"2-${Bun.hash("up").toString(16)}"`);
+    expect((await request(untagged, "/status")).headers.get("etag")).toBeNull();
+  });
+});
+
+describe("Response.checkIfMatch", () => {
+  function put(app, ifMatch) {
+    return request(app, "/orders/1", {
+      method: "PUT",
+      headers: { "content-type": "application/json", ...(ifMatch && { "if-match": ifMatch }) },
+      body: JSON.stringify({ status: "paid" }),
+    });
+  }
+
+  it("answers 412 when the resource changed since it was read", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    const updated = await put(app, '"v1"');
+    const stale = await put(app, '"v1"');
+
+    expect(updated.status).toBe(200);
+    expect(updated.headers.get("etag")).toBe('"v2"');
+    expect(stale.status).toBe(412);
+    expect(await stale.json()).toMatchObject({
+      statusCode: 412,
+      message: "The resource was modified since it was read",
+    });
+    expect(orders.get("1").version).toBe(2);
+  });
+
+  it("lets requests without If-Match or with * through", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [OrderController] });
+
+    expect((await put(app)).status).toBe(200);
+    expect((await put(app, "*")).status).toBe(200);
+    expect((await put(app, 'W/"v3"')).status).toBe(412);
+  });
+});
+
+describe("If-Match on @Etag routes", () => {
+  function patch(app, path, ifMatch) {
+    return request(app, path, {
+      method: "PATCH",
+      headers: { "content-type": "application/json", ...(ifMatch && { "if-match": ifMatch }) },
+      body: JSON.stringify({ status: "paid" }),
+    });
+  }
+
+  it("checks the current tag before the handler runs", async () => {
+    reset();
+    reads = 0;
+    const app = WynkFactory.create({ controllers: [NoteController], etag: "weak" });
+
+    const etag = (await request(app, "/notes/1")).headers.get("etag");
+    const updated = await patch(app, "/notes/1", etag);
+    const stale = await patch(app, "/notes/1", etag);
+
+    expect(etag).toBe('"v1"');
+    expect(updated.status).toBe(200);
+    expect(stale.status).toBe(412);
+    expect((await stale.json()).message).toBe("The resource was modified since it was read");
+    expect(orders.get("1")).toMatchObject({ status: "paid", version: 2 });
+    expect(reads).toBe(1);
+  });
+
+  it("compares strongly and needs an existing resource", async () => {
+    reset();
+    deleted = 0;
+    const app = WynkFactory.create({ controllers: [NoteController] });
+
+    const weak = await request(app, "/notes/1", { method: "DELETE", headers: { "if-match": 'W/"v1"' } });
+    const missing = await request(app, "/notes/2", { method: "DELETE", headers: { "if-match": "*" } });
+    const removed = await request(app, "/notes/1", { method: "DELETE", headers: { "if-match": '"v1"' } });
+
+    expect(weak.status).toBe(412);
+    expect(missing.status).toBe(412);
+    expect(removed.status).toBe(200);
+    expect(deleted).toBe(1);
+  });
+
+  it("lets requests without If-Match through", async () => {
+    reset();
+    const app = WynkFactory.create({ controllers: [NoteController] });
+
+    expect((await patch(app, "/notes/1")).status).toBe(200);
+  });
+
+  it("rejects write routes with weak tags or without a current tag", async () => {
+    @Controller("/weak")
+    class WeakController {
+      @Put("/:id")
+      @Etag()
+      update() {}
+    }
+    @Controller("/untagged")
+    class UntaggedController {
+      @Put("/:id")
+      @Etag("strong")
+      update() {}
+    }
+
+    await expect(WynkFactory.create({ controllers: [WeakController] }).build()).rejects.toThrow(
+      "WeakController.update uses weak ETags, which never satisfy If-Match."
+    );
+    await expect(
+      WynkFactory.create({ controllers: [UntaggedController] }).build()
+    ).rejects.toThrow("UntaggedController.update has @Etag() but no current tag");
+  });
+});
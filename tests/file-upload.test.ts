@@ -0,0 +1,312 @@
+// @ts-nocheck
+import { describe, it, expect, afterAll } from "bun:test";
+import "reflect-metadata";
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WynkFactory } from "../core/factory";
+import {
+  Body,
+  Controller,
+  FileFieldsInterceptor,
+  FileInterceptor,
+  FilesInterceptor,
+  Post,
+  UploadedFile,
+  UploadedFiles,
+  UseGuards,
+  UseInterceptors,
+  diskStorage,
+  BadRequestException,
+} from "../core";
+
+const dir = mkdtempSync(join(tmpdir(), "wynk-upload-"));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+let guardCalls = 0;
+
+class TokenGuard {
+  canActivate(context) {
+    guardCalls++;
+    return context.getRequest().headers.get("authorization") === "Bearer ok";
+  }
+}
+
+const removed = [];
+const trackingStorage = {
+  async handleFile(file) {
+    let size = 0;
+    for await (const chunk of file.stream) size += chunk.length;
+    return { stored: `mem:${file.originalname}:${size}` };
+  },
+  async removeFile(file) {
+    removed.push(file.stored);
+  },
+};
+
+@Controller("/uploads")
+class UploadController {
+  @Post("/avatar")
+  @UseInterceptors(FileInterceptor("avatar", { limits: { fileSize: 16 } }))
+  avatar(@UploadedFile() file, @Body() body) {
+    return {
+      name: file?.originalname,
+      type: file?.mimetype,
+      size: file?.size,
+      text: file?.buffer?.toString(),
+      body,
+    };
+  }
+
+  @Post("/disk")
+  @UseInterceptors(
+    FileInterceptor("document", {
+      storage: diskStorage({
+        destination: join(dir, "documents"),
+        filename: (file) => `saved-${file.originalname}`,
+      }),
+    })
+  )
+  disk(@UploadedFile() file, @Body("reject") reject) {
+    if (reject) throw new BadRequestException("Rejected");
+    return { path: file.path, filename: file.filename, size: file.size };
+  }
+
+  @Post("/photos")
+  @UseInterceptors(FilesInterceptor("photos", 2, { limits: { fields: 1 } }))
+  photos(@UploadedFiles() files) {
+    return files.map((file) => file.originalname);
+  }
+
+  @Post("/profile")
+  @UseInterceptors(
+    FileFieldsInterceptor(
+      [{ name: "avatar" }, { name: "documents", maxCount: 3 }],
+      { storage: trackingStorage, limits: { files: 3 } }
+    )
+  )
+  profile(@UploadedFiles() files) {
+    return Object.fromEntries(
+      Object.entries(files).map(([field, list]) => [
+        field,
+        list.map((file) => file.stored),
+      ])
+    );
+  }
+
+  @Post("/private")
+  @UseGuards(TokenGuard)
+  @UseInterceptors(
+    FileInterceptor("document", {
+      storage: diskStorage({ destination: join(dir, "private") }),
+    })
+  )
+  privateUpload(@UploadedFile() file) {
+    return { size: file.size };
+  }
+}
+
+async function createApp() {
+  const app = WynkFactory.create({ controllers: [UploadController] });
+  await app.build();
+  return app;
+}
+
+function upload(app, path, form, headers = {}) {
+  return app.handle(
+    new Request(`http://localhost${path}`, { method: "POST", body: form, headers })
+  );
+}
+
+describe("File uploads", () => {
+  it("stores a single file in memory with the text fields in the body", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("title", "Me");
+    form.append("tags", "a");
+    form.append("tags", "b");
+    form.append(
+      "avatar",
+      new File(["hello"], "me.txt", { type: "application/octet-stream" })
+    );
+
+    const response = await upload(app, "/uploads/avatar", form);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      name: "me.txt",
+      type: "application/octet-stream",
+      size: 5,
+      text: "hello",
+      body: { title: "Me", tags: ["a", "b"] },
+    });
+  });
+
+  it("answers 413 when a file exceeds fileSize", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("avatar", new File(["x".repeat(17)], "big.txt"));
+
+    const response = await upload(app, "/uploads/avatar", form);
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).message).toContain("16 bytes");
+  });
+
+  it("answers 415 for requests that are not multipart/form-data", async () => {
+    const app = await createApp();
+
+    const response = await app.handle(
+      new Request("http://localhost/uploads/avatar", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ avatar: "nope" }),
+      })
+    );
+
+    expect(response.status).toBe(415);
+  });
+
+  it("rejects files in unexpected fields and malformed bodies with 400", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("other", new File(["x"], "x.txt"));
+    expect((await upload(app, "/uploads/avatar", form)).status).toBe(400);
+
+    const malformed = await upload(app, "/uploads/avatar", "--abc\r\nbroken", {
+      "Content-Type": "multipart/form-data; boundary=abc",
+    });
+    expect(malformed.status).toBe(400);
+  });
+
+  it("parses bodies arriving in small chunks", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("title", "Chunked");
+    form.append("avatar", new File(["\r\n--hello"], "me.txt"));
+    const request = new Request("http://localhost", { method: "POST", body: form });
+    const contentType = request.headers.get("content-type");
+    const bytes = new Uint8Array(await request.arrayBuffer());
+    const body = new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < bytes.length; i += 3) {
+          controller.enqueue(bytes.subarray(i, i + 3));
+        }
+        controller.close();
+      },
+    });
+
+    const response = await upload(app, "/uploads/avatar", body, {
+      "Content-Type": contentType,
+    });
+
+    expect(await response.json()).toMatchObject({
+      text: "\r\n--hello",
+      body: { title: "Chunked" },
+    });
+  });
+
+  it("writes files to disk with the naming function", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("document", new File(["report body"], "report.txt"));
+
+    const response = await upload(app, "/uploads/disk", form);
+    const body = await response.json();
+
+    expect(body).toEqual({
+      path: join(dir, "documents", "saved-report.txt"),
+      filename: "saved-report.txt",
+      size: 11,
+    });
+    expect(readFileSync(body.path, "utf8")).toBe("report body");
+  });
+
+  it("removes stored files when the handler fails", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("reject", "yes");
+    form.append("document", new File(["draft"], "draft.txt"));
+
+    const response = await upload(app, "/uploads/disk", form);
+
+    expect(response.status).toBe(400);
+    expect(existsSync(join(dir, "documents", "saved-draft.txt"))).toBe(false);
+  });
+
+  it("limits the number of files and fields", async () => {
+    const app = await createApp();
+    const two = new FormData();
+    two.append("photos", new File(["1"], "1.jpg"));
+    two.append("photos", new File(["2"], "2.jpg"));
+    const ok = await upload(app, "/uploads/photos", two);
+    expect(await ok.json()).toEqual(["1.jpg", "2.jpg"]);
+
+    const three = new FormData();
+    for (const name of ["1.jpg", "2.jpg", "3.jpg"]) {
+      three.append("photos", new File(["x"], name));
+    }
+    expect((await upload(app, "/uploads/photos", three)).status).toBe(413);
+
+    const fields = new FormData();
+    fields.append("a", "1");
+    fields.append("b", "2");
+    expect((await upload(app, "/uploads/photos", fields)).status).toBe(413);
+  });
+
+  it("groups files by field and cleans up a custom engine on failure", async () => {
+    const app = await createApp();
+    const form = new FormData();
+    form.append("avatar", new File(["abc"], "me.png"));
+    form.append("documents", new File(["1234"], "cv.pdf"));
+
+    const response = await upload(app, "/uploads/profile", form);
+    expect(await response.json()).toEqual({
+      avatar: ["mem:me.png:3"],
+      documents: ["mem:cv.pdf:4"],
+    });
+
+    removed.length = 0;
+    const tooMany = new FormData();
+    tooMany.append("avatar", new File(["abc"], "me.png"));
+    for (const name of ["a.pdf", "b.pdf", "c.pdf"]) {
+      tooMany.append("documents", new File(["1"], name));
+    }
+    expect((await upload(app, "/uploads/profile", tooMany)).status).toBe(413);
+    expect(removed).toEqual(["mem:me.png:3", "mem:a.pdf:1", "mem:b.pdf:1"]);
+  });
+
+  it("runs guards before the body is read", async () => {
+    const app = await createApp();
+    guardCalls = 0;
+    const form = new FormData();
+    form.append("document", new File(["secret"], "secret.txt"));
+
+    const denied = await upload(app, "/uploads/private", form);
+    expect(denied.status).toBe(403);
+    expect(guardCalls).toBe(1);
+    expect(existsSync(join(dir, "private"))).toBe(false);
+
+    const allowed = await upload(app, "/uploads/private", form, {
+      Authorization: "Bearer ok",
+    });
+    expect(await allowed.json()).toEqual({ size: 6 });
+    expect(readdirSync(join(dir, "private"))).toHaveLength(1);
+  });
+
+  it("refuses body schemas on upload routes", async () => {
+    @Controller("/broken")
+    class BrokenController {
+      @Post({ path: "/", body: { type: "object" } })
+      @UseInterceptors(FileInterceptor("file"))
+      create() {}
+    }
+
+    const app = WynkFactory.create({ controllers: [BrokenController] });
+
+    await expect(app.build()).rejects.toThrow("cannot declare a body schema");
+  });
+});
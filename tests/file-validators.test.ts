@@ -0,0 +1,264 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Post,
+  UploadedFile,
+  UploadedFiles,
+  UseFilters,
+  UseInterceptors,
+  FileInterceptor,
+  FileFieldsInterceptor,
+  FileUploadExceptionFilter,
+  FileValidationException,
+  ParseFilePipe,
+  FileValidator,
+  FileTypeValidator,
+  ImageDimensionsValidator,
+  MaxFileSizeValidator,
+  detectFileType,
+  sanitizeFilename,
+} from "../core";
+
+function png(width, height) {
+  const bytes = new Uint8Array(33);
+  bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(8, 13);
+  bytes.set([0x49, 0x48, 0x44, 0x52], 12); // IHDR
+  view.setUint32(16, width);
+  view.setUint32(20, height);
+  return bytes;
+}
+
+function jpeg(width, height) {
+  return new Uint8Array([
+    0xff, 0xd8,
+    // APP0 with a 14-byte payload
+    0xff, 0xe0, 0x00, 0x10, ...new Array(14).fill(0),
+    // SOF0
+    0xff, 0xc0, 0x00, 0x11, 0x08,
+    height >> 8, height & 0xff, width >> 8, width & 0xff,
+    ...new Array(10).fill(0),
+  ]);
+}
+
+const html = new TextEncoder().encode("  <!DOCTYPE html><script>alert(1)</script>");
+
+describe("detectFileType", () => {
+  it("detects types from magic numbers", () => {
+    expect(detectFileType(png(1, 1))).toBe("image/png");
+    expect(detectFileType(jpeg(1, 1))).toBe("image/jpeg");
+    expect(detectFileType(new TextEncoder().encode("GIF89a...."))).toBe("image/gif");
+    expect(detectFileType(new TextEncoder().encode("%PDF-1.7"))).toBe("application/pdf");
+    expect(detectFileType(new Uint8Array([0x50, 0x4b, 0x03, 0x04]))).toBe("application/zip");
+  });
+
+  it("tells HTML, SVG and plain text apart", () => {
+    expect(detectFileType(html)).toBe("text/html");
+    expect(detectFileType(new TextEncoder().encode('<?xml version="1.0"?><svg></svg>'))).toBe(
+      "image/svg+xml"
+    );
+    expect(detectFileType(new TextEncoder().encode("id,name\n1,Ada\n"))).toBe("text/plain");
+    expect(detectFileType(new Uint8Array([0x00, 0x13, 0x37]))).toBeUndefined();
+  });
+});
+
+describe("File validators", () => {
+  it("FileTypeValidator checks the contents instead of the client type", async () => {
+    const validator = new FileTypeValidator({ fileType: ["image/png", "image/jpeg"] });
+    const fake = new File([html], "avatar.png", { type: "image/png" });
+
+    expect(await validator.isValid(new File([png(2, 2)], "a.png"))).toBe(true);
+    expect(await validator.isValid(fake)).toBe(false);
+    expect(validator.buildErrorMessage(fake)).toBe(
+      'File content "text/html" (sent as "image/png") is not an allowed type. Expected "image/png" or "image/jpeg"'
+    );
+  });
+
+  it("FileTypeValidator supports wildcards and text types", async () => {
+    const images = new FileTypeValidator({ fileType: "image/*" });
+    const csv = new FileTypeValidator({ fileType: /^text\/csv$/ });
+
+    expect(await images.isValid({ size: 10, type: "", buffer: Buffer.from(jpeg(1, 1)) })).toBe(true);
+    expect(await csv.isValid(new File(["a,b\n1,2\n"], "a.csv", { type: "text/csv" }))).toBe(true);
+    expect(await csv.isValid(new File([html], "a.csv", { type: "text/csv" }))).toBe(false);
+  });
+
+  it("ImageDimensionsValidator reads PNG and JPEG headers", async () => {
+    const validator = new ImageDimensionsValidator({ maxWidth: 1024, minHeight: 100 });
+    const large = new File([png(2048, 50)], "large.png");
+
+    expect(await validator.isValid(new File([jpeg(800, 600)], "ok.jpg"))).toBe(true);
+    expect(await validator.isValid(large)).toBe(false);
+    expect(validator.buildErrorMessage(large)).toBe(
+      "Image is 2048x50 pixels; it must be at most 1024 pixels wide and at least 100 pixels high"
+    );
+    const text = new File(["hello"], "a.png");
+    expect(await validator.isValid(text)).toBe(false);
+    expect(validator.buildErrorMessage(text)).toBe("Image dimensions could not be read");
+  });
+
+  it("sanitizeFilename removes directories and unsafe characters", () => {
+    expect(sanitizeFilename("../../etc/passwd")).toBe("passwd");
+    expect(sanitizeFilename("C:\\Users\\me\\my<report>.pdf")).toBe("my_report_.pdf");
+    expect(sanitizeFilename(".env")).toBe("env");
+    expect(sanitizeFilename("con.txt")).toBe("_con.txt");
+    expect(sanitizeFilename("..")).toBe("file");
+    expect(sanitizeFilename(`${"a".repeat(300)}.png`, { maxLength: 20 })).toBe(
+      `${"a".repeat(16)}.png`
+    );
+  });
+});
+
+describe("ParseFilePipe validators", () => {
+  it("reports every failed check of every file", async () => {
+    const pipe = new ParseFilePipe({
+      validators: [
+        new MaxFileSizeValidator({ maxSize: 40 }),
+        new FileTypeValidator({ fileType: "image/png" }),
+      ],
+    });
+    const files = [
+      new File([png(1, 1)], "ok.png"),
+      new File([html, html], "fake.png", { type: "image/png" }),
+    ];
+
+    const error = await pipe.transform(files).catch((error) => error);
+
+    expect(error).toBeInstanceOf(FileValidationException);
+    expect(error.getStatus()).toBe(400);
+    expect(error.message).toBe("Validation failed: File size 84 bytes exceeds the maximum of 40 bytes");
+    expect(error.files).toEqual([
+      {
+        index: 1,
+        file: "fake.png",
+        field: undefined,
+        errors: [
+          {
+            validator: "MaxFileSizeValidator",
+            message: "File size 84 bytes exceeds the maximum of 40 bytes",
+          },
+          {
+            validator: "FileTypeValidator",
+            message: expect.stringContaining('File content "text/html"'),
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("runs custom validators and sanitizes names once valid", async () => {
+    class NoEmptyFiles extends FileValidator {
+      isValid(file) {
+        return file.size > 0;
+      }
+      buildErrorMessage() {
+        return "File is empty";
+      }
+    }
+    const pipe = new ParseFilePipe({ validators: [new NoEmptyFiles()], sanitizeFilename: true });
+
+    const file = await pipe.transform(new File(["x"], "../secret/.notes.txt"));
+    expect(file.name).toBe("notes.txt");
+    expect(await file.text()).toBe("x");
+    await expect(pipe.transform(new File([], "empty.txt"))).rejects.toThrow("File is empty");
+  });
+
+  it("allows missing files when fileIsRequired is false", async () => {
+    const pipe = new ParseFilePipe({ fileIsRequired: false });
+
+    expect(await pipe.transform(undefined)).toBeUndefined();
+  });
+});
+
+@Controller("/uploads")
+@UseFilters(FileUploadExceptionFilter)
+class AvatarController {
+  @Post("/avatar")
+  @UseInterceptors(FileInterceptor("avatar"))
+  avatar(
+    @UploadedFile(
+      new ParseFilePipe({
+        validators: [
+          new FileTypeValidator({ fileType: ["image/png", "image/jpeg"] }),
+          new ImageDimensionsValidator({ maxWidth: 512, maxHeight: 512 }),
+        ],
+        sanitizeFilename: true,
+      })
+    )
+    file
+  ) {
+    return { name: file.originalname, size: file.size };
+  }
+
+  @Post("/gallery")
+  @UseInterceptors(FileFieldsInterceptor([{ name: "cover" }, { name: "photos", maxCount: 3 }]))
+  gallery(
+    @UploadedFiles(
+      new ParseFilePipe({ validators: [new FileTypeValidator({ fileType: "image/*" })] })
+    )
+    files
+  ) {
+    return Object.keys(files);
+  }
+}
+
+function upload(app, path, form) {
+  return app.handle(new Request(`http://localhost${path}`, { method: "POST", body: form }));
+}
+
+describe("File validation on upload routes", () => {
+  it("accepts valid images and sanitizes their names", async () => {
+    const app = WynkFactory.create({ controllers: [AvatarController] });
+    const form = new FormData();
+    form.append("avatar", new File([png(256, 256)], "../me.png", { type: "image/png" }));
+
+    const response = await upload(app, "/uploads/avatar", form);
+
+    expect(await response.json()).toEqual({ name: "me.png", size: 33 });
+  });
+
+  it("answers structured errors through FileUploadExceptionFilter", async () => {
+    const app = WynkFactory.create({ controllers: [AvatarController] });
+    const form = new FormData();
+    form.append("avatar", new File([html], "avatar.png", { type: "image/png" }));
+
+    const response = await upload(app, "/uploads/avatar", form);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body).toMatchObject({
+      statusCode: 400,
+      error: "File Upload Error",
+      files: [
+        {
+          index: 0,
+          file: "avatar.png",
+          field: "avatar",
+          errors: [
+            { validator: "FileTypeValidator" },
+            { validator: "ImageDimensionsValidator", message: "Image dimensions could not be read" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("validates every field of FileFieldsInterceptor", async () => {
+    const app = WynkFactory.create({ controllers: [AvatarController] });
+    const form = new FormData();
+    form.append("cover", new File([png(1, 1)], "cover.png"));
+    form.append("photos", new File([jpeg(1, 1)], "1.jpg"));
+    form.append("photos", new File(["%PDF-1.4"], "2.jpg"));
+
+    const response = await upload(app, "/uploads/gallery", form);
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.files).toHaveLength(1);
+    expect(body.files[0]).toMatchObject({ index: 2, file: "2.jpg", field: "photos" });
+  });
+});
@@ -0,0 +1,150 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import { Controller, Get, Injectable } from "../core";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const calls: string[] = [];
+
+@Injectable()
+@Controller("/shutdown")
+class SlowController {
+  @Get("/slow")
+  async slow() {
+    await sleep(200);
+    calls.push("handled");
+    return { done: true };
+  }
+
+  @Get("/hang")
+  async hang() {
+    await sleep(3000);
+    return { done: true };
+  }
+}
+
+function randomPort(base: number) {
+  return base + Math.floor(Math.random() * 1000);
+}
+
+describe("WynkFramework.close()", () => {
+  it("waits for in-flight requests before running destroy hooks", async () => {
+    calls.length = 0;
+
+    @Injectable()
+    class QueueService {
+      onModuleDestroy() {
+        calls.push("destroy");
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [SlowController],
+      providers: [QueueService],
+      shutdownSignals: false,
+    });
+    const port = randomPort(5100);
+    await app.listen(port);
+
+    const inFlight = fetch(`http://localhost:${port}/shutdown/slow`).then((res) =>
+      res.json()
+    );
+    await sleep(50);
+
+    await app.close();
+
+    expect(await inFlight).toEqual({ done: true });
+    expect(calls).toEqual(["handled", "destroy"]);
+    await expect(fetch(`http://localhost:${port}/shutdown/slow`)).rejects.toThrow();
+  });
+
+  it("closes remaining connections once shutdownTimeout is reached", async () => {
+    const app = WynkFactory.create({
+      controllers: [SlowController],
+      shutdownSignals: false,
+      shutdownTimeout: 100,
+    });
+    const port = randomPort(6100);
+    await app.listen(port);
+
+    const inFlight = fetch(`http://localhost:${port}/shutdown/hang`).catch(
+      () => "aborted"
+    );
+    await sleep(50);
+
+    const originalWarn = console.warn;
+    console.warn = () => {};
+    const started = Date.now();
+    try {
+      await app.close();
+    } finally {
+      console.warn = originalWarn;
+    }
+
+    expect(Date.now() - started).toBeLessThan(1500);
+    expect(await inFlight).toBe("aborted");
+  });
+
+  it("resolves without exiting the process and only runs once", async () => {
+    let destroyed = 0;
+
+    @Injectable()
+    class CounterService {
+      onModuleDestroy() {
+        destroyed++;
+      }
+    }
+
+    const app = WynkFactory.create({ providers: [CounterService] });
+    await app.build();
+
+    const originalExit = process.exit;
+    let exited = false;
+    process.exit = (() => {
+      exited = true;
+    }) as any;
+    try {
+      await Promise.all([app.close(), app.close()]);
+      await app.close();
+    } finally {
+      process.exit = originalExit;
+    }
+
+    expect(exited).toBe(false);
+    expect(destroyed).toBe(1);
+  });
+});
+
+describe("WynkFramework shutdown signals", () => {
+  it("registers handlers for the configured signals and removes them on close()", async () => {
+    const app = WynkFactory.create({
+      controllers: [SlowController],
+      shutdownSignals: ["SIGUSR2"],
+    });
+    const before = process.listenerCount("SIGUSR2");
+    const sigterm = process.listenerCount("SIGTERM");
+
+    await app.listen(randomPort(7100));
+    expect(process.listenerCount("SIGUSR2")).toBe(before + 1);
+    expect(process.listenerCount("SIGTERM")).toBe(sigterm);
+
+    await app.close();
+    expect(process.listenerCount("SIGUSR2")).toBe(before);
+  });
+
+  it("registers no signal handlers when shutdownSignals is false", async () => {
+    const app = WynkFactory.create({
+      controllers: [SlowController],
+      shutdownSignals: false,
+    });
+    const sigterm = process.listenerCount("SIGTERM");
+    const sigint = process.listenerCount("SIGINT");
+
+    await app.listen(randomPort(8100));
+    expect(process.listenerCount("SIGTERM")).toBe(sigterm);
+    expect(process.listenerCount("SIGINT")).toBe(sigint);
+
+    await app.close();
+  });
+});
@@ -0,0 +1,150 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HostParam,
+  DTO,
+  createHostMatcher,
+} from "../core";
+
+@Controller({ path: "/dashboard", host: ":account.example.com" })
+class TenantDashboardController {
+  @Get("/")
+  index(@HostParam("account") account: string) {
+    return { tenant: account };
+  }
+
+  @Get("/only-tenants")
+  tenantsOnly(@HostParam("account") account: string) {
+    return { tenant: account };
+  }
+}
+
+@Controller({
+  path: "/dashboard",
+  host: [/^(?<region>eu|us)\.admin\.example\.com$/, "admin.example.com"],
+})
+class AdminDashboardController {
+  @Get("/")
+  index(@HostParam("region") region?: string) {
+    return { admin: true, region: region ?? null };
+  }
+}
+
+@Controller("/dashboard")
+class PublicDashboardController {
+  @Get("/")
+  index() {
+    return { public: true };
+  }
+}
+
+function createApp() {
+  return WynkFactory.create({
+    // Host-less controller first: host-restricted ones still take precedence
+    controllers: [
+      PublicDashboardController,
+      AdminDashboardController,
+      TenantDashboardController,
+    ],
+  });
+}
+
+async function get(app, url, headers = {}) {
+  const response = await app.handle(new Request(url, { headers }));
+  return { status: response.status, body: await response.json() };
+}
+
+describe("Host-based routing", () => {
+  it("compiles host patterns", () => {
+    const match = createHostMatcher(":account.example.com");
+    expect(match("acme.example.com")).toEqual({ account: "acme" });
+    expect(match("example.com")).toBeUndefined();
+    expect(match("a.b.example.com")).toBeUndefined();
+    expect(createHostMatcher("Example.com")("example.com")).toEqual({});
+    expect(createHostMatcher(/^api\./)("api.example.com")).toEqual({});
+  });
+
+  it("exposes host params to @HostParam", async () => {
+    const app = createApp();
+
+    expect(await get(app, "http://acme.example.com/dashboard")).toEqual({
+      status: 200,
+      body: { tenant: "acme" },
+    });
+  });
+
+  it("reads the Host header and ignores the port", async () => {
+    const app = createApp();
+
+    const { body } = await get(app, "http://localhost/dashboard", {
+      Host: "Globex.Example.com:8080",
+    });
+    expect(body).toEqual({ tenant: "globex" });
+  });
+
+  it("matches RegExp and array patterns", async () => {
+    const app = createApp();
+
+    expect((await get(app, "http://eu.admin.example.com/dashboard")).body).toEqual({
+      admin: true,
+      region: "eu",
+    });
+    expect((await get(app, "http://admin.example.com/dashboard")).body).toEqual({
+      admin: true,
+      region: null,
+    });
+  });
+
+  it("falls through to controllers without a host on the same path", async () => {
+    const app = createApp();
+
+    expect((await get(app, "http://example.com/dashboard")).body).toEqual({
+      public: true,
+    });
+    expect((await get(app, "http://localhost/dashboard")).body).toEqual({
+      public: true,
+    });
+  });
+
+  it("returns 404 when no controller serves the host", async () => {
+    const app = createApp();
+
+    expect((await get(app, "http://acme.example.com/dashboard/only-tenants")).body)
+      .toEqual({ tenant: "acme" });
+    const { status, body } = await get(
+      app,
+      "http://www.other.org/dashboard/only-tenants"
+    );
+    expect(status).toBe(404);
+    expect(body.message).toBe("Cannot GET /dashboard/only-tenants");
+  });
+
+  it("rejects routes sharing a path with different schemas", async () => {
+    @Controller({ path: "/orders", host: "shop.example.com" })
+    class ShopOrdersController {
+      @Post({ path: "/", body: DTO.Object({ sku: DTO.String() }) })
+      create(@Body() body) {
+        return body;
+      }
+    }
+
+    @Controller("/orders")
+    class OrdersController {
+      @Post({ path: "/", body: DTO.Object({ id: DTO.Number() }) })
+      create(@Body() body) {
+        return body;
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [ShopOrdersController, OrdersController],
+    });
+    await expect(app.build()).rejects.toThrow(/declare different body schemas/);
+  });
+});
@@ -0,0 +1,170 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import { Module } from "../core/module";
+import { Controller, Get, Injectable, UseGuards } from "../core";
+
+function createApp(calls: string[]) {
+  @Injectable()
+  class DatabaseService {
+    onModuleInit() {
+      calls.push("db:init");
+    }
+    onApplicationBootstrap() {
+      calls.push("db:bootstrap");
+    }
+    beforeApplicationShutdown(signal?: string) {
+      calls.push(`db:before:${signal}`);
+    }
+    onModuleDestroy() {
+      calls.push("db:destroy");
+    }
+    onApplicationShutdown(signal?: string) {
+      calls.push(`db:shutdown:${signal}`);
+    }
+  }
+
+  class AuditGuard {
+    canActivate() {
+      return true;
+    }
+    onApplicationBootstrap() {
+      calls.push("guard:bootstrap");
+    }
+    beforeApplicationShutdown(signal?: string) {
+      calls.push(`guard:before:${signal}`);
+    }
+  }
+
+  @Injectable()
+  @Controller("/lifecycle")
+  @UseGuards(AuditGuard)
+  class StatusController {
+    constructor(private db: DatabaseService) {}
+
+    onApplicationBootstrap() {
+      calls.push("controller:bootstrap");
+    }
+    onApplicationShutdown(signal?: string) {
+      calls.push(`controller:shutdown:${signal}`);
+    }
+
+    @Get("/")
+    index() {
+      return { ok: true };
+    }
+  }
+
+  @Module({ providers: [DatabaseService], controllers: [StatusController] })
+  class StatusModule {
+    constructor(private db: DatabaseService) {}
+
+    onModuleInit() {
+      calls.push(`module:init:${this.db instanceof DatabaseService}`);
+    }
+    onApplicationBootstrap() {
+      calls.push("module:bootstrap");
+    }
+    onApplicationShutdown(signal?: string) {
+      calls.push(`module:shutdown:${signal}`);
+    }
+  }
+
+  return WynkFactory.create({ modules: [StatusModule] });
+}
+
+describe("Lifecycle hooks - bootstrap", () => {
+  it("calls onApplicationBootstrap after every route is registered, in dependency order", async () => {
+    const calls: string[] = [];
+    const app = createApp(calls);
+
+    await app.build();
+
+    expect(calls).toEqual([
+      "db:init",
+      "module:init:true",
+      "db:bootstrap",
+      "module:bootstrap",
+      "controller:bootstrap",
+      "guard:bootstrap",
+    ]);
+  });
+
+  it("runs bootstrap hooks once, before the first request is handled", async () => {
+    const calls: string[] = [];
+    const app = createApp(calls);
+
+    const res = await app.handle(new Request("http://localhost/lifecycle/"));
+    await app.handle(new Request("http://localhost/lifecycle/"));
+
+    expect(res.status).toBe(200);
+    expect(calls.filter((c) => c.endsWith(":bootstrap")).length).toBe(4);
+  });
+
+  it("fails the build when a bootstrap hook throws", async () => {
+    @Injectable()
+    class BrokenService {
+      onApplicationBootstrap() {
+        throw new Error("registry unavailable");
+      }
+    }
+
+    const app = WynkFactory.create({ providers: [BrokenService] });
+    await expect(app.build()).rejects.toThrow("registry unavailable");
+  });
+});
+
+describe("Lifecycle hooks - shutdown", () => {
+  it("calls shutdown hooks with the signal around onModuleDestroy, dependents first", async () => {
+    const calls: string[] = [];
+    const app = createApp(calls);
+    await app.build();
+    calls.length = 0;
+
+    await app.close("SIGTERM");
+
+    expect(calls).toEqual([
+      "guard:before:SIGTERM",
+      "db:before:SIGTERM",
+      "db:destroy",
+      "controller:shutdown:SIGTERM",
+      "module:shutdown:SIGTERM",
+      "db:shutdown:SIGTERM",
+    ]);
+  });
+
+  it("keeps running shutdown hooks when one of them fails", async () => {
+    const calls: string[] = [];
+
+    @Injectable()
+    class QueueService {
+      onApplicationShutdown() {
+        calls.push("queue:shutdown");
+      }
+    }
+
+    @Injectable()
+    class DiscoveryService {
+      beforeApplicationShutdown() {
+        throw new Error("deregistration failed");
+      }
+      onApplicationShutdown() {
+        throw new Error("still failing");
+      }
+    }
+
+    const app = WynkFactory.create({ providers: [QueueService, DiscoveryService] });
+    await app.build();
+
+    const originalError = console.error;
+    console.error = () => {};
+    try {
+      await app.close("SIGINT");
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(calls).toEqual(["queue:shutdown"]);
+  });
+});
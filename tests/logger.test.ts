@@ -0,0 +1,292 @@
+// @ts-nocheck
+import { describe, it, expect, afterEach } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Injectable,
+  Logger,
+  LoggingInterceptor,
+  UseInterceptors,
+  formatLogEntry,
+} from "../core";
+
+function memoryTransport() {
+  const entries: any[] = [];
+  const lines: string[] = [];
+  return {
+    entries,
+    lines,
+    write(entry, line) {
+      entries.push(entry);
+      lines.push(line);
+    },
+  };
+}
+
+afterEach(() => {
+  Logger.configure();
+});
+
+describe("Logger", () => {
+  it("writes entries at or above the configured level", () => {
+    const transport = memoryTransport();
+    Logger.configure({ level: "warn", transports: [transport] });
+
+    const logger = new Logger("Levels");
+    logger.debug("debug");
+    logger.log("log");
+    logger.warn("warn");
+    logger.error("error");
+
+    expect(transport.entries.map((e) => e.level)).toEqual(["warn", "error"]);
+    expect(logger.isLevelEnabled("log")).toBe(false);
+    expect(logger.isLevelEnabled("fatal")).toBe(true);
+  });
+
+  it("formats text lines with level and context", () => {
+    const transport = memoryTransport();
+    Logger.configure({ transports: [transport] });
+
+    new Logger("UserService").log("Created user", { id: 1 });
+
+    expect(transport.lines).toEqual([
+      '[Wynk] LOG [UserService] Created user {"id":1}',
+    ]);
+  });
+
+  it("writes one JSON object per line in JSON mode", () => {
+    const transport = memoryTransport();
+    Logger.configure({
+      json: true,
+      transports: [transport],
+      fields: { service: "billing" },
+    });
+
+    new Logger("Billing").warn("Card declined\nretrying", { attempt: 2 });
+
+    expect(transport.lines).toHaveLength(1);
+    expect(transport.lines[0]).not.toContain("\n");
+    const parsed = JSON.parse(transport.lines[0]);
+    expect(parsed).toMatchObject({
+      level: "warn",
+      context: "Billing",
+      message: "Card declined\nretrying",
+      service: "billing",
+      attempt: 2,
+    });
+    expect(typeof parsed.timestamp).toBe("string");
+  });
+
+  it("serializes errors passed to error()", () => {
+    const transport = memoryTransport();
+    Logger.configure({ json: true, transports: [transport] });
+
+    new Logger("Jobs").error("Job failed", new TypeError("boom"), { job: 7 });
+
+    const parsed = JSON.parse(transport.lines[0]);
+    expect(parsed.job).toBe(7);
+    expect(parsed.error.name).toBe("TypeError");
+    expect(parsed.error.message).toBe("boom");
+    expect(parsed.error.stack).toContain("boom");
+  });
+
+  it("binds fields on child loggers without changing the parent", () => {
+    const transport = memoryTransport();
+    Logger.configure({ transports: [transport] });
+
+    const parent = new Logger("Orders", { tenant: "acme" });
+    const child = parent.child({ orderId: 42 });
+    child.log("Shipped");
+    parent.log("Listed");
+
+    expect(transport.entries[0].context).toBe("Orders");
+    expect(transport.entries[0].fields).toEqual({ tenant: "acme", orderId: 42 });
+    expect(transport.entries[1].fields).toEqual({ tenant: "acme" });
+  });
+
+  it("keeps logging when a transport throws", () => {
+    const transport = memoryTransport();
+    Logger.configure({
+      transports: [
+        {
+          write() {
+            throw new Error("disk full");
+          },
+        },
+        transport,
+      ],
+    });
+
+    expect(() => new Logger().log("still here")).not.toThrow();
+    expect(transport.lines).toEqual(["[Wynk] LOG still here"]);
+  });
+
+  it("omits fields and context from text lines when absent", () => {
+    const line = formatLogEntry({
+      level: "error",
+      message: "failed",
+      timestamp: new Date().toISOString(),
+      fields: {},
+    });
+    expect(line).toBe("[Wynk] ERROR failed");
+  });
+});
+
+describe("ApplicationOptions.logger", () => {
+  it("routes framework logs through the configured transports", async () => {
+    const transport = memoryTransport();
+
+    @Controller("/logger-framework")
+    @UseInterceptors(LoggingInterceptor)
+    class FrameworkController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [FrameworkController],
+      cors: true,
+      logger: { json: true, transports: [transport] },
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/logger-framework")
+    );
+    expect(response.status).toBe(200);
+
+    const lines = transport.lines.map((line) => JSON.parse(line));
+    expect(lines.some((l) => l.context === "Cors")).toBe(true);
+    const interceptorLines = lines.filter(
+      (l) => l.context === "LoggingInterceptor"
+    );
+    expect(interceptorLines).toHaveLength(2);
+    expect(typeof interceptorLines[1].duration).toBe("number");
+  });
+
+  it("silences all logging with logger: false", async () => {
+    const logged: any[] = [];
+    const originalLog = console.log;
+    console.log = (...args) => logged.push(args);
+
+    try {
+      @Controller("/logger-silent")
+      @UseInterceptors(LoggingInterceptor)
+      class SilentController {
+        @Get("/")
+        index() {
+          return { ok: true };
+        }
+      }
+
+      const app = WynkFactory.create({
+        controllers: [SilentController],
+        cors: true,
+        logger: false,
+      });
+      await app.handle(new Request("http://localhost/logger-silent"));
+    } finally {
+      console.log = originalLog;
+    }
+
+    expect(logged).toEqual([]);
+  });
+
+  it("injects a Logger into providers and controllers", async () => {
+    const transport = memoryTransport();
+
+    @Injectable()
+    class GreetingService {
+      constructor(private logger: Logger) {
+        this.logger.setContext("GreetingService");
+      }
+
+      greet(name: string) {
+        this.logger.log("Greeting", { name });
+        return `Hello ${name}`;
+      }
+    }
+
+    @Injectable()
+    @Controller("/logger-inject")
+    class GreetingController {
+      constructor(private greeting: GreetingService) {}
+
+      @Get("/")
+      index() {
+        return { message: this.greeting.greet("Ada") };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [GreetingController],
+      providers: [GreetingService],
+      logger: { transports: [transport] },
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/logger-inject")
+    );
+    expect(await response.json()).toEqual({ message: "Hello Ada" });
+    expect(transport.lines).toEqual([
+      '[Wynk] LOG [GreetingService] Greeting {"name":"Ada"}',
+    ]);
+  });
+
+  it("names injected loggers after the class they are injected into", async () => {
+    const transport = memoryTransport();
+
+    @Injectable()
+    class InvoiceService {
+      constructor(private logger: Logger) {}
+
+      send() {
+        this.logger.log("Sent");
+      }
+    }
+
+    const app = WynkFactory.create({
+      providers: [InvoiceService],
+      logger: { transports: [transport] },
+    });
+    await app.build();
+    app.get(InvoiceService).send();
+
+    expect(transport.lines).toEqual(["[Wynk] LOG [InvoiceService] Sent"]);
+  });
+
+  it("keeps the logger options of each application apart", async () => {
+    const first = memoryTransport();
+    const second = memoryTransport();
+
+    @Controller("/logger-apps")
+    @UseInterceptors(LoggingInterceptor)
+    class AppsController {
+      @Get("/")
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const firstApp = WynkFactory.create({
+      controllers: [AppsController],
+      logger: { transports: [first], fields: { app: "first" } },
+    });
+    const secondApp = WynkFactory.create({
+      controllers: [AppsController],
+      logger: { level: "error", transports: [second] },
+    });
+    await firstApp.handle(new Request("http://localhost/logger-apps"));
+    await secondApp.handle(new Request("http://localhost/logger-apps"));
+
+    const interceptorEntries = first.entries.filter(
+      (entry) => entry.context === "LoggingInterceptor"
+    );
+    expect(interceptorEntries).toHaveLength(2);
+    expect(interceptorEntries[0].fields.app).toBe("first");
+    expect(second.entries).toEqual([]);
+  });
+});
@@ -0,0 +1,467 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Module,
+  Global,
+  DynamicModule,
+  AsyncModuleOptions,
+  createAsyncOptionsProvider,
+} from "../core/module";
+import { ModuleGraph } from "../core/module-graph";
+import { Controller, Get, Injectable, Inject } from "../core";
+
+describe("ModuleGraph - scanning", () => {
+  it("loads imported modules transitively, imports first", () => {
+    @Module({})
+    class LeafModule {}
+
+    @Module({ imports: [LeafModule] })
+    class MiddleModule {}
+
+    @Module({ imports: [MiddleModule] })
+    class RootModule {}
+
+    const graph = ModuleGraph.scan([RootModule]);
+    expect(graph.modules.map((m) => m.name)).toEqual([
+      "LeafModule",
+      "MiddleModule",
+      "RootModule",
+    ]);
+  });
+
+  it("deduplicates modules imported from several places", () => {
+    @Module({})
+    class SharedModule {}
+
+    @Module({ imports: [SharedModule] })
+    class AModule {}
+
+    @Module({ imports: [SharedModule] })
+    class BModule {}
+
+    const graph = ModuleGraph.scan([AModule, BModule, SharedModule]);
+    expect(graph.modules.filter((m) => m.metatype === SharedModule).length).toBe(1);
+    expect(graph.modules.length).toBe(3);
+  });
+
+  it("tolerates circular imports", () => {
+    const meta: any = {};
+    @Module(meta)
+    class CatsModule {}
+
+    @Module({ imports: [CatsModule] })
+    class DogsModule {}
+
+    meta.imports = [DogsModule];
+
+    const graph = ModuleGraph.scan([CatsModule]);
+    expect(graph.modules.length).toBe(2);
+  });
+
+  it("throws when an import is not a module", () => {
+    class NotAModule {}
+
+    @Module({ imports: [NotAModule] })
+    class BrokenModule {}
+
+    expect(() => ModuleGraph.scan([BrokenModule])).toThrow(
+      /NotAModule imported by BrokenModule is not a module/
+    );
+  });
+});
+
+describe("ModuleGraph - exports and visibility", () => {
+  it("exposes exported providers to importing modules only", () => {
+    @Injectable()
+    class PublicService {}
+
+    @Injectable()
+    class PrivateService {}
+
+    @Module({
+      providers: [PublicService, PrivateService],
+      exports: [PublicService],
+    })
+    class LibModule {}
+
+    @Module({ imports: [LibModule] })
+    class ConsumerModule {}
+
+    const graph = ModuleGraph.scan([ConsumerModule]);
+    const visible = graph.getVisibleTokens(graph.getModule(ConsumerModule));
+    expect(visible.has(PublicService)).toBe(true);
+    expect(visible.has(PrivateService)).toBe(false);
+  });
+
+  it("re-exports the exports of an imported module", () => {
+    @Module({ providers: [{ provide: "TOKEN", useValue: 1 }], exports: ["TOKEN"] })
+    class InnerModule {}
+
+    @Module({ imports: [InnerModule], exports: [InnerModule] })
+    class FacadeModule {}
+
+    @Module({ imports: [FacadeModule] })
+    class ConsumerModule {}
+
+    const graph = ModuleGraph.scan([ConsumerModule]);
+    expect(graph.getVisibleTokens(graph.getModule(ConsumerModule)).has("TOKEN")).toBe(true);
+  });
+
+  it("makes exports of @Global() modules visible everywhere", () => {
+    @Global()
+    @Module({ providers: [{ provide: "GLOBAL_CFG", useValue: {} }], exports: ["GLOBAL_CFG"] })
+    class ConfigModule {}
+
+    @Module({})
+    class FeatureModule {}
+
+    const graph = ModuleGraph.scan([ConfigModule, FeatureModule]);
+    expect(graph.getVisibleTokens(graph.getModule(FeatureModule)).has("GLOBAL_CFG")).toBe(true);
+  });
+
+  it("rejects exporting a token the module does not provide", () => {
+    @Module({ exports: ["MISSING"] })
+    class BadExportModule {}
+
+    @Module({ imports: [BadExportModule] })
+    class ConsumerModule {}
+
+    const graph = ModuleGraph.scan([ConsumerModule]);
+    expect(() => graph.validate()).toThrow(/BadExportModule cannot export MISSING/);
+  });
+});
+
+describe("WynkFactory - module graph", () => {
+  it("registers controllers of transitively imported modules", async () => {
+    @Injectable()
+    @Controller("/graph-nested")
+    class NestedController {
+      @Get("/")
+      index() {
+        return { nested: true };
+      }
+    }
+
+    @Module({ controllers: [NestedController] })
+    class NestedModule {}
+
+    @Module({ imports: [NestedModule] })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    const res = await app.handle(new Request("http://localhost/graph-nested/"));
+    expect(res.status).toBe(200);
+    expect(await res.json()).toEqual({ nested: true });
+  });
+
+  it("injects an exported provider into an importing module's controller", async () => {
+    @Injectable()
+    class GreetingService {
+      greet() {
+        return "hello";
+      }
+    }
+
+    @Module({ providers: [GreetingService], exports: [GreetingService] })
+    class GreetingModule {}
+
+    @Injectable()
+    @Controller("/graph-greet")
+    class GreetController {
+      constructor(private greeting: GreetingService) {}
+
+      @Get("/")
+      index() {
+        return { message: this.greeting.greet() };
+      }
+    }
+
+    @Module({ imports: [GreetingModule], controllers: [GreetController] })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    const res = await app.handle(new Request("http://localhost/graph-greet/"));
+    expect(await res.json()).toEqual({ message: "hello" });
+  });
+
+  it("fails the build when a private provider is injected outside its module", async () => {
+    @Injectable()
+    class SecretService {}
+
+    @Module({ providers: [SecretService] })
+    class VaultModule {}
+
+    @Injectable()
+    @Controller("/graph-leak")
+    class LeakController {
+      constructor(private secret: SecretService) {}
+
+      @Get("/")
+      index() {
+        return {};
+      }
+    }
+
+    @Module({ imports: [VaultModule], controllers: [LeakController] })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    await expect(app.build()).rejects.toThrow(
+      /Cannot resolve dependency SecretService \(argument at index \[0\]\) of LeakController in AppModule/
+    );
+  });
+
+  it("checks @Inject() tokens and factory inject lists", async () => {
+    @Module({ providers: [{ provide: "DB_URL", useValue: "postgres://" }] })
+    class DatabaseModule {}
+
+    @Module({
+      imports: [DatabaseModule],
+      providers: [
+        { provide: "CLIENT", useFactory: (url: string) => ({ url }), inject: ["DB_URL"] },
+      ],
+    })
+    class ClientModule {}
+
+    const app = WynkFactory.create({ modules: [ClientModule] });
+    await expect(app.build()).rejects.toThrow(/DB_URL is provided by DatabaseModule/);
+  });
+
+  it("lets every module inject application-level providers", async () => {
+    @Injectable()
+    @Controller("/graph-app-provider")
+    class ConfigController {
+      constructor(@Inject("APP_NAME") private appName: string) {}
+
+      @Get("/")
+      index() {
+        return { name: this.appName };
+      }
+    }
+
+    @Module({ controllers: [ConfigController] })
+    class FeatureModule {}
+
+    const app = WynkFactory.create({
+      modules: [FeatureModule],
+      providers: [{ provide: "APP_NAME", useValue: "wynk" }],
+    });
+    const res = await app.handle(new Request("http://localhost/graph-app-provider/"));
+    expect(await res.json()).toEqual({ name: "wynk" });
+  });
+
+  it("initializes imported module providers before importing ones", async () => {
+    const order: string[] = [];
+
+    @Injectable()
+    class LowerService {
+      onModuleInit() {
+        order.push("lower");
+      }
+    }
+
+    @Injectable()
+    class UpperService {
+      onModuleInit() {
+        order.push("upper");
+      }
+    }
+
+    @Module({ providers: [LowerService], exports: [LowerService] })
+    class LowerModule {}
+
+    @Module({ imports: [LowerModule], providers: [UpperService] })
+    class UpperModule {}
+
+    const app = WynkFactory.create({ modules: [UpperModule] });
+    await app.build();
+    expect(order).toEqual(["lower", "upper"]);
+  });
+});
+
+describe("Dynamic modules", () => {
+  const CONFIG_OPTIONS = Symbol("CONFIG_OPTIONS");
+
+  @Injectable()
+  class ConfigService {
+    constructor(@Inject(CONFIG_OPTIONS) private options: any) {}
+
+    get(key: string) {
+      return this.options[key];
+    }
+  }
+
+  @Module({})
+  class ConfigModule {
+    static forRoot(options: any): DynamicModule {
+      return {
+        module: ConfigModule,
+        providers: [{ provide: CONFIG_OPTIONS, useValue: options }, ConfigService],
+        exports: [ConfigService],
+      };
+    }
+
+    static forRootAsync(options: AsyncModuleOptions): DynamicModule {
+      return {
+        module: ConfigModule,
+        imports: options.imports,
+        providers: [createAsyncOptionsProvider(CONFIG_OPTIONS, options), ConfigService],
+        exports: [ConfigService],
+      };
+    }
+  }
+
+  function makeController(path: string) {
+    @Injectable()
+    @Controller(path)
+    class SettingsController {
+      constructor(private config: ConfigService) {}
+
+      @Get("/")
+      index() {
+        return { name: this.config.get("name") };
+      }
+    }
+    return SettingsController;
+  }
+
+  it("registers providers returned by forRoot() in imports", async () => {
+    const SettingsController = makeController("/dyn-root");
+
+    @Module({
+      imports: [ConfigModule.forRoot({ name: "static" })],
+      controllers: [SettingsController],
+    })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    const res = await app.handle(new Request("http://localhost/dyn-root/"));
+    expect(await res.json()).toEqual({ name: "static" });
+  });
+
+  it("accepts a dynamic module directly in WynkFactory.create({ modules })", async () => {
+    const SettingsController = makeController("/dyn-top");
+
+    const app = WynkFactory.create({
+      modules: [ConfigModule.forRoot({ name: "top-level" })],
+      controllers: [SettingsController],
+    });
+    const res = await app.handle(new Request("http://localhost/dyn-top/"));
+    expect(await res.json()).toEqual({ name: "top-level" });
+  });
+
+  it("resolves forRootAsync() options from a factory with injected dependencies", async () => {
+    @Injectable()
+    class SecretsService {
+      async load() {
+        return "from-secrets";
+      }
+    }
+
+    @Module({ providers: [SecretsService], exports: [SecretsService] })
+    class SecretsModule {}
+
+    const SettingsController = makeController("/dyn-async");
+
+    @Module({
+      imports: [
+        ConfigModule.forRootAsync({
+          imports: [SecretsModule],
+          useFactory: async (secrets: SecretsService) => ({ name: await secrets.load() }),
+          inject: [SecretsService],
+        }),
+      ],
+      controllers: [SettingsController],
+    })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    const res = await app.handle(new Request("http://localhost/dyn-async/"));
+    expect(await res.json()).toEqual({ name: "from-secrets" });
+  });
+
+  it("rejects a forRootAsync() factory injecting a token its imports do not export", async () => {
+    @Module({ providers: [{ provide: "HIDDEN", useValue: 1 }] })
+    class HiddenModule {}
+
+    @Module({
+      imports: [
+        ConfigModule.forRootAsync({
+          imports: [HiddenModule],
+          useFactory: (hidden: number) => ({ hidden }),
+          inject: ["HIDDEN"],
+        }),
+      ],
+    })
+    class AppModule {}
+
+    const app = WynkFactory.create({ modules: [AppModule] });
+    await expect(app.build()).rejects.toThrow(/HIDDEN is provided by HiddenModule/);
+  });
+
+  it("keeps each forFeature() call as its own module", () => {
+    @Module({})
+    class RepositoryModule {
+      static forFeature(entities: string[]): DynamicModule {
+        const providers = entities.map((name) => ({
+          provide: `${name}Repository`,
+          useValue: { entity: name },
+        }));
+        return {
+          module: RepositoryModule,
+          providers,
+          exports: providers.map((p) => p.provide),
+        };
+      }
+    }
+
+    @Module({ imports: [RepositoryModule.forFeature(["User"])] })
+    class UsersModule {}
+
+    @Module({ imports: [RepositoryModule.forFeature(["Order"])] })
+    class OrdersModule {}
+
+    const graph = ModuleGraph.scan([UsersModule, OrdersModule]);
+    const users = graph.getVisibleTokens(graph.getModule(UsersModule));
+    const orders = graph.getVisibleTokens(graph.getModule(OrdersModule));
+    expect(users.has("UserRepository")).toBe(true);
+    expect(users.has("OrderRepository")).toBe(false);
+    expect(orders.has("OrderRepository")).toBe(true);
+  });
+
+  it("treats `global: true` like @Global()", () => {
+    @Module({})
+    class CacheModule {
+      static forRoot(): DynamicModule {
+        return {
+          module: CacheModule,
+          global: true,
+          providers: [{ provide: "CACHE", useValue: new Map() }],
+          exports: ["CACHE"],
+        };
+      }
+    }
+
+    @Module({})
+    class FeatureModule {}
+
+    const graph = ModuleGraph.scan([CacheModule.forRoot(), FeatureModule]);
+    expect(graph.getVisibleTokens(graph.getModule(FeatureModule)).has("CACHE")).toBe(true);
+  });
+
+  it("re-exports an imported dynamic module by its class", () => {
+    @Module({
+      imports: [ConfigModule.forRoot({ name: "shared" })],
+      exports: [ConfigModule],
+    })
+    class SharedModule {}
+
+    @Module({ imports: [SharedModule] })
+    class ConsumerModule {}
+
+    const graph = ModuleGraph.scan([ConsumerModule]);
+    expect(graph.getVisibleTokens(graph.getModule(ConsumerModule)).has(ConfigService)).toBe(true);
+  });
+});
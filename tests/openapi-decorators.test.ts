@@ -0,0 +1,188 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  UseGuards,
+  DTO,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+  ApiBearerAuth,
+  ApiSecurity,
+  ApiExcludeEndpoint,
+  applyDecorators,
+  getApiMetadata,
+} from "../core";
+
+const UserDTO = DTO.Object({ id: DTO.String(), email: DTO.String() });
+const ErrorDTO = DTO.Object({ statusCode: DTO.Number(), message: DTO.String() });
+const LegacyUserDTO = DTO.Object({ userId: DTO.Number() });
+
+class JwtGuard {
+  canActivate() {
+    return true;
+  }
+}
+
+// A composed decorator, as an application would define it
+const Authenticated = () =>
+  applyDecorators(
+    UseGuards(JwtGuard),
+    ApiBearerAuth(),
+    ApiResponse({ status: 401, description: "Missing or invalid token" })
+  );
+
+@ApiTags("Users")
+@ApiResponse({ status: 500, schema: ErrorDTO })
+@Controller("/docs-users")
+class DocumentedController {
+  @Get("/:id")
+  @ApiOperation({
+    summary: "Find a user",
+    description: "Looks up a user by ID.",
+    operationId: "findUser",
+  })
+  @ApiResponse({
+    status: 200,
+    schema: UserDTO,
+    example: { id: "1", email: "ada@example.com" },
+  })
+  @ApiResponse({ status: 200, schema: LegacyUserDTO })
+  @ApiResponse({ status: 404, description: "User not found", schema: ErrorDTO })
+  findOne(@Param("id") id: string) {
+    return { id, email: "ada@example.com" };
+  }
+
+  @Post("/")
+  @Authenticated()
+  @ApiTags("Admin")
+  @ApiOperation({ summary: "Create a user", deprecated: true })
+  create() {
+    return { id: "2" };
+  }
+
+  @Get("/internal/metrics")
+  @ApiExcludeEndpoint()
+  metrics() {
+    return { ok: true };
+  }
+}
+
+@Controller("/docs-reports")
+@ApiSecurity("apiKey")
+class ReportController {
+  @Get("/")
+  @UseGuards(JwtGuard)
+  list() {
+    return [];
+  }
+}
+
+async function createDocument() {
+  return WynkFactory.create({
+    controllers: [DocumentedController, ReportController],
+    openapi: {
+      securitySchemes: {
+        apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+      },
+    },
+  }).getOpenApiDocument();
+}
+
+describe("OpenAPI decorators", () => {
+  it("merges controller and method metadata", () => {
+    const api = getApiMetadata(DocumentedController, "create");
+
+    expect(api.tags).toEqual(["Users", "Admin"]);
+    expect(api.security).toEqual([{ bearer: [] }]);
+    expect(api.responses.map((r) => r.status)).toEqual([500, 401]);
+    expect(api.operation).toEqual({ summary: "Create a user", deprecated: true });
+    expect(api.excluded).toBe(false);
+  });
+
+  it("adds summary, description, operation ID and tags", async () => {
+    const document = await createDocument();
+    const findOne = document.paths["/docs-users/{id}"].get;
+
+    expect(findOne.summary).toBe("Find a user");
+    expect(findOne.description).toBe("Looks up a user by ID.");
+    expect(findOne.operationId).toBe("findUser");
+    expect(findOne.tags).toEqual(["Users"]);
+    expect(document.paths["/docs-users"].post.deprecated).toBe(true);
+    expect(document.tags.map((t) => t.name)).toEqual(["Users", "Admin", "Report"]);
+  });
+
+  it("documents several responses, examples and oneOf schemas", async () => {
+    const document = await createDocument();
+    const responses = document.paths["/docs-users/{id}"].get.responses;
+
+    expect(Object.keys(responses).sort()).toEqual(["200", "404", "500"]);
+    const ok = responses["200"].content["application/json"];
+    expect(ok.schema.oneOf).toHaveLength(2);
+    expect(ok.schema.oneOf.map((schema) => schema.required).sort()).toEqual([
+      ["id", "email"],
+      ["userId"],
+    ]);
+    expect(ok.example).toEqual({ id: "1", email: "ada@example.com" });
+    expect(responses["404"].description).toBe("User not found");
+    expect(responses["500"].description).toBe("Internal Server Error");
+  });
+
+  it("documents bearer auth declared through applyDecorators", async () => {
+    const document = await createDocument();
+    const create = document.paths["/docs-users"].post;
+
+    expect(create.security).toEqual([{ bearer: [] }]);
+    expect(create.responses["401"].description).toBe("Missing or invalid token");
+    expect(create.responses["403"].description).toBe("Forbidden");
+    // Added because the configured schemes do not define it
+    expect(document.components.securitySchemes.bearer).toEqual({
+      type: "http",
+      scheme: "bearer",
+      bearerFormat: "JWT",
+    });
+  });
+
+  it("lets explicit security replace guard-derived requirements", async () => {
+    const document = await createDocument();
+
+    expect(document.paths["/docs-reports"].get.security).toEqual([
+      { apiKey: [] },
+    ]);
+  });
+
+  it("excludes endpoints from the document but keeps them routable", async () => {
+    const app = WynkFactory.create({ controllers: [DocumentedController] });
+    const document = await app.getOpenApiDocument();
+
+    expect(document.paths["/docs-users/internal/metrics"]).toBeUndefined();
+    const response = await app.handle(
+      new Request("http://localhost/docs-users/internal/metrics")
+    );
+    expect(await response.json()).toEqual({ ok: true });
+  });
+
+  it("passes the metadata to Elysia as route detail", async () => {
+    const app = WynkFactory.create({ controllers: [DocumentedController] });
+    await app.build();
+
+    const routes = app.getApp().routes;
+    const detailOf = (path, method) =>
+      routes.find((r) => r.path === path && r.method === method).hooks.detail;
+
+    const findOne = detailOf("/docs-users/:id", "GET");
+    expect(findOne).toMatchObject({
+      tags: ["Users"],
+      summary: "Find a user",
+      operationId: "findUser",
+    });
+    expect(Object.keys(findOne.responses).sort()).toEqual(["200", "404", "500"]);
+    expect(detailOf("/docs-users/internal/metrics", "GET").hide).toBe(true);
+    expect(detailOf("/docs-users/", "POST").security).toEqual([{ bearer: [] }]);
+  });
+});
@@ -0,0 +1,246 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  Delete,
+  Query,
+  HttpCode,
+  UseGuards,
+  DTO,
+  toOpenApiPath,
+} from "../core";
+
+const UserDTO = DTO.Object(
+  {
+    id: DTO.String(),
+    email: DTO.String({ format: "email" }),
+  },
+  { $id: "User" }
+);
+
+const CreateUserDTO = DTO.Object({
+  email: DTO.String({ format: "email" }),
+  name: DTO.Optional(DTO.String()),
+});
+
+class AuthGuard {
+  canActivate() {
+    return true;
+  }
+}
+
+class RolesGuard {
+  canActivate() {
+    return true;
+  }
+}
+
+@Controller("/users")
+class UserController {
+  @Get({
+    path: "/:id",
+    params: DTO.Object({ id: DTO.String({ format: "uuid" }) }),
+    response: UserDTO,
+  })
+  findOne() {
+    return {};
+  }
+
+  @Get({
+    path: "/",
+    query: DTO.Object({
+      page: DTO.Number(),
+      search: DTO.Optional(DTO.String()),
+    }),
+  })
+  findAll(@Query("sort") _sort: string) {
+    return [];
+  }
+
+  @Post({ path: "/", body: CreateUserDTO, response: UserDTO })
+  @HttpCode(201)
+  @UseGuards(AuthGuard)
+  create() {
+    return {};
+  }
+
+  @Delete("/:id")
+  @UseGuards(AuthGuard, RolesGuard)
+  remove() {
+    return;
+  }
+}
+
+function createApp(options = {}) {
+  return WynkFactory.create({
+    controllers: [UserController],
+    globalPrefix: "/api",
+    ...options,
+  });
+}
+
+describe("OpenAPI document", () => {
+  it("converts route paths to OpenAPI templates", () => {
+    expect(toOpenApiPath("/api/users/:id/posts/:postId?")).toEqual({
+      path: "/api/users/{id}/posts/{postId}",
+      params: ["id", "postId"],
+    });
+    expect(toOpenApiPath("/users/").path).toBe("/users");
+    expect(toOpenApiPath("").path).toBe("/");
+  });
+
+  it("documents every route under the global prefix", async () => {
+    const document = await createApp({
+      openapi: { title: "Users API", version: "2.0.0" },
+    }).getOpenApiDocument();
+
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.info).toEqual({ title: "Users API", version: "2.0.0" });
+    expect(Object.keys(document.paths).sort()).toEqual([
+      "/api/users",
+      "/api/users/{id}",
+    ]);
+    expect(Object.keys(document.paths["/api/users/{id}"]).sort()).toEqual([
+      "delete",
+      "get",
+    ]);
+    expect(document.tags).toEqual([{ name: "User" }]);
+  });
+
+  it("reflects path, query and body schemas", async () => {
+    const document = await createApp().getOpenApiDocument();
+
+    const findOne = document.paths["/api/users/{id}"].get;
+    expect(findOne.operationId).toBe("UserController_findOne");
+    expect(findOne.parameters).toEqual([
+      {
+        name: "id",
+        in: "path",
+        required: true,
+        schema: { type: "string", format: "uuid" },
+      },
+    ]);
+
+    const findAll = document.paths["/api/users"].get;
+    expect(findAll.parameters.map((p) => [p.name, p.in, p.required])).toEqual([
+      ["page", "query", true],
+      ["search", "query", false],
+      ["sort", "query", false],
+    ]);
+
+    const create = document.paths["/api/users"].post;
+    expect(create.requestBody.content["application/json"].schema).toMatchObject({
+      type: "object",
+      required: ["email"],
+      properties: { email: { type: "string", format: "email" } },
+    });
+  });
+
+  it("uses @HttpCode for the success response and hoists $id schemas", async () => {
+    const document = await createApp().getOpenApiDocument();
+
+    const create = document.paths["/api/users"].post;
+    expect(Object.keys(create.responses).sort()).toEqual(["201", "400", "401", "403"]);
+    expect(create.responses["201"]).toEqual({
+      description: "Created",
+      content: {
+        "application/json": { schema: { $ref: "#/components/schemas/User" } },
+      },
+    });
+    expect(document.components.schemas.User).toMatchObject({
+      type: "object",
+      required: ["id", "email"],
+    });
+
+    const findOne = document.paths["/api/users/{id}"].get;
+    expect(findOne.responses["200"].description).toBe("OK");
+  });
+
+  it("documents response status maps", async () => {
+    @Controller("/status-map")
+    class StatusMapController {
+      @Get({
+        path: "/",
+        response: {
+          200: DTO.Object({ ok: DTO.Boolean() }),
+          404: DTO.Object({ message: DTO.String() }),
+        },
+      })
+      index() {
+        return { ok: true };
+      }
+    }
+
+    const document = await WynkFactory.create({
+      controllers: [StatusMapController],
+    }).getOpenApiDocument();
+
+    const responses = document.paths["/status-map"].get.responses;
+    expect(Object.keys(responses).sort()).toEqual(["200", "404"]);
+    expect(responses["404"].description).toBe("Not Found");
+  });
+
+  it("turns guards into security requirements", async () => {
+    const document = await createApp({
+      openapi: {
+        securitySchemes: {
+          bearer: { type: "http", scheme: "bearer" },
+          apiKey: { type: "apiKey", in: "header", name: "X-Api-Key" },
+        },
+        guardSchemes: { RolesGuard: false },
+      },
+    }).getOpenApiDocument();
+
+    expect(document.paths["/api/users"].post.security).toEqual([{ bearer: [] }]);
+    expect(document.paths["/api/users/{id}"].delete.security).toEqual([
+      { bearer: [] },
+    ]);
+    expect(document.paths["/api/users/{id}"].get.security).toBeUndefined();
+    expect(Object.keys(document.components.securitySchemes)).toEqual([
+      "bearer",
+      "apiKey",
+    ]);
+  });
+
+  it("includes global guards", async () => {
+    const app = createApp();
+    app.useGlobalGuards(AuthGuard);
+    const document = await app.getOpenApiDocument();
+
+    expect(document.paths["/api/users/{id}"].get.security).toEqual([
+      { bearer: [] },
+    ]);
+  });
+
+  it("serves the document at /openapi.json when enabled", async () => {
+    const app = createApp({ openapi: true });
+
+    const response = await app.handle(new Request("http://localhost/openapi.json"));
+    expect(response.status).toBe(200);
+    const document = await response.json();
+    expect(document.paths["/api/users"]).toBeDefined();
+    // The document route itself is not documented
+    expect(Object.keys(document.paths)).toHaveLength(2);
+  });
+
+  it("serves at a custom path, or not at all", async () => {
+    const custom = createApp({ openapi: { path: "/docs/spec.json" } });
+    expect(
+      (await custom.handle(new Request("http://localhost/docs/spec.json"))).status
+    ).toBe(200);
+
+    const hidden = createApp({ openapi: { path: false } });
+    expect(
+      (await hidden.handle(new Request("http://localhost/openapi.json"))).status
+    ).toBe(404);
+
+    const disabled = createApp();
+    expect(
+      (await disabled.handle(new Request("http://localhost/openapi.json"))).status
+    ).toBe(404);
+  });
+});
@@ -215,7 +215,7 @@ describe("Provider token patterns - useValue", () => {
     });
     await app.build();
 
-    const resolved = container.resolve("MY_VALUE" as any);
+    const resolved = app.get("MY_VALUE" as any);
     expect(resolved).toBe(42);
   });
 
@@ -227,7 +227,7 @@ describe("Provider token patterns - useValue", () => {
     });
     await app.build();
 
-    const resolved = container.resolve("CONFIG" as any);
+    const resolved = app.get("CONFIG" as any);
     expect(resolved).toEqual(config);
   });
 });
@@ -249,7 +249,7 @@ describe("Provider token patterns - useFactory", () => {
     });
     await app.build();
 
-    const resolved = container.resolve("COMPUTED" as any);
+    const resolved = app.get("COMPUTED" as any);
     expect(resolved).toBe("factory-result");
   });
 
@@ -267,7 +267,7 @@ describe("Provider token patterns - useFactory", () => {
     });
     await app.build();
 
-    const resolved = container.resolve("DOUBLED" as any);
+    const resolved = app.get("DOUBLED" as any);
     expect(resolved).toBe(20);
   });
 
@@ -285,7 +285,7 @@ describe("Provider token patterns - useFactory", () => {
     });
     await app.build();
 
-    const resolved = container.resolve("ASYNC_VALUE" as any);
+    const resolved = app.get("ASYNC_VALUE" as any);
     expect(resolved).toBe("async-result");
   });
 });
@@ -306,8 +306,8 @@ describe("Provider token patterns - useExisting", () => {
     });
     await app.build();
 
-    const resolvedSource = container.resolve("DB_CONFIG" as any);
-    const resolvedAlias = container.resolve("DATABASE_CONFIG" as any);
+    const resolvedSource = app.get("DB_CONFIG" as any);
+    const resolvedAlias = app.get("DATABASE_CONFIG" as any);
     expect(resolvedAlias).toBe(resolvedSource);
   });
 });
@@ -331,7 +331,7 @@ describe("Provider token patterns - useClass", () => {
     });
     await app.build();
 
-    const resolved: any = container.resolve("MY_SERVICE" as any);
+    const resolved: any = app.get("MY_SERVICE" as any);
     expect(resolved.getValue()).toBe("from-class");
   });
 });
@@ -353,10 +353,10 @@ describe("Provider token patterns - mixed", () => {
     });
     await app.build();
 
-    const label = container.resolve("LABEL" as any);
+    const label = app.get("LABEL" as any);
     expect(label).toBe("mixed-test");
 
-    const plain = container.resolve(PlainService);
+    const plain = app.get(PlainService);
     expect(plain.name).toBe("plain");
   });
 });
@@ -0,0 +1,217 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import { Module } from "../core/module";
+import {
+  Controller,
+  Get,
+  Injectable,
+  Inject,
+  Scope,
+  REQUEST,
+} from "../core";
+
+describe("Request-scoped providers", () => {
+  it("creates one instance per request and shares it within the request", async () => {
+    let created = 0;
+
+    @Injectable({ scope: Scope.REQUEST })
+    class RequestContext {
+      readonly id = ++created;
+    }
+
+    @Injectable()
+    class AuditService {
+      constructor(public context: RequestContext) {}
+    }
+
+    @Injectable()
+    @Controller("/scope-request")
+    class ContextController {
+      constructor(private context: RequestContext, private audit: AuditService) {}
+
+      @Get("/")
+      index() {
+        return {
+          id: this.context.id,
+          shared: this.audit.context === this.context,
+        };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [ContextController],
+      providers: [RequestContext, AuditService],
+    });
+
+    const first = await (await app.handle(new Request("http://localhost/scope-request/"))).json();
+    const second = await (await app.handle(new Request("http://localhost/scope-request/"))).json();
+    expect(first).toEqual({ id: 1, shared: true });
+    expect(second).toEqual({ id: 2, shared: true });
+  });
+
+  it("injects the current request through the REQUEST token", async () => {
+    @Injectable({ scope: "request" })
+    class TenantService {
+      constructor(@Inject(REQUEST) private request: any) {}
+
+      get tenant() {
+        return this.request.headers.get("x-tenant");
+      }
+    }
+
+    @Injectable()
+    @Controller("/scope-tenant")
+    class TenantController {
+      constructor(private tenants: TenantService) {}
+
+      @Get("/")
+      index() {
+        return { tenant: this.tenants.tenant };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [TenantController],
+      providers: [TenantService],
+    });
+
+    const acme = await app.handle(
+      new Request("http://localhost/scope-tenant/", { headers: { "x-tenant": "acme" } })
+    );
+    const globex = await app.handle(
+      new Request("http://localhost/scope-tenant/", { headers: { "x-tenant": "globex" } })
+    );
+    expect(await acme.json()).toEqual({ tenant: "acme" });
+    expect(await globex.json()).toEqual({ tenant: "globex" });
+  });
+
+  it("bubbles request scope through providers declared in other modules", async () => {
+    @Injectable()
+    class RequestIdRepository {
+      constructor(@Inject(REQUEST) private request: any) {}
+
+      get id() {
+        return this.request.headers.get("x-id");
+      }
+    }
+
+    @Module({ providers: [RequestIdRepository], exports: [RequestIdRepository] })
+    class DataModule {}
+
+    @Injectable()
+    @Controller("/scope-bubble")
+    class BubbleController {
+      constructor(private repo: RequestIdRepository) {}
+
+      @Get("/")
+      index() {
+        return { id: this.repo.id };
+      }
+    }
+
+    @Module({ imports: [DataModule], controllers: [BubbleController] })
+    class ApiModule {}
+
+    const app = WynkFactory.create({ modules: [ApiModule] });
+    const a = await app.handle(
+      new Request("http://localhost/scope-bubble/", { headers: { "x-id": "a" } })
+    );
+    const b = await app.handle(
+      new Request("http://localhost/scope-bubble/", { headers: { "x-id": "b" } })
+    );
+    expect(await a.json()).toEqual({ id: "a" });
+    expect(await b.json()).toEqual({ id: "b" });
+  });
+
+  it("supports request-scoped factory providers", async () => {
+    let calls = 0;
+
+    @Injectable()
+    @Controller("/scope-factory")
+    class FactoryController {
+      constructor(@Inject("STARTED_AT") private startedAt: number) {}
+
+      @Get("/")
+      index() {
+        return { call: this.startedAt };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [FactoryController],
+      providers: [{ provide: "STARTED_AT", useFactory: () => ++calls, scope: Scope.REQUEST }],
+    });
+
+    await app.handle(new Request("http://localhost/scope-factory/"));
+    const res = await app.handle(new Request("http://localhost/scope-factory/"));
+    expect(await res.json()).toEqual({ call: 2 });
+  });
+
+  it("throws when a request-scoped provider is resolved outside a request", async () => {
+    @Injectable({ scope: Scope.REQUEST })
+    class PerRequest {}
+
+    const app = WynkFactory.create({ providers: [PerRequest] });
+    await app.build();
+
+    expect(() => app.get(PerRequest)).toThrow(
+      /PerRequest is request-scoped and can only be resolved while a request is being handled/
+    );
+  });
+
+  it("does not call startup lifecycle hooks on request-scoped providers", async () => {
+    let initialized = false;
+
+    @Injectable({ scope: Scope.REQUEST })
+    class LazyService {
+      onModuleInit() {
+        initialized = true;
+      }
+    }
+
+    const app = WynkFactory.create({ providers: [LazyService] });
+    await app.build();
+    expect(initialized).toBe(false);
+  });
+});
+
+describe("Transient providers", () => {
+  it("creates a new instance for every consumer", async () => {
+    @Injectable({ scope: Scope.TRANSIENT })
+    class ScopedLogger {}
+
+    @Injectable()
+    class UsersService {
+      constructor(public logger: ScopedLogger) {}
+    }
+
+    @Injectable()
+    class OrdersService {
+      constructor(public logger: ScopedLogger) {}
+    }
+
+    const app = WynkFactory.create({
+      providers: [ScopedLogger, UsersService, OrdersService],
+    });
+    await app.build();
+
+    const users = app.get(UsersService);
+    const orders = app.get(OrdersService);
+    expect(users.logger).toBeInstanceOf(ScopedLogger);
+    expect(users.logger).not.toBe(orders.logger);
+    expect(app.get(UsersService)).toBe(users);
+  });
+
+  it("honors scope on useClass provider definitions", async () => {
+    class Counter {}
+
+    const app = WynkFactory.create({
+      providers: [{ provide: "COUNTER", useClass: Counter, scope: Scope.TRANSIENT }],
+    });
+    await app.build();
+
+    expect(app.get("COUNTER")).not.toBe(app.get("COUNTER"));
+  });
+});
@@ -0,0 +1,210 @@
+// @ts-nocheck
+import { describe, it, expect, afterEach } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Req,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from "../core";
+
+function memoryTransport() {
+  const entries: any[] = [];
+  return {
+    entries,
+    write(entry) {
+      entries.push(entry);
+    },
+  };
+}
+
+// Access log lines are written once the response body size is known
+async function accessLogs(transport, count = 1) {
+  for (let i = 0; i < 50; i++) {
+    const lines = transport.entries.filter((e) => e.context === "HTTP");
+    if (lines.length >= count) return lines;
+    await Bun.sleep(5);
+  }
+  return transport.entries.filter((e) => e.context === "HTTP");
+}
+
+afterEach(() => {
+  Logger.configure();
+});
+
+@Injectable()
+class AuditService {
+  private logger = new Logger("AuditService");
+
+  record(action: string) {
+    this.logger.log(`Audit ${action}`);
+  }
+}
+
+@Injectable()
+@Controller("/access")
+class AccessController {
+  constructor(private audit: AuditService) {}
+
+  @Get("/users/:id")
+  findOne(@Param("id") id: string, @Req() req: any) {
+    this.audit.record("findOne");
+    return { id, requestId: req.id };
+  }
+
+  @Get("/missing/:id")
+  missing() {
+    throw new NotFoundException("User not found");
+  }
+
+  @Post("/text")
+  text() {
+    return "héllo";
+  }
+}
+
+function createApp(transport) {
+  return WynkFactory.create({
+    controllers: [AccessController],
+    providers: [AuditService],
+    logger: { requests: true, transports: [transport] },
+  });
+}
+
+describe("Request logging", () => {
+  it("logs method, route template, status, duration, bytes and request ID", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    const response = await app.handle(
+      new Request("http://localhost/access/users/42")
+    );
+    const body = await response.text();
+    const [line] = await accessLogs(transport);
+
+    expect(line.level).toBe("log");
+    expect(line.message).toMatch(/^GET \/access\/users\/:id 200 [\d.]+ms$/);
+    expect(line.fields).toMatchObject({
+      method: "GET",
+      route: "/access/users/:id",
+      status: 200,
+      bytes: Buffer.byteLength(body),
+    });
+    expect(typeof line.fields.duration).toBe("number");
+    expect(line.fields.requestId).toBe(response.headers.get("x-request-id"));
+  });
+
+  it("reuses an incoming X-Request-Id and exposes it as Request.id", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    const response = await app.handle(
+      new Request("http://localhost/access/users/1", {
+        headers: { "X-Request-Id": "abc-123" },
+      })
+    );
+
+    expect(response.headers.get("x-request-id")).toBe("abc-123");
+    expect(await response.json()).toEqual({ id: "1", requestId: "abc-123" });
+  });
+
+  it("generates a request ID when the incoming one is missing or unsafe", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    const generated = await app.handle(
+      new Request("http://localhost/access/users/1")
+    );
+    const unsafe = await app.handle(
+      new Request("http://localhost/access/users/1", {
+        headers: { "X-Request-Id": "bad id <script>forged</script>" },
+      })
+    );
+
+    expect(generated.headers.get("x-request-id")).toMatch(/^[0-9a-f-]{36}$/);
+    expect(unsafe.headers.get("x-request-id")).not.toContain("forged");
+    expect(generated.headers.get("x-request-id")).not.toBe(
+      unsafe.headers.get("x-request-id")
+    );
+  });
+
+  it("adds the request ID to entries logged while handling the request", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    await app.handle(
+      new Request("http://localhost/access/users/7", {
+        headers: { "X-Request-Id": "req-7" },
+      })
+    );
+
+    const audit = transport.entries.find((e) => e.context === "AuditService");
+    expect(audit.fields.requestId).toBe("req-7");
+
+    // Outside of a request the field is gone again
+    Logger.configure({ transports: [transport] });
+    new Logger("Outside").log("after");
+    const outside = transport.entries.find((e) => e.context === "Outside");
+    expect(outside.fields.requestId).toBeUndefined();
+  });
+
+  it("logs error responses and unmatched routes as warnings", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    const missing = await app.handle(
+      new Request("http://localhost/access/missing/9")
+    );
+    const errorBody = await missing.text();
+    await app.handle(new Request("http://localhost/nowhere"));
+    const lines = await accessLogs(transport, 2);
+
+    expect(lines[0].level).toBe("warn");
+    expect(lines[0].fields).toMatchObject({
+      route: "/access/missing/:id",
+      status: 404,
+      bytes: Buffer.byteLength(errorBody),
+    });
+    expect(lines[1].fields.status).toBe(404);
+    expect(lines[1].fields.route).toBeUndefined();
+    expect(lines[1].message).toContain("<unmatched>");
+  });
+
+  it("counts bytes of non-ASCII text bodies", async () => {
+    const transport = memoryTransport();
+    const app = createApp(transport);
+
+    await app.handle(
+      new Request("http://localhost/access/text", { method: "POST" })
+    );
+    const [line] = await accessLogs(transport);
+
+    expect(line.fields.bytes).toBe(Buffer.byteLength("héllo"));
+  });
+
+  it("does not log requests or echo IDs unless enabled", async () => {
+    const transport = memoryTransport();
+    const app = WynkFactory.create({
+      controllers: [AccessController],
+      providers: [AuditService],
+      logger: { transports: [transport] },
+    });
+
+    const response = await app.handle(
+      new Request("http://localhost/access/users/3", {
+        headers: { "X-Request-Id": "kept-on-request" },
+      })
+    );
+
+    expect(response.headers.get("x-request-id")).toBeNull();
+    // Request.id still reads the incoming header
+    expect((await response.json()).requestId).toBe("kept-on-request");
+    await Bun.sleep(10);
+    expect(transport.entries.filter((e) => e.context === "HTTP")).toEqual([]);
+  });
+});
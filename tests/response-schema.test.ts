@@ -0,0 +1,208 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Post,
+  HttpCode,
+  Param,
+  DTO,
+  NotFoundException,
+  StreamableFile,
+} from "../core";
+
+const UserDTO = DTO.Object({
+  id: DTO.Number(),
+  email: DTO.String(),
+  profile: DTO.Object({ name: DTO.String() }),
+});
+
+const ErrorDTO = DTO.Object({ statusCode: DTO.Number(), message: DTO.String() });
+
+class UserEntity {
+  profile = { name: "Ada", internalNotes: "vip" };
+
+  constructor(
+    public id: number,
+    public email: string,
+    public passwordHash: string
+  ) {}
+}
+
+@Controller("/users")
+class UserController {
+  @Get({ path: "/", response: DTO.Array(UserDTO) })
+  list() {
+    return [
+      { id: 1, email: "ada@example.com", passwordHash: "x", profile: { name: "Ada", role: "admin" } },
+    ];
+  }
+
+  @Get({ path: "/valid", response: UserDTO })
+  valid() {
+    return { id: 1, email: "ada@example.com", profile: { name: "Ada" } };
+  }
+
+  @Get({ path: "/wrong-type", response: UserDTO })
+  wrongType() {
+    return { id: "1", email: "ada@example.com", profile: { name: "Ada" } };
+  }
+
+  @Get({ path: "/:id", response: { 200: UserDTO, 404: ErrorDTO } })
+  findOne(@Param("id") id: string) {
+    if (id === "404") throw new NotFoundException("User not found");
+    return { id: 1, email: "ada@example.com", passwordHash: "x", profile: { name: "Ada" } };
+  }
+
+  @Post({ path: "/", response: { 201: DTO.Object({ id: DTO.Number() }) } })
+  @HttpCode(201)
+  create() {
+    return { id: 2, token: "secret" };
+  }
+
+  @Get({ path: "/export/file", response: UserDTO })
+  exportFile() {
+    return new StreamableFile(new TextEncoder().encode("id,email"), { type: "text/csv" });
+  }
+}
+
+function get(app, path, method = "GET") {
+  return app.handle(new Request(`http://localhost${path}`, { method }));
+}
+
+describe("Response schemas", () => {
+  it("strips undeclared properties in strip mode, recursively", async () => {
+    const app = WynkFactory.create({
+      controllers: [UserController],
+      responseValidation: "strip",
+    });
+
+    expect(await (await get(app, "/users")).json()).toEqual([
+      { id: 1, email: "ada@example.com", profile: { name: "Ada" } },
+    ]);
+    expect(await (await get(app, "/users/1")).json()).toEqual({
+      id: 1,
+      email: "ada@example.com",
+      profile: { name: "Ada" },
+    });
+  });
+
+  it("picks the schema of the response status from a status map", async () => {
+    const app = WynkFactory.create({
+      controllers: [UserController],
+      responseValidation: "strip",
+    });
+
+    const created = await get(app, "/users", "POST");
+    expect(created.status).toBe(201);
+    expect(await created.json()).toEqual({ id: 2 });
+
+    const missing = await get(app, "/users/404");
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ statusCode: 404, message: "User not found" });
+  });
+
+  it("fails with a 500 in validate mode, logging the mismatches", async () => {
+    const entries = [];
+    const app = WynkFactory.create({
+      controllers: [UserController],
+      responseValidation: "validate",
+      logger: { transports: [{ write: (entry) => entries.push(entry) }] },
+    });
+
+    expect((await get(app, "/users/valid")).status).toBe(200);
+
+    const leaking = await get(app, "/users/1");
+    expect(leaking.status).toBe(500);
+    const body = await leaking.text();
+    expect(JSON.parse(body)).toMatchObject({ statusCode: 500, message: "Internal Server Error" });
+    expect(body).not.toContain("passwordHash");
+    await get(app, "/users/wrong-type");
+
+    const logged = entries.filter((entry) => entry.context === "ResponseValidation");
+    expect(logged.map((entry) => entry.message)).toEqual([
+      "Response of UserController.findOne (GET /users/:id) does not match its schema",
+      "Response of UserController.wrongType (GET /users/wrong-type) does not match its schema",
+    ]);
+    expect(logged[0].fields.problems).toContain(
+      "/passwordHash: property is not declared in the schema"
+    );
+    expect(logged[1].fields.problems.join()).toContain("/id: Expected number");
+  });
+
+  it("strips in production and validates otherwise by default", async () => {
+    const env = process.env.NODE_ENV;
+    try {
+      process.env.NODE_ENV = "production";
+      const production = WynkFactory.create({ controllers: [UserController] });
+      const res = await get(production, "/users/1");
+      expect(res.status).toBe(200);
+      expect(await res.json()).not.toHaveProperty("passwordHash");
+
+      process.env.NODE_ENV = "development";
+      const development = WynkFactory.create({ controllers: [UserController] });
+      expect((await get(development, "/users/1")).status).toBe(500);
+    } finally {
+      process.env.NODE_ENV = env;
+    }
+  });
+
+  it("sends results as is when disabled", async () => {
+    @Controller("/events")
+    class EventController {
+      @Get({ path: "/", response: DTO.Object({ at: DTO.String() }) })
+      find() {
+        return { at: new Date(0), source: "cron" };
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [UserController, EventController],
+      responseValidation: false,
+    });
+
+    expect((await (await get(app, "/users/1")).json()).passwordHash).toBe("x");
+    expect(await (await get(app, "/events")).json()).toEqual({
+      at: "1970-01-01T00:00:00.000Z",
+      source: "cron",
+    });
+  });
+
+  it("serializes class instances through their schema", async () => {
+    @Controller("/entities")
+    class EntityController {
+      @Get({ path: "/", response: UserDTO })
+      find() {
+        return new UserEntity(1, "ada@example.com", "hash");
+      }
+    }
+
+    const app = WynkFactory.create({
+      controllers: [EntityController],
+      responseValidation: "strip",
+    });
+
+    expect(await (await get(app, "/entities")).json()).toEqual({
+      id: 1,
+      email: "ada@example.com",
+      profile: { name: "Ada" },
+    });
+  });
+
+  it("sends streamed files as is and can be disabled", async () => {
+    const app = WynkFactory.create({
+      controllers: [UserController],
+      responseValidation: "validate",
+    });
+    const file = await get(app, "/users/export/file");
+    expect(await file.text()).toBe("id,email");
+
+    const disabled = WynkFactory.create({
+      controllers: [UserController],
+      responseValidation: false,
+    });
+    expect((await (await get(disabled, "/users/1")).json()).passwordHash).toBe("x");
+  });
+});
@@ -0,0 +1,158 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  UseInterceptors,
+  ClassSerializerInterceptor,
+  SerializeOptions,
+  Exclude,
+  Expose,
+  Transform,
+  StreamableFile,
+  instanceToPlain,
+} from "../core";
+
+class Role {
+  name: string;
+
+  @Exclude()
+  internalId = 7;
+
+  constructor(name) {
+    this.name = name;
+  }
+}
+
+class User {
+  id = 1;
+  firstName = "Ada";
+  lastName = "Lovelace";
+
+  @Exclude()
+  passwordHash = "secret";
+
+  @Expose({ groups: ["admin"] })
+  email = "ada@example.com";
+
+  @Transform(({ value }) => value.toISOString().slice(0, 10))
+  createdAt = new Date("2024-03-01T10:00:00Z");
+
+  roles = [new Role("owner")];
+
+  @Expose({ name: "fullName" })
+  get name() {
+    return `${this.firstName} ${this.lastName}`;
+  }
+}
+
+@Exclude()
+class Summary {
+  @Expose()
+  id = 1;
+
+  secret = "hidden";
+}
+
+describe("instanceToPlain", () => {
+  it("applies @Exclude, @Expose and @Transform recursively", () => {
+    expect(instanceToPlain([new User()])).toEqual([
+      {
+        id: 1,
+        firstName: "Ada",
+        lastName: "Lovelace",
+        createdAt: "2024-03-01",
+        roles: [{ name: "owner" }],
+        fullName: "Ada Lovelace",
+      },
+    ]);
+  });
+
+  it("exposes group properties only to those groups", () => {
+    expect(instanceToPlain(new User(), { groups: ["admin"] }).email).toBe("ada@example.com");
+    expect(instanceToPlain(new User(), { groups: ["public"] })).not.toHaveProperty("email");
+  });
+
+  it("serializes only exposed properties of @Exclude() classes", () => {
+    expect(instanceToPlain({ data: new Summary(), total: 1 })).toEqual({
+      data: { id: 1 },
+      total: 1,
+    });
+  });
+
+  it("inherits the rules of parent classes", () => {
+    class Admin extends User {
+      @Exclude()
+      lastName = "Byron";
+    }
+
+    const plain = instanceToPlain(new Admin());
+
+    expect(plain).not.toHaveProperty("passwordHash");
+    expect(plain).not.toHaveProperty("lastName");
+    expect(instanceToPlain(new User()).lastName).toBe("Lovelace");
+  });
+});
+
+@Controller("/users")
+@UseInterceptors(ClassSerializerInterceptor)
+@SerializeOptions({ groups: ["public"] })
+class UserController {
+  @Get("/")
+  findAll() {
+    return [new User()];
+  }
+
+  @Get("/admin")
+  @SerializeOptions({ groups: ["admin"] })
+  findForAdmin() {
+    return new User();
+  }
+
+  @Get("/export")
+  export() {
+    return new StreamableFile(new TextEncoder().encode("id\n1\n"), { type: "text/csv" });
+  }
+}
+
+@Controller("/profiles")
+class ProfileController {
+  @Get("/")
+  findOne() {
+    return new User();
+  }
+}
+
+describe("ClassSerializerInterceptor", () => {
+  it("serializes with the groups of the controller or the route", async () => {
+    const app = WynkFactory.create({ controllers: [UserController] });
+
+    const users = await (await app.handle(new Request("http://localhost/users"))).json();
+    const admin = await (await app.handle(new Request("http://localhost/users/admin"))).json();
+
+    expect(users[0]).not.toHaveProperty("passwordHash");
+    expect(users[0]).not.toHaveProperty("email");
+    expect(admin.email).toBe("ada@example.com");
+    expect(admin.fullName).toBe("Ada Lovelace");
+  });
+
+  it("leaves files untouched", async () => {
+    const app = WynkFactory.create({ controllers: [UserController] });
+
+    const response = await app.handle(new Request("http://localhost/users/export"));
+
+    expect(await response.text()).toBe("id\n1\n");
+  });
+
+  it("applies its default groups as a global interceptor", async () => {
+    const app = WynkFactory.create({ controllers: [ProfileController] });
+    app.useGlobalInterceptors(new ClassSerializerInterceptor({ groups: ["admin"] }));
+
+    const body = await (await app.handle(new Request("http://localhost/profiles"))).json();
+
+    expect(body.email).toBe("ada@example.com");
+    expect(body).not.toHaveProperty("passwordHash");
+  });
+});
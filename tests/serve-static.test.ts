@@ -0,0 +1,218 @@
+// @ts-nocheck
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import "reflect-metadata";
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Module,
+  ServeStaticModule,
+  compression,
+} from "../core";
+
+const dir = mkdtempSync(join(tmpdir(), "wynk-static-"));
+const dist = join(dir, "dist");
+const appJs = "console.log('admin');".repeat(100);
+
+beforeAll(() => {
+  mkdirSync(join(dist, "assets"), { recursive: true });
+  mkdirSync(join(dist, "docs"), { recursive: true });
+  writeFileSync(join(dist, "index.html"), "<h1>admin</h1>");
+  writeFileSync(join(dist, "assets", "app.js"), appJs);
+  writeFileSync(join(dist, "assets", "app.js.br"), "brotli-bytes");
+  writeFileSync(join(dist, "assets", "app.js.gz"), "gzip-bytes");
+  writeFileSync(join(dist, "docs", "index.html"), "<h1>docs</h1>");
+  writeFileSync(join(dist, ".env"), "SECRET=1");
+  writeFileSync(join(dir, "secret.txt"), "outside the root");
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+@Controller("/users")
+class UsersController {
+  @Get("/")
+  list() {
+    return [{ id: 1 }];
+  }
+}
+
+function createApp(options = {}, appOptions = {}) {
+  @Module({
+    imports: [ServeStaticModule.forRoot({ rootPath: dist, ...options })],
+    controllers: [UsersController],
+  })
+  class AppModule {}
+
+  return WynkFactory.create({ modules: [AppModule], ...appOptions });
+}
+
+function get(app, path, headers = {}, method = "GET") {
+  return app.handle(new Request(`http://localhost${path}`, { method, headers }));
+}
+
+describe("ServeStaticModule", () => {
+  it("serves files with their type, validators and cache headers", async () => {
+    const app = createApp({ maxAge: 31536000, immutable: true });
+    const response = await get(app, "/assets/app.js");
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(appJs);
+    expect(response.headers.get("content-type")).toContain("javascript");
+    expect(response.headers.get("cache-control")).toBe(
+      "public, max-age=31536000, immutable"
+    );
+    expect(response.headers.get("etag")).toBeTruthy();
+    expect(response.headers.get("last-modified")).toBeTruthy();
+    expect(response.headers.get("vary")).toBe("Accept-Encoding");
+
+    const notModified = await get(app, "/assets/app.js", {
+      "If-None-Match": response.headers.get("etag"),
+    });
+    expect(notModified.status).toBe(304);
+  });
+
+  it("serves directory index files, which are always revalidated", async () => {
+    const app = createApp({ maxAge: 3600, immutable: true });
+
+    const root = await get(app, "/");
+    expect(await root.text()).toBe("<h1>admin</h1>");
+    expect(root.headers.get("cache-control")).toBe("no-cache");
+    expect(await (await get(app, "/docs")).text()).toBe("<h1>docs</h1>");
+
+    for (const path of ["/index.html", "/docs/index.html"]) {
+      const direct = await get(app, path);
+      expect(direct.status).toBe(200);
+      expect(direct.headers.get("cache-control")).toBe("no-cache");
+    }
+  });
+
+  it("leaves routes and other methods to the application", async () => {
+    const app = createApp();
+
+    expect(await (await get(app, "/users")).json()).toEqual([{ id: 1 }]);
+    expect((await get(app, "/assets/app.js", {}, "POST")).status).toBe(404);
+  });
+
+  it("answers HEAD requests without a body", async () => {
+    const response = await get(createApp(), "/assets/app.js", {}, "HEAD");
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-length")).toBe(String(appJs.length));
+    expect(await response.text()).toBe("");
+  });
+
+  it("falls back to the SPA index for client-side routes only", async () => {
+    const app = createApp({ spaFallback: true });
+
+    const route = await get(app, "/settings/profile");
+    expect(route.status).toBe(200);
+    expect(await route.text()).toBe("<h1>admin</h1>");
+    expect(route.headers.get("cache-control")).toBe("no-cache");
+
+    const shell = await get(
+      createApp({ spaFallback: "docs/index.html", index: false, maxAge: 3600 }),
+      "/docs/index.html"
+    );
+    expect(shell.headers.get("cache-control")).toBe("no-cache");
+
+    expect((await get(app, "/assets/missing.js")).status).toBe(404);
+    expect((await get(createApp(), "/settings/profile")).status).toBe(404);
+  });
+
+  it("never serves files outside the root or dotfiles", async () => {
+    const app = createApp({ spaFallback: true });
+
+    for (const path of [
+      "/../secret.txt",
+      "/%2e%2e/secret.txt",
+      "/assets/%2e%2e/%2e%2e/secret.txt",
+      "/..%5csecret.txt",
+      "/.env",
+      "/%E0%A4%A",
+    ]) {
+      const response = await get(app, path);
+      expect(response.status).toBe(404);
+      expect(await response.text()).not.toContain("outside the root");
+    }
+  });
+
+  it("excludes the global prefix and the exclude option", async () => {
+    const app = createApp(
+      { spaFallback: true, exclude: ["/health"] },
+      { globalPrefix: "/api" }
+    );
+
+    expect(await (await get(app, "/api/users")).json()).toEqual([{ id: 1 }]);
+
+    const missingApi = await get(app, "/api/unknown");
+    expect(missingApi.status).toBe(404);
+    expect(missingApi.headers.get("content-type")).not.toContain("text/html");
+    expect((await get(app, "/health")).status).toBe(404);
+    expect(await (await get(app, "/dashboard")).text()).toBe("<h1>admin</h1>");
+  });
+
+  it("serves under serveRoot", async () => {
+    const app = createApp({ serveRoot: "/admin", spaFallback: true });
+
+    expect(await (await get(app, "/admin/assets/app.js")).text()).toBe(appJs);
+    expect(await (await get(app, "/admin")).text()).toBe("<h1>admin</h1>");
+    expect(await (await get(app, "/admin/users/42")).text()).toBe("<h1>admin</h1>");
+    expect((await get(app, "/assets/app.js")).status).toBe(404);
+    expect((await get(app, "/administrator")).status).toBe(404);
+  });
+
+  describe("precompressed files", () => {
+    it("serves the sibling matching Accept-Encoding", async () => {
+      const app = createApp();
+
+      const br = await get(app, "/assets/app.js", {
+        "Accept-Encoding": "gzip, br",
+      });
+      expect(br.headers.get("content-encoding")).toBe("br");
+      expect(br.headers.get("content-type")).toContain("javascript");
+      expect(br.headers.get("content-length")).toBe("12");
+
+      const gzip = await get(app, "/assets/app.js", {
+        "Accept-Encoding": "gzip, br;q=0",
+      });
+      expect(gzip.headers.get("content-encoding")).toBe("gzip");
+
+      const identity = await get(app, "/assets/app.js", {
+        "Accept-Encoding": "deflate",
+      });
+      expect(identity.headers.get("content-encoding")).toBeNull();
+      expect(await identity.text()).toBe(appJs);
+    });
+
+    it("is not compressed again by compression()", async () => {
+      const app = createApp();
+      app.use(compression({ threshold: 0 }));
+
+      const response = await get(app, "/assets/app.js", {
+        "Accept-Encoding": "br",
+      });
+      expect(response.headers.get("content-encoding")).toBe("br");
+      expect(new TextDecoder().decode(await response.arrayBuffer())).toBe(
+        "brotli-bytes"
+      );
+    });
+
+    it("can be disabled", async () => {
+      const response = await get(createApp({ precompressed: false }), "/assets/app.js", {
+        "Accept-Encoding": "br",
+      });
+
+      expect(response.headers.get("content-encoding")).toBeNull();
+      expect(response.headers.get("vary")).toBeNull();
+    });
+  });
+
+  it("requires a rootPath", () => {
+    expect(() => ServeStaticModule.forRoot({})).toThrow(/rootPath/);
+  });
+});
@@ -0,0 +1,185 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Sse,
+  Param,
+  LastEventId,
+  Header,
+  UseGuards,
+  UseInterceptors,
+  ForbiddenException,
+  formatSseMessage,
+} from "../core";
+
+const cleanups: string[] = [];
+const interceptorCalls: string[] = [];
+
+class DenyGuard {
+  canActivate() {
+    throw new ForbiddenException("No stream for you");
+  }
+}
+
+class StreamKeyGuard {
+  canActivate(context) {
+    return context.headers?.["x-stream-key"] === "secret";
+  }
+}
+
+class TrackingInterceptor {
+  async intercept(context, next) {
+    interceptorCalls.push(context.getHandler().name);
+    return next();
+  }
+}
+
+@Controller("/events")
+class EventsController {
+  @Sse("/ticks")
+  @UseInterceptors(TrackingInterceptor)
+  async *ticks(@LastEventId() lastEventId?: string) {
+    let id = Number(lastEventId ?? 0);
+    yield { id: ++id, event: "tick", data: { count: id } };
+    yield { id: ++id, data: "plain\ntext", retry: 2000 };
+  }
+
+  @Sse({ path: "/forever/:name", keepAlive: 20 })
+  async *forever(@Param("name") name: string) {
+    try {
+      yield { data: "started" };
+      while (true) {
+        await Bun.sleep(50);
+        yield { data: "tick" };
+      }
+    } finally {
+      cleanups.push(name);
+    }
+  }
+
+  @Sse("/keyed")
+  @UseGuards(StreamKeyGuard)
+  @Header("X-Stream", "keyed")
+  async *keyed() {
+    yield { data: "unlocked" };
+  }
+
+  @Sse("/private")
+  @UseGuards(DenyGuard)
+  async *private() {
+    yield { data: "secret" };
+  }
+}
+
+function createApp() {
+  return WynkFactory.create({ controllers: [EventsController] });
+}
+
+async function readChunk(reader) {
+  const { value } = await reader.read();
+  return new TextDecoder().decode(value);
+}
+
+describe("Server-Sent Events", () => {
+  it("formats messages in the event-stream wire format", () => {
+    expect(formatSseMessage({ event: "tick", id: 1, data: { count: 1 } })).toBe(
+      'event: tick\nid: 1\ndata: {"count":1}\n\n'
+    );
+    expect(formatSseMessage({ data: "a\nb", retry: 1500 })).toBe(
+      "retry: 1500\ndata: a\ndata: b\n\n"
+    );
+    // Values without a data property are sent as the data itself
+    expect(formatSseMessage(42)).toBe("data: 42\n\n");
+    expect(formatSseMessage({ data: "x", event: "bad\nevent" })).toBe(
+      "event: badevent\ndata: x\n\n"
+    );
+  });
+
+  it("streams an async generator as text/event-stream", async () => {
+    const response = await createApp().handle(
+      new Request("http://localhost/events/ticks")
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("content-type")).toStartWith("text/event-stream");
+    expect(response.headers.get("cache-control")).toBe("no-cache");
+    expect(await response.text()).toBe(
+      'event: tick\nid: 1\ndata: {"count":1}\n\n' +
+        "id: 2\nretry: 2000\ndata: plain\ndata: text\n\n"
+    );
+  });
+
+  it("resumes from the Last-Event-ID header", async () => {
+    const response = await createApp().handle(
+      new Request("http://localhost/events/ticks", {
+        headers: { "Last-Event-ID": "41" },
+      })
+    );
+
+    const body = await response.text();
+    expect(body).toContain("id: 42\n");
+    expect(body).toContain("id: 43\n");
+  });
+
+  it("runs interceptors before streaming", async () => {
+    interceptorCalls.length = 0;
+    await (
+      await createApp().handle(new Request("http://localhost/events/ticks"))
+    ).text();
+
+    expect(interceptorCalls).toEqual(["ticks"]);
+  });
+
+  it("rejects the stream when a guard fails", async () => {
+    const response = await createApp().handle(
+      new Request("http://localhost/events/private")
+    );
+
+    expect(response.status).toBe(403);
+    expect(response.headers.get("content-type")).not.toContain("event-stream");
+    expect((await response.json()).message).toBe("No stream for you");
+  });
+
+  it("lets guards read request headers and keeps response headers", async () => {
+    const response = await createApp().handle(
+      new Request("http://localhost/events/keyed", {
+        headers: { "X-Stream-Key": "secret" },
+      })
+    );
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("x-stream")).toBe("keyed");
+    expect(await response.text()).toBe("data: unlocked\n\n");
+  });
+
+  it("sends keep-alive comments and cleans up when the client disconnects", async () => {
+    const response = await createApp().handle(
+      new Request("http://localhost/events/forever/alpha")
+    );
+    const reader = response.body.getReader();
+
+    expect(await readChunk(reader)).toBe("data: started\n\n");
+    expect(await readChunk(reader)).toBe(": keep-alive\n\n");
+
+    await reader.cancel();
+    await Bun.sleep(100);
+    expect(cleanups).toContain("alpha");
+  });
+
+  it("cleans up when the request is aborted", async () => {
+    const controller = new AbortController();
+    const response = await createApp().handle(
+      new Request("http://localhost/events/forever/beta", {
+        signal: controller.signal,
+      })
+    );
+    const reader = response.body.getReader();
+    expect(await readChunk(reader)).toBe("data: started\n\n");
+
+    controller.abort();
+    await Bun.sleep(100);
+    expect(cleanups).toContain("beta");
+  });
+});
@@ -0,0 +1,251 @@
+// @ts-nocheck
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import "reflect-metadata";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Header,
+  Context,
+  StreamableFile,
+  contentDisposition,
+} from "../core";
+
+const dir = mkdtempSync(join(tmpdir(), "wynk-file-"));
+const reportPath = join(dir, "report.csv");
+const content = "id,name\n1,ada\n2,grace\n3,linus\n";
+
+@Controller("/files")
+class FilesController {
+  @Get("/report")
+  report() {
+    return new StreamableFile(reportPath, { filename: "report.csv" });
+  }
+
+  @Get("/inline")
+  @Header("Cache-Control", "private, max-age=60")
+  inline() {
+    return new StreamableFile(Bun.file(reportPath), { disposition: "inline" });
+  }
+
+  @Get("/missing")
+  missing() {
+    return new StreamableFile(join(dir, "missing.csv"));
+  }
+
+  @Get("/buffer")
+  buffer() {
+    return new StreamableFile(Buffer.from("hello world"), {
+      type: "text/plain",
+    });
+  }
+
+  @Get("/stream")
+  stream() {
+    const stream = new ReadableStream({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("chunk-1,"));
+        controller.enqueue(new TextEncoder().encode("chunk-2"));
+        controller.close();
+      },
+    });
+    return new StreamableFile(stream, { type: "text/plain", length: 15 });
+  }
+
+  @Get("/renamed")
+  renamed(@Context() ctx) {
+    ctx.response.download("résumé.csv");
+    return new StreamableFile(reportPath);
+  }
+}
+
+let app;
+
+beforeAll(() => {
+  writeFileSync(reportPath, content);
+  app = WynkFactory.create({ controllers: [FilesController] });
+});
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+function request(path, headers = {}) {
+  return app.handle(new Request(`http://localhost/files${path}`, { headers }));
+}
+
+describe("StreamableFile", () => {
+  it("streams a file with its type, length, disposition and validators", async () => {
+    const response = await request("/report");
+
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe(content);
+    expect(response.headers.get("content-type")).toContain("text/csv");
+    expect(response.headers.get("content-length")).toBe(String(content.length));
+    expect(response.headers.get("content-disposition")).toBe(
+      'attachment; filename="report.csv"'
+    );
+    expect(response.headers.get("accept-ranges")).toBe("bytes");
+    expect(response.headers.get("etag")).toMatch(/^"[0-9a-f]+-[0-9a-f]+"$/);
+    expect(response.headers.get("last-modified")).toBeTruthy();
+  });
+
+  it("keeps headers set by the handler", async () => {
+    const response = await request("/inline");
+
+    expect(response.headers.get("content-disposition")).toBe("inline");
+    expect(response.headers.get("cache-control")).toBe("private, max-age=60");
+
+    const renamed = await request("/renamed");
+    expect(renamed.headers.get("content-disposition")).toBe(
+      contentDisposition("résumé.csv")
+    );
+    expect(contentDisposition("résumé.csv")).toBe(
+      "attachment; filename=\"r?sum?.csv\"; filename*=UTF-8''r%C3%A9sum%C3%A9.csv"
+    );
+  });
+
+  it("responds 404 when the file does not exist", async () => {
+    const response = await request("/missing");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).message).toBe("File not found");
+  });
+
+  it("sends buffers and streams", async () => {
+    const buffer = await request("/buffer");
+    expect(await buffer.text()).toBe("hello world");
+    expect(buffer.headers.get("content-type")).toBe("text/plain");
+    expect(buffer.headers.get("etag")).toBeTruthy();
+
+    const partial = await request("/buffer", { Range: "bytes=6-" });
+    expect(partial.status).toBe(206);
+    expect(await partial.text()).toBe("world");
+
+    const stream = await request("/stream");
+    expect(await stream.text()).toBe("chunk-1,chunk-2");
+    expect(stream.headers.get("content-length")).toBe("15");
+    expect(stream.headers.get("accept-ranges")).toBeNull();
+  });
+
+  describe("Range requests", () => {
+    it("sends a single range with 206", async () => {
+      const response = await request("/report", { Range: "bytes=0-6" });
+
+      expect(response.status).toBe(206);
+      expect(await response.text()).toBe("id,name");
+      expect(response.headers.get("content-range")).toBe(
+        `bytes 0-6/${content.length}`
+      );
+      expect(response.headers.get("content-length")).toBe("7");
+
+      const suffix = await request("/report", { Range: "bytes=-6" });
+      expect(await suffix.text()).toBe("linus\n");
+    });
+
+    it("sends several ranges as multipart/byteranges", async () => {
+      const response = await request("/report", { Range: "bytes=0-1, 8-12" });
+      const type = response.headers.get("content-type");
+      const boundary = type.split("boundary=")[1];
+      const body = await response.text();
+
+      expect(response.status).toBe(206);
+      expect(type).toStartWith("multipart/byteranges; boundary=");
+      expect(response.headers.get("content-length")).toBe(
+        String(Buffer.byteLength(body))
+      );
+      expect(body).toBe(
+        `--${boundary}\r\nContent-Type: text/csv\r\nContent-Range: bytes 0-1/${content.length}\r\n\r\nid` +
+          `\r\n--${boundary}\r\nContent-Type: text/csv\r\nContent-Range: bytes 8-12/${content.length}\r\n\r\n1,ada` +
+          `\r\n--${boundary}--\r\n`
+      );
+    });
+
+    it("combines overlapping ranges", async () => {
+      const response = await request("/report", { Range: "bytes=0-3,2-6" });
+
+      expect(response.headers.get("content-range")).toBe(
+        `bytes 0-6/${content.length}`
+      );
+    });
+
+    it("responds 416 to unsatisfiable ranges", async () => {
+      const response = await request("/report", { Range: "bytes=500-600" });
+
+      expect(response.status).toBe(416);
+      expect(response.headers.get("content-range")).toBe(
+        `bytes */${content.length}`
+      );
+    });
+
+    it("ignores malformed ranges", async () => {
+      const response = await request("/report", { Range: "lines=1-2" });
+
+      expect(response.status).toBe(200);
+      expect(await response.text()).toBe(content);
+    });
+
+    it("honors If-Range", async () => {
+      const { headers } = await request("/report");
+      const etag = headers.get("etag");
+
+      const fresh = await request("/report", {
+        Range: "bytes=0-1",
+        "If-Range": etag,
+      });
+      expect(fresh.status).toBe(206);
+
+      const byDate = await request("/report", {
+        Range: "bytes=0-1",
+        "If-Range": headers.get("last-modified"),
+      });
+      expect(byDate.status).toBe(206);
+
+      const stale = await request("/report", {
+        Range: "bytes=0-1",
+        "If-Range": '"stale"',
+      });
+      expect(stale.status).toBe(200);
+      expect(await stale.text()).toBe(content);
+    });
+  });
+
+  describe("conditional requests", () => {
+    it("responds 304 when If-None-Match matches the ETag", async () => {
+      const etag = (await request("/report")).headers.get("etag");
+
+      const response = await request("/report", {
+        "If-None-Match": `W/${etag}`,
+      });
+      expect(response.status).toBe(304);
+      expect(response.headers.get("etag")).toBe(etag);
+      expect(await response.text()).toBe("");
+
+      expect(
+        (await request("/report", { "If-None-Match": '"other"' })).status
+      ).toBe(200);
+    });
+
+    it("responds 304 when not modified since If-Modified-Since", async () => {
+      const lastModified = (await request("/report")).headers.get(
+        "last-modified"
+      );
+
+      expect(
+        (await request("/report", { "If-Modified-Since": lastModified })).status
+      ).toBe(304);
+      expect(
+        (
+          await request("/report", {
+            "If-Modified-Since": new Date(
+              Date.parse(lastModified) - 60_000
+            ).toUTCString(),
+          })
+        ).status
+      ).toBe(200);
+    });
+  });
+});
@@ -0,0 +1,148 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Controller,
+  Get,
+  Version,
+  VERSION_NEUTRAL,
+  VersioningType,
+} from "../core";
+
+@Controller("/users")
+class UsersV1Controller {
+  @Get("/")
+  list() {
+    return { version: "1" };
+  }
+
+  @Get("/export")
+  @Version(["1", "2"])
+  export() {
+    return { export: true };
+  }
+}
+
+@Version("2")
+@Controller("/users")
+class UsersV2Controller {
+  @Get("/")
+  list() {
+    return { version: "2" };
+  }
+
+  @Get("/beta")
+  @Version("3")
+  beta() {
+    return { version: "3" };
+  }
+}
+
+@Version(VERSION_NEUTRAL)
+@Controller("/health")
+class HealthController {
+  @Get("/")
+  check() {
+    return { ok: true };
+  }
+}
+
+function createApp(versioning, options = {}) {
+  return WynkFactory.create({
+    controllers: [UsersV1Controller, UsersV2Controller, HealthController],
+    versioning: { defaultVersion: "1", ...versioning },
+    ...options,
+  });
+}
+
+async function get(app, path, headers = {}) {
+  const response = await app.handle(
+    new Request(`http://localhost${path}`, { headers })
+  );
+  return {
+    status: response.status,
+    body: response.status === 200 ? await response.json() : undefined,
+  };
+}
+
+describe("API versioning", () => {
+  describe("URI strategy", () => {
+    const app = createApp({ type: VersioningType.URI }, { globalPrefix: "/api" });
+
+    it("puts the version after the global prefix", async () => {
+      expect((await get(app, "/api/v1/users")).body).toEqual({ version: "1" });
+      expect((await get(app, "/api/v2/users")).body).toEqual({ version: "2" });
+      expect((await get(app, "/api/v3/users/beta")).body).toEqual({ version: "3" });
+      expect((await get(app, "/api/users")).status).toBe(404);
+    });
+
+    it("registers routes serving several versions under each", async () => {
+      expect((await get(app, "/api/v1/users/export")).body).toEqual({ export: true });
+      expect((await get(app, "/api/v2/users/export")).body).toEqual({ export: true });
+    });
+
+    it("serves version-neutral routes without a version segment", async () => {
+      expect((await get(app, "/api/health")).body).toEqual({ ok: true });
+      expect((await get(app, "/api/v1/health")).status).toBe(404);
+    });
+
+    it("supports a custom prefix", async () => {
+      const custom = createApp({ type: "uri", prefix: "version-" });
+      expect((await get(custom, "/version-2/users")).body).toEqual({ version: "2" });
+    });
+  });
+
+  describe("header strategy", () => {
+    const app = createApp({ type: VersioningType.HEADER, header: "X-API-Version" });
+
+    it("dispatches routes sharing a path by the version header", async () => {
+      expect((await get(app, "/users", { "X-API-Version": "1" })).body).toEqual({
+        version: "1",
+      });
+      expect((await get(app, "/users", { "X-API-Version": "2" })).body).toEqual({
+        version: "2",
+      });
+      expect((await get(app, "/users/export", { "X-API-Version": "2" })).body).toEqual(
+        { export: true }
+      );
+    });
+
+    it("returns 404 for unknown or missing versions, except on neutral routes", async () => {
+      expect((await get(app, "/users", { "X-API-Version": "9" })).status).toBe(404);
+      expect((await get(app, "/users")).status).toBe(404);
+      expect((await get(app, "/health")).body).toEqual({ ok: true });
+      expect((await get(app, "/health", { "X-API-Version": "2" })).body).toEqual({
+        ok: true,
+      });
+    });
+
+    it("requires the header name", () => {
+      expect(() => createApp({ type: VersioningType.HEADER })).toThrow(
+        /requires the name of the version header/
+      );
+    });
+  });
+
+  describe("media type strategy", () => {
+    const app = createApp({ type: VersioningType.MEDIA_TYPE });
+
+    it("reads vendor media types and the version parameter", async () => {
+      expect(
+        (await get(app, "/users", { Accept: "application/vnd.acme.v2+json" })).body
+      ).toEqual({ version: "2" });
+      expect(
+        (await get(app, "/users", { Accept: "text/html, application/json;v=1" })).body
+      ).toEqual({ version: "1" });
+      expect((await get(app, "/users", { Accept: "application/json" })).status).toBe(
+        404
+      );
+    });
+  });
+
+  it("ignores @Version() when versioning is disabled", async () => {
+    const app = WynkFactory.create({ controllers: [UsersV2Controller] });
+
+    expect((await get(app, "/users/beta")).body).toEqual({ version: "3" });
+  });
+});
@@ -0,0 +1,144 @@
+// @ts-nocheck
+import { describe, it, expect } from "bun:test";
+import "reflect-metadata";
+import { createHmac } from "node:crypto";
+import { WynkFactory } from "../core/factory";
+import {
+  Body,
+  Controller,
+  DTO,
+  Post,
+  RawBody,
+  Req,
+  UseGuards,
+  WebhookSignatureGuard,
+} from "../core";
+
+const payload = '{ "type": "push",  "id": 1 }';
+
+function sign(secret, data, algorithm = "sha256", encoding = "hex") {
+  return createHmac(algorithm, secret).update(data).digest(encoding);
+}
+
+@Controller("/webhooks")
+class WebhookController {
+  @Post({ path: "/raw", body: DTO.Object({ type: DTO.String(), id: DTO.Number() }) })
+  raw(@RawBody() raw, @Body() event) {
+    return { raw: new TextDecoder().decode(raw), type: event.type };
+  }
+
+  @Post({ path: "/request", rawBody: true })
+  request(@Req() req) {
+    return { length: req.rawBody.length };
+  }
+
+  @Post("/github")
+  @UseGuards(WebhookSignatureGuard.github(["old-secret", "gh-secret"]))
+  github(@Body() event) {
+    return { received: event.type };
+  }
+
+  @Post("/stripe")
+  @UseGuards(WebhookSignatureGuard.stripe("whsec_test", 60))
+  stripe() {
+    return { received: true };
+  }
+
+  @Post("/custom")
+  @UseGuards(
+    new WebhookSignatureGuard({
+      secret: "custom",
+      header: "x-signature",
+      algorithm: "sha1",
+      encoding: "base64",
+    })
+  )
+  custom() {
+    return { received: true };
+  }
+}
+
+function post(app, path, headers = {}, body = payload) {
+  return app.handle(
+    new Request(`http://localhost${path}`, {
+      method: "POST",
+      headers: { "content-type": "application/json", ...headers },
+      body,
+    })
+  );
+}
+
+describe("Raw request body", () => {
+  it("passes the exact bytes next to the validated body", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+
+    const response = await post(app, "/webhooks/raw");
+
+    expect(await response.json()).toEqual({ raw: payload, type: "push" });
+  });
+
+  it("is available on the request with rawBody: true", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+
+    const response = await post(app, "/webhooks/request", { "content-type": "text/plain" }, "héllo");
+
+    expect(await response.json()).toEqual({ length: 6 });
+  });
+});
+
+describe("WebhookSignatureGuard", () => {
+  it("accepts GitHub signatures made with any of the secrets", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+
+    const response = await post(app, "/webhooks/github", {
+      "x-hub-signature-256": `sha256=${sign("gh-secret", payload)}`,
+    });
+
+    expect(await response.json()).toEqual({ received: "push" });
+  });
+
+  it("answers 401 for invalid or missing signatures", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+
+    const tampered = await post(
+      app,
+      "/webhooks/github",
+      { "x-hub-signature-256": `sha256=${sign("gh-secret", payload)}` },
+      payload.replace("1", "2")
+    );
+    const truncated = await post(app, "/webhooks/github", {
+      "x-hub-signature-256": `sha256=${sign("gh-secret", payload).slice(0, 10)}`,
+    });
+    const missing = await post(app, "/webhooks/github");
+
+    expect(tampered.status).toBe(401);
+    expect((await tampered.json()).message).toBe("Invalid webhook signature");
+    expect(truncated.status).toBe(401);
+    expect((await missing.json()).message).toBe("Missing x-hub-signature-256 header");
+  });
+
+  it("checks the timestamp of Stripe signatures", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+    const now = Math.floor(Date.now() / 1000);
+    const header = (t) => ({
+      "stripe-signature": `t=${t},v1=${sign("whsec_test", `${t}.${payload}`)},v0=ignored`,
+    });
+
+    const valid = await post(app, "/webhooks/stripe", header(now));
+    const replayed = await post(app, "/webhooks/stripe", header(now - 120));
+
+    expect(valid.status).toBe(200);
+    expect(replayed.status).toBe(401);
+    expect((await replayed.json()).message).toBe("Webhook timestamp is outside the tolerance");
+  });
+
+  it("supports SHA-1 and base64 signatures", async () => {
+    const app = WynkFactory.create({ controllers: [WebhookController] });
+
+    const response = await post(app, "/webhooks/custom", {
+      "x-signature": sign("custom", payload, "sha1", "base64"),
+    });
+
+    expect(await response.json()).toEqual({ received: true });
+  });
+});
@@ -0,0 +1,295 @@
+// @ts-nocheck
+import { describe, it, expect, afterEach } from "bun:test";
+import "reflect-metadata";
+import { WynkFactory } from "../core/factory";
+import {
+  Injectable,
+  Module,
+  WebSocketGateway,
+  SubscribeMessage,
+  WebSocketServer,
+  MessageBody,
+  ConnectedSocket,
+  UseGuards,
+  UseInterceptors,
+  UseFilters,
+  UsePipes,
+  Catch,
+  WsException,
+  BadRequestException,
+  UnauthorizedException,
+} from "../core";
+
+const events: string[] = [];
+
+@Injectable()
+class ChatHistory {
+  messages: string[] = [];
+}
+
+class MemberGuard {
+  canActivate(context) {
+    events.push(`guard:${context.getType()}`);
+    return context.switchToWs().getClient().data.name !== "intruder";
+  }
+}
+
+class ShoutInterceptor {
+  async intercept(context, next) {
+    events.push(`interceptor:${context.switchToWs().getPattern()}`);
+    const result = await next();
+    return typeof result === "string" ? result.toUpperCase() : result;
+  }
+}
+
+class TrimPipe {
+  transform(value, metadata) {
+    return metadata.type === "body" && typeof value === "string"
+      ? value.trim()
+      : value;
+  }
+}
+
+@Catch(BadRequestException)
+class BadRequestToWsFilter {
+  catch(exception, context) {
+    events.push(`filter:${context.getType()}`);
+    return { reason: exception.message };
+  }
+}
+
+@Injectable()
+@WebSocketGateway("/chat")
+@UseGuards(MemberGuard)
+class ChatGateway {
+  @WebSocketServer()
+  server;
+
+  constructor(private history: ChatHistory) {}
+
+  afterInit(server) {
+    events.push(`init:${server.path}`);
+  }
+
+  handleConnection(client) {
+    const name = client.handshake.query.name;
+    if (!name) throw new UnauthorizedException("A name is required");
+    client.data.name = name;
+  }
+
+  handleDisconnect(client) {
+    events.push(`disconnect:${client.data.name}`);
+  }
+
+  @SubscribeMessage("join")
+  join(@MessageBody("room") room: string, @ConnectedSocket() client) {
+    client.join(room);
+    client.to(room).emit("joined", client.data.name);
+    return { event: "joined:ack", data: client.rooms };
+  }
+
+  @SubscribeMessage("message")
+  @UsePipes(TrimPipe)
+  message(@MessageBody() text: string, @ConnectedSocket() client) {
+    this.history.messages.push(text);
+    const [room] = client.rooms;
+    client.to(room).emit("message", { from: client.data.name, text });
+  }
+
+  @SubscribeMessage("shout")
+  @UseInterceptors(ShoutInterceptor)
+  shout(@MessageBody() text: string) {
+    return text;
+  }
+
+  @SubscribeMessage("announce")
+  announce(@MessageBody() text: string) {
+    return { sent: this.server.emit("announcement", text) };
+  }
+
+  @SubscribeMessage("fail")
+  @UseFilters(BadRequestToWsFilter)
+  fail(@MessageBody() kind: string) {
+    if (kind === "bad-request") throw new BadRequestException("Bad payload");
+    throw new WsException("Room is full");
+  }
+
+  @SubscribeMessage("echo")
+  echo(data, client) {
+    return { data, id: client.id.length > 0 };
+  }
+}
+
+@Module({
+  gateways: [ChatGateway],
+  providers: [ChatHistory],
+})
+class ChatModule {}
+
+const apps = [];
+
+afterEach(async () => {
+  for (const app of apps.splice(0)) await app.close();
+});
+
+async function startApp() {
+  const app = WynkFactory.create({
+    modules: [ChatModule],
+    shutdownSignals: false,
+  });
+  apps.push(app);
+  const port = 9100 + Math.floor(Math.random() * 800);
+  await app.listen(port);
+  return { app, port };
+}
+
+async function connect(port, query = "?name=ada") {
+  const socket = new WebSocket(`ws://localhost:${port}/chat${query}`);
+  const received = [];
+  socket.onmessage = (event) => received.push(JSON.parse(event.data));
+  const closed = new Promise((resolve) => {
+    socket.onclose = (event) => resolve(event);
+  });
+  await new Promise((resolve, reject) => {
+    socket.onopen = resolve;
+    socket.onerror = reject;
+  });
+
+  return {
+    socket,
+    received,
+    closed,
+    send: (event, data) => socket.send(JSON.stringify({ event, data })),
+    async next(event) {
+      for (let i = 0; i < 100; i++) {
+        const index = received.findIndex((m) => m.event === event);
+        if (index !== -1) return received.splice(index, 1)[0];
+        await Bun.sleep(5);
+      }
+      throw new Error(`No "${event}" message received`);
+    },
+  };
+}
+
+describe("WebSocket gateways", () => {
+  it("calls afterInit with the gateway server", async () => {
+    events.length = 0;
+    await startApp();
+
+    expect(events).toEqual(["init:/chat"]);
+  });
+
+  it("dispatches messages by event name and replies to the sender", async () => {
+    const { port } = await startApp();
+    const ada = await connect(port);
+
+    ada.send("echo", { hello: "world" });
+
+    expect(await ada.next("echo")).toEqual({
+      event: "echo",
+      data: { data: { hello: "world" }, id: true },
+    });
+    ada.socket.close();
+  });
+
+  it("broadcasts to rooms and to every client", async () => {
+    const { app, port } = await startApp();
+    const ada = await connect(port, "?name=ada");
+    const bob = await connect(port, "?name=bob");
+    const eve = await connect(port, "?name=eve");
+
+    ada.send("join", { room: "general" });
+    expect((await ada.next("joined:ack")).data).toEqual(["general"]);
+    bob.send("join", { room: "general" });
+    await bob.next("joined:ack");
+    expect((await ada.next("joined")).data).toBe("bob");
+
+    bob.send("message", "  hi there  ");
+    expect((await ada.next("message")).data).toEqual({
+      from: "bob",
+      text: "hi there",
+    });
+    await Bun.sleep(20);
+    expect(bob.received.find((m) => m.event === "message")).toBeUndefined();
+    expect(eve.received.find((m) => m.event === "message")).toBeUndefined();
+    expect(app.getContainer(ChatModule).resolve(ChatHistory).messages).toEqual([
+      "hi there",
+    ]);
+
+    eve.send("announce", "maintenance");
+    expect((await eve.next("announce")).data).toEqual({ sent: 3 });
+    for (const client of [ada, bob, eve]) {
+      expect((await client.next("announcement")).data).toBe("maintenance");
+      client.socket.close();
+    }
+  });
+
+  it("runs guards and interceptors with a ws execution context", async () => {
+    const { port } = await startApp();
+    const ada = await connect(port);
+    const intruder = await connect(port, "?name=intruder");
+    events.length = 0;
+
+    ada.send("shout", "hello");
+    expect((await ada.next("shout")).data).toBe("HELLO");
+    expect(events).toEqual(["guard:ws", "interceptor:shout"]);
+
+    intruder.send("shout", "hello");
+    expect((await intruder.next("exception")).data).toEqual({
+      status: "error",
+      message: "Forbidden resource",
+    });
+    ada.socket.close();
+    intruder.socket.close();
+  });
+
+  it("sends exceptions as exception events, through exception filters", async () => {
+    const { port } = await startApp();
+    const ada = await connect(port);
+    events.length = 0;
+
+    ada.send("fail", "bad-request");
+    expect((await ada.next("exception")).data).toEqual({ reason: "Bad payload" });
+    expect(events).toContain("filter:ws");
+
+    ada.send("fail", "full");
+    expect((await ada.next("exception")).data).toEqual({
+      status: "error",
+      message: "Room is full",
+    });
+
+    ada.socket.send("not json");
+    expect((await ada.next("exception")).data.message).toContain('"event"');
+    ada.socket.close();
+  });
+
+  it("rejects connections when handleConnection throws", async () => {
+    const { port } = await startApp();
+    const anonymous = await connect(port, "");
+
+    expect((await anonymous.next("exception")).data).toMatchObject({
+      status: "error",
+      statusCode: 401,
+      message: "A name is required",
+    });
+    expect((await anonymous.closed).code).toBe(1008);
+  });
+
+  it("calls handleDisconnect and drops the client from its rooms", async () => {
+    const { port } = await startApp();
+    const ada = await connect(port, "?name=ada");
+    const bob = await connect(port, "?name=bob");
+    ada.send("join", { room: "general" });
+    await ada.next("joined:ack");
+    events.length = 0;
+
+    ada.socket.close();
+    await ada.closed;
+    await Bun.sleep(20);
+
+    expect(events).toEqual(["disconnect:ada"]);
+    bob.send("announce", "still here?");
+    expect((await bob.next("announce")).data).toEqual({ sent: 1 });
+    bob.socket.close();
+  });
+});